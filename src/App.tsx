@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
 import { 
   BookOpen, 
   Layers, 
@@ -7,6 +7,13 @@ import {
   Download, 
   Settings, 
   Loader2, 
+  Undo2,
+  Camera,
+  Sparkles,
+  BookCheck,
+  GitCompare,
+  Redo2,
+  History,
   RefreshCw,
   AlertCircle,
   FolderOpen,
@@ -44,32 +51,111 @@ import {
   ArrowLeftRight,
   FileSearch,
   Edit2,
-  GripVertical
+  GripVertical,
+  Copy,
+  ShieldCheck,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw,
+  Archive,
+  ArchiveRestore,
+  Scissors
 } from 'lucide-react';
 
 // --- Constants & Models ---
-const MODELS = [
+// batchTokenBudget: estimated INPUT tokens per extraction batch. Kept well below context limits because
+// every paper also produces several hundred tokens of JSON output (Gemma caps output at ~8k tokens).
+// rpm / rpd: free-tier requests per minute / per day (as of Dec 2025). maxConcurrency: parallel requests.
+// *PricePerMillion: paid-tier USD per million tokens, used for the pre-run cost estimate.
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+const MODELS: ModelConfig[] = [
   { 
     id: "gemini-2.5-flash", 
     name: "Gemini 2.5 Flash (Best Quality)", 
     desc: "Highest reasoning capability. Strict daily limit (~20/day on free tier). Use this for the final Synthesis step where quality counts.",
-    type: "gemini"
+    type: "gemini",
+    backend: "gemini",
+    baseUrl: GEMINI_BASE_URL,
+    authStyle: "query-key",
+    supportsJsonMode: true,
+    supportsSystemPrompt: true,
+    batchTokenBudget: 8000,
+    rpm: 10,
+    rpd: 20,
+    maxConcurrency: 1,
+    inputPricePerMillion: 0.30,
+    outputPricePerMillion: 2.50
   },
   { 
     id: "gemma-3-27b-it", 
     name: "Gemma 3 27b (High Quota)", 
     desc: "Generous daily limits on free tier. Best for the initial bulk Sorting/Extraction of papers.",
-    type: "gemma"
+    type: "gemma",
+    backend: "gemini",
+    baseUrl: GEMINI_BASE_URL,
+    authStyle: "query-key",
+    supportsJsonMode: false,
+    supportsSystemPrompt: false,
+    batchTokenBudget: 6000,
+    rpm: 30,
+    rpd: 14400,
+    maxConcurrency: 3,
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0
   }
 ];
 
+// NEW: Defaults offered when adding a custom model in Settings
+const PROVIDER_DEFAULTS: Record<Exclude<ProviderBackend, 'gemini'>, { label: string, baseUrl: string, authStyle: AuthStyle }> = {
+  openai: { label: "OpenAI-compatible (OpenAI, vLLM, LM Studio, OpenRouter...)", baseUrl: "https://api.openai.com/v1", authStyle: "bearer" },
+  ollama: { label: "Ollama (local)", baseUrl: "http://localhost:11434", authStyle: "none" }
+};
+
 // --- Types ---
+type ProviderBackend = 'gemini' | 'openai' | 'ollama';
+type AuthStyle = 'query-key' | 'bearer' | 'none';
+
+interface ModelConfig {
+  id: string;                    // Unique selection id (also the backend model name unless `model` is set)
+  model?: string;                // Backend model name, e.g. "llama3.1:8b"
+  name: string;
+  desc: string;
+  type: string;
+  backend: ProviderBackend;
+  baseUrl: string;
+  authStyle: AuthStyle;
+  supportsJsonMode: boolean;     // Provider can be asked to return JSON only
+  supportsSystemPrompt: boolean; // If false, system instructions are folded into the user prompt
+  batchTokenBudget: number;
+  rpm?: number;                  // Requests per minute; unlimited if unset
+  rpd?: number;                  // Requests per day; only used for the usage display
+  maxConcurrency: number;
+  inputPricePerMillion?: number;
+  outputPricePerMillion?: number;
+  apiKey?: string;               // Custom providers only; Gemini models use the key entered in Settings
+}
+
+// Error body shapes: Gemini/OpenAI use { error: { message } }, Ollama uses { error: "..." }
+interface ProviderErrorBody {
+  error?: string | { message?: string, details?: { reason?: string, retryDelay?: string, violations?: { quotaId?: string }[] }[] };
+}
+
+// Response shapes of the supported backends (Gemini, Ollama /api/chat, OpenAI /chat/completions)
+interface ProviderResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  fromCache?: boolean; // Set by fetchAI when the reply came from the response cache
+  message?: { content?: string };
+  choices?: { message?: { content?: string } }[];
+}
+
 interface Paper {
   id: string;
   title: string;
   abstractSnippet: string;
   category: string; 
   theme: string;    
+  subSubTheme?: string; // Optional third level inside the sub-theme
   driver: string;   
   driverGroup: string; 
   response: string; 
@@ -84,13 +170,64 @@ interface Paper {
   year: string;
   journal: string;
   shortCitation: string;
-  modelUsed?: string; 
+  modelUsed?: string;
+  doi?: string;
+  codebookProposal?: boolean; // Filed by seeded extraction under a section missing from the codebook
+}
+
+// A bibliographic record parsed deterministically from an export file (RIS, BibTeX...)
+interface SourceRecord {
+  id: string; // Batch-local marker id, e.g. "R12"
+  title: string;
+  authors: string[];
+  year: string;
+  journal: string;
+  abstract: string;
+  doi?: string;
+}
+
+// One paper's worth of input: a segment of pasted text or an imported SourceRecord
+interface InputRecord {
+  id: string; // Marker id sent to the AI, e.g. "R12"
+  text: string; // Serialized text sent to the AI (starts with the [[id]] marker)
+  label: string; // Short human-readable label (citation line or title)
+  source?: SourceRecord;
+}
+
+interface RecordBatch {
+  records: InputRecord[];
+  estimatedTokens: number;
+}
+
+// Reconciliation of extracted entries against the input records of an extraction run
+interface CoverageReport {
+  totalRecords: number;
+  processed: number; // Input records whose batch finished; the rest never ran (stopped, quota or error)
+  missing: InputRecord[]; // Input records that produced no extracted entry
+  unmatched: { paperId: string; title: string; batch: number }[]; // Entries matching no input record (possibly hallucinated)
+}
+
+// Two entries that appear to be the same finding from the same paper
+interface DuplicatePair {
+  key: string; // Sorted "idA|idB", also used to remember pairs marked as distinct
+  aId: string;
+  bId: string;
+  reason: string;
+}
+
+type ImportFormat = 'ris' | 'bibtex' | 'wos' | 'scopus';
+
+interface ImportedRecordSet {
+  fileName: string;
+  format: ImportFormat;
+  records: SourceRecord[];
 }
 
 interface SynthesisResult {
   summary: string | string[]; 
   contradictionAnalysis: string;
   modelUsed?: string;
+  fromCache?: boolean;
 }
 
 interface ChatMessage {
@@ -100,6 +237,143 @@ interface ChatMessage {
 }
 
 type Taxonomy = Record<string, string[]>;
+type SubTaxonomy = Record<string, string[]>; // "Category ||| Sub-Theme" -> sub-sub-themes (third level)
+
+// NEW: A pre-registered coding scheme. Strict: papers must fit an entry or go to "Other".
+// Seeded: the model may propose new sections, which the reviewer approves into the codebook.
+type CodebookMode = 'strict' | 'seeded';
+
+interface CodebookEntry {
+  category: string;
+  theme: string;
+  definition: string;
+  examples: string[]; // Inclusion examples
+}
+
+interface Codebook {
+  mode: CodebookMode;
+  entries: CodebookEntry[];
+}
+
+interface CodebookProposal {
+  category: string;
+  theme: string;
+  paperIds: string[];
+}
+
+interface BulkSynthesisSection {
+  category: string;
+  theme?: string; // Absent for main-category syntheses
+  result: SynthesisResult;
+}
+
+// NEW: Progress of an extraction run, saved after every batch so an interrupted run can be resumed
+interface RunCheckpoint {
+  batches: RecordBatch[];
+  nextBatch: number; // Equal to batches.length once only the final taxonomy audit is left
+  batchCount: number;
+  coverage: CoverageReport | null;
+  skipAudit?: boolean; // Re-runs of missing papers skip the final taxonomy audit
+}
+
+interface SankeyOrder {
+  drivers: string[];
+  responses: string[];
+}
+
+// NEW: Workspace state autosaved to IndexedDB (the API key is never stored)
+interface SavedSession {
+  id: string; // Project id
+  savedAt: number;
+  reviewTopic: string;
+  selectedModel: string;
+  enableSpecies: boolean;
+  papers: Paper[];
+  batchCount: number;
+  lockedItems: string[];
+  rejectedSuggestions: string[];
+  isOptimized: boolean;
+  isTermsNormalized: boolean;
+  isDriverGrouped: boolean;
+  isResponseGrouped: boolean;
+  synthesis: { themeKey: string, result: SynthesisResult } | null;
+  bulkSynthesis: { type: 'sub' | 'main', results: BulkSynthesisSection[] } | null;
+  chatHistory: ChatMessage[];
+  runCheckpoint: RunCheckpoint | null;
+  sankeyOrder: SankeyOrder; // Custom driver/response order in the Flow diagram
+  distinctPairKeys: string[]; // Duplicate pairs marked as distinct
+  taxonomySnapshots: TaxonomySnapshot[];
+  reviewAuditFixes: boolean; // Post-extraction audit fixes go to the suggestion list instead of being applied
+  useThirdLevel: boolean; // Extraction may sort papers into sub-sub-themes
+  codebook: Codebook | null; // null: the taxonomy emerges from the papers
+  acceptedSuggestions: AcceptedSuggestion[]; // Log for flip-flop detection
+  consolidationRound: number; // Suggest Merges rounds run so far
+  customModels: ModelConfig[]; // Saved without their API keys
+}
+
+type SessionContent = Omit<SavedSession, 'id' | 'savedAt'>;
+
+// NEW: A named review project. The list lives in localStorage; each project's workspace is a SavedSession.
+interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+  paperCount: number;
+  reviewTopic: string;
+}
+
+interface ProjectIndex {
+  activeId: string;
+  projects: ProjectMeta[];
+}
+
+// NEW: Project file written by Export. See "Project file format" in the README for the field reference.
+// Version 1 (no formatVersion field) only held { papers, reviewTopic, isTermsNormalized }.
+interface ProjectFile extends SessionContent {
+  format: 'ecosynthesis-project';
+  formatVersion: number;
+  exportedAt: string; // ISO date
+  projectName: string;
+}
+
+// A field that was corrected (warning) or dropped (error) while importing a project file
+interface ProjectFileProblem {
+  field: string; // Path in the file, e.g. "papers[12].category"
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// NEW: Merging a teammate's project file into the open workspace
+type MergeField = 'category' | 'theme' | 'subSubTheme' | 'driver' | 'response' | 'effectDirection' | 'keyFinding';
+
+interface MergeConflict {
+  id: string; // "<localId>|<field>"
+  localId: string;
+  incomingId: string;
+  field: MergeField;
+  title: string;
+  local: string;
+  incoming: string;
+}
+
+interface ProjectMerge {
+  id: string; // One per merge attempt, so the modal starts with fresh choices
+  incoming: ProjectFileImport;
+  matched: { localId: string, incomingId: string, reason: string }[];
+  added: Paper[]; // Incoming papers with no counterpart in the workspace
+  filled: number; // Fields blank on one side, taken from the other without asking
+  conflicts: MergeConflict[];
+}
+
+interface ProjectFileImport {
+  fileName: string;
+  projectName: string;
+  sourceVersion: number;
+  content: SessionContent;
+  problems: ProjectFileProblem[];
+}
 
 interface AnalysisResult {
   papers: {
@@ -110,14 +384,16 @@ interface AnalysisResult {
     abstract_summary: string;
     main_category: string;
     sub_theme: string;
+    sub_sub_theme?: string; // Only requested when the third level is enabled
     driver_variable: string;
     response_variable: string;
-    effect_direction: string;
+    effect_direction: Paper['effectDirection'];
     study_location: string;
     study_species: string;
     key_finding: string;
     impact_keywords: string;
     short_citation: string;
+    source_id?: string; // Marker id of the input record this entry was extracted from
   }[];
 }
 
@@ -129,6 +405,18 @@ interface AuditFix {
   reason: string;
 }
 
+// NEW: AI placement of individual papers into existing sub-themes
+interface PaperPlacement {
+  paper_id: string;
+  main_category: string;
+  sub_theme: string;
+  reason: string;
+}
+
+interface PlacementResult {
+  placements: PaperPlacement[];
+}
+
 interface AuditResult {
   fixes: AuditFix[];
 }
@@ -158,8 +446,38 @@ interface ConsolidationSuggestion {
     target_category: string;
     reason: string;
   } | null;
+  suggested_audit_fix?: AuditFix | null; // From the post-extraction audit when fixes are reviewed instead of auto-applied
+  suggested_split?: ThemeSplit | null;
+  round?: number; // Suggest Merges round that produced it; audit fixes have none
+}
+
+// NEW: Flip-flop detection across Suggest Merges rounds. Sections are named by their lock keys.
+interface SectionEdge {
+  from: string; // "cat:Name" or "theme:Category|||Sub-Theme"
+  to: string;
+}
+
+interface AcceptedSuggestion {
+  signature: string;
+  round: number; // 0: post-extraction audit fix
+  edges: SectionEdge[];
+}
+
+interface FlipFlop {
+  kind: 'reversal' | 'cycle';
+  items: string[]; // Lock keys along the cycle
+  earlier: { signature: string, round: number }[]; // The accepted suggestions it undoes, oldest first
+}
+
+// NEW: Splits one overloaded sub-theme; listed papers that no group claims keep the old sub-theme
+interface ThemeSplit {
+  theme: string;
+  new_themes: { name: string, paper_ids: string[] }[];
+  reason: string;
 }
 
+type SplitCandidates = Record<string, { id: string, title: string }[]>; // "Category: Sub-Theme" -> its papers
+
 interface ConsolidationResult {
   status: "suggestions_made" | "no_changes";
   suggestions: {
@@ -185,6 +503,7 @@ interface ConsolidationResult {
       target_category: string;
       reason: string;
     } | null;
+    suggested_split?: ThemeSplit | null;
   }[];
 }
 
@@ -202,6 +521,45 @@ interface OptimizationResult {
   }[];
 }
 
+// NEW: Pre-flight estimate for a multi-request run (extraction or bulk synthesis)
+interface RunEstimate {
+  title: string;
+  modelName: string;
+  calls: { label: string, inputTokens: number, outputTokens: number }[];
+  inputTokens: number;
+  outputTokens: number;
+  usedToday: number;
+  dailyLimit?: number;
+  estimatedCost?: number; // USD at paid-tier prices; undefined when the model has no price
+  fitsDailyLimit: boolean;
+}
+
+// NEW: Outcome of checking one AI response against its expected type
+interface ValidationIssue {
+  item: string;   // Human-readable reference, e.g. a paper title or "Entry 4"
+  reason: string;
+}
+
+interface ValidationReport {
+  id: string;
+  label: string;  // e.g. "Batch 3", "Taxonomy audit"
+  accepted: number;
+  coerced: ValidationIssue[];
+  rejected: ValidationIssue[];
+}
+
+// Subset of the OpenAPI schema accepted by Gemini's `generationConfig.responseSchema`
+interface ResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+  properties?: Record<string, ResponseSchema>;
+  propertyOrdering?: string[];
+  required?: string[];
+  items?: ResponseSchema;
+  enum?: string[];
+  format?: string;
+  nullable?: boolean;
+}
+
 interface SynthesisModalProps { 
   isOpen: boolean; 
   onClose: () => void; 
@@ -209,12 +567,75 @@ interface SynthesisModalProps {
   isSynthesizing: boolean; 
   retryStatus: string; 
   result: SynthesisResult | null; 
+  onRegenerate: () => void; // Re-runs the synthesis, bypassing the response cache
 }
 
 interface DragItem {
-  type: 'cat' | 'theme';
+  type: 'cat' | 'theme' | 'sub' | 'paper';
+  name: string;
+  parentCat?: string; // Only for themes and sub-sub-themes
+  parentTheme?: string; // Only for sub-sub-themes
+  paperIds?: string[]; // Only for papers: the dragged paper, or the whole selection it belongs to
+}
+
+// NEW: Undo/redo of taxonomy and metadata edits
+interface WorkspaceEditState {
+  papers: Paper[];
+  lockedItems: string[];
+  suggestions: ConsolidationSuggestion[] | null; // Undoing an accepted suggestion puts it back in the list
+  acceptedSuggestions: AcceptedSuggestion[]; // ...and takes it out of the flip-flop log
+  isTermsNormalized: boolean; // Undoing term normalization re-enables the Group Terms button
+  codebook: Codebook | null; // Undoing an approved proposal takes it out of the codebook
+}
+
+interface EditHistoryEntry {
+  id: number;
+  label: string;
+  at: number;
+  summary: string;
+  before: WorkspaceEditState;
+  after: WorkspaceEditState;
+}
+
+// NEW: Named snapshots of the category/sub-theme structure and which papers sit where
+interface TaxonomySnapshotPaper {
+  id: string;
+  title: string;
+  category: string;
+  theme: string;
+  subSubTheme?: string;
+}
+
+interface TaxonomySnapshot {
+  id: string;
   name: string;
-  parentCat?: string; // Only for themes
+  createdAt: number;
+  papers: TaxonomySnapshotPaper[];
+}
+
+interface TaxonomyDiff {
+  renamedCategories: { from: string, to: string }[];
+  addedCategories: string[];
+  removedCategories: string[];
+  renamedSections: { from: string, to: string }[]; // "Category › Sub-theme"; also covers sub-themes moved as a whole
+  addedSections: string[];
+  removedSections: string[];
+  moves: { from: string, to: string, titles: string[] }[]; // Papers that changed section, grouped by route
+  addedPapers: string[];
+  removedPapers: string[];
+}
+
+// NEW: Outcome of accepting several suggestions at once
+interface SuggestionSetResult {
+  papers: Paper[];
+  pending: ConsolidationSuggestion[] | null; // The list without the applied suggestions
+  applied: ConsolidationSuggestion[];
+  skipped: { suggestion: ConsolidationSuggestion, reason: string }[]; // Made stale by an earlier one in the set
+}
+
+interface EditHistory {
+  undo: EditHistoryEntry[]; // Oldest first
+  redo: EditHistoryEntry[]; // Most recently undone last
 }
 
 // --- Helper Functions ---
@@ -232,6 +653,14 @@ function getSuggestionSignature(s: ConsolidationSuggestion): string {
   if (s.suggested_category_merge) {
     return `CAT_MERGE: '${s.suggested_category_merge.source_category}' into '${s.suggested_category_merge.target_category}'`;
   }
+  if (s.suggested_audit_fix) {
+    const f = s.suggested_audit_fix;
+    return `AUDIT: '${f.original_category} / ${f.original_theme}' to '${f.new_category} / ${f.new_theme}'`;
+  }
+  if (s.suggested_split) {
+    // One signature per sub-theme, so a rejected split is not proposed again under different new names
+    return `SPLIT: '${s.main_category} / ${s.suggested_split.theme}'`;
+  }
   return "";
 }
 
@@ -255,796 +684,4066 @@ function cleanRawText(text: string): string {
     .replace(/\r\n/g, "\n");
 }
 
-function createBatches(text: string, maxChunkSize: number): string[] {
-  const batches: string[] = [];
-  let remaining = text;
-  while (remaining.length > 0) {
-    if (remaining.length <= maxChunkSize) {
-      batches.push(remaining);
-      break;
-    }
-    
-    // 1. Try to split at Double Newline (Paragraph break) to avoid cutting Citation-Abstract pairs
-    let cutIndex = remaining.lastIndexOf('\n\n', maxChunkSize);
-    
-    // 2. If no double newline, try standard newline
-    if (cutIndex === -1) {
-        cutIndex = remaining.lastIndexOf('\n', maxChunkSize);
+// NEW: Third taxonomy level. Papers without a sub-sub-theme sit directly in their sub-theme.
+function buildSubTaxonomy(papers: Paper[]): SubTaxonomy {
+  const subTaxonomy: SubTaxonomy = {};
+  papers.forEach(p => {
+    if (!p.subSubTheme) return;
+    const key = `${p.category} ||| ${p.theme}`;
+    if (!subTaxonomy[key]) subTaxonomy[key] = [];
+    if (!subTaxonomy[key].includes(p.subSubTheme)) subTaxonomy[key].push(p.subSubTheme);
+  });
+  return subTaxonomy;
+}
+
+// --- Bibliographic Import (RIS / BibTeX / WoS / Scopus) ---
+
+const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  ris: 'RIS',
+  bibtex: 'BibTeX',
+  wos: 'Web of Science (Tab-delimited)',
+  scopus: 'Scopus CSV'
+};
+
+const extractYear = (value: string): string => (value.match(/\d{4}/) || [''])[0];
+
+function parseRIS(text: string): SourceRecord[] {
+  const records: SourceRecord[] = [];
+  let fields: Record<string, string[]> = {};
+  let lastTag = '';
+
+  const flush = () => {
+    if (Object.keys(fields).length === 0) return;
+    const first = (...tags: string[]) => tags.map(t => fields[t]?.[0]).find(v => v) || '';
+    records.push({
+      id: `R${records.length + 1}`,
+      title: first('TI', 'T1', 'CT'),
+      authors: [...(fields['AU'] || []), ...(fields['A1'] || [])],
+      year: extractYear(first('PY', 'Y1', 'DA')),
+      journal: first('T2', 'JO', 'JF', 'JA', 'J2'),
+      abstract: first('AB', 'N2'),
+      doi: first('DO') || undefined
+    });
+    fields = {};
+    lastTag = '';
+  };
+
+  text.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+    const match = line.match(/^([A-Z][A-Z0-9]) {2}-( (.*))?$/);
+    if (match) {
+      const [, tag, , value = ''] = match;
+      if (tag === 'ER') { flush(); return; }
+      if (tag === 'TY') flush();
+      if (!fields[tag]) fields[tag] = [];
+      fields[tag].push(value.trim());
+      lastTag = tag;
+    } else if (lastTag && line.trim()) {
+      // Continuation line of a wrapped field (common in long abstracts)
+      const values = fields[lastTag];
+      values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`.trim();
     }
-    
-    // 3. Last resort: Hard cut (very rare)
-    if (cutIndex === -1) cutIndex = maxChunkSize;
+  });
+  flush();
+  return records.filter(r => r.title);
+}
 
-    batches.push(remaining.slice(0, cutIndex));
-    remaining = remaining.slice(cutIndex).trim();
-  }
-  return batches;
+function cleanBibValue(value: string): string {
+  const accents: Record<string, string> = { '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', 'c': '\u0327' };
+  return value
+    .replace(/\{?\\(["'`^~]|c(?=[\s{]))\s*\{?([a-zA-Z])\}?\}?/g, (_m, accent: string, letter: string) => letter + accents[accent])
+    .replace(/\\&/g, '&')
+    .replace(/\\%/g, '%')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
 }
 
-function safeJsonParse<T>(jsonString: string): { data: T, wasTruncated: boolean } {
-  let clean = jsonString.replace(/```json/g, '').replace(/```/g, '').trim();
-  let wasTruncated = false;
-  
-  try {
-    return { data: JSON.parse(clean), wasTruncated: false };
-  } catch (e) {
-    console.warn("JSON Parse failed, attempting repair...", e);
-    clean = clean.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
-    if (!clean.endsWith('}')) {
-        wasTruncated = true;
-        const openBraces = (clean.match(/{/g) || []).length;
-        const closeBraces = (clean.match(/}/g) || []).length;
-        const openSquares = (clean.match(/\[/g) || []).length;
-        const closeSquares = (clean.match(/\]/g) || []).length;
-        if (openBraces > closeBraces) clean += '}'.repeat(openBraces - closeBraces);
-        if (openSquares > closeSquares) clean += ']'.repeat(openSquares - closeSquares);
-        if (clean.startsWith('{') && !clean.endsWith('}')) clean += '}';
+function parseBibTeX(text: string): SourceRecord[] {
+  const records: SourceRecord[] = [];
+  let pos = 0;
+
+  // Reads a {balanced} or "quoted" value starting at pos
+  const readValue = (): string => {
+    const open = text[pos];
+    if (open === '{') {
+      let depth = 0; const start = pos + 1;
+      for (; pos < text.length; pos++) {
+        if (text[pos] === '{') depth++;
+        else if (text[pos] === '}' && --depth === 0) break;
+      }
+      return text.slice(start, pos++);
     }
-    try {
-      return { data: JSON.parse(clean), wasTruncated };
-    } catch (e2) {
-      console.error("Fatal JSON Parse Error. Raw string:", jsonString);
-      throw new Error("AI returned malformed data (likely truncated).");
+    if (open === '"') {
+      const start = ++pos;
+      while (pos < text.length && !(text[pos] === '"' && text[pos - 1] !== '\\')) pos++;
+      return text.slice(start, pos++);
     }
-  }
-}
+    const start = pos;
+    while (pos < text.length && !/[,}\s]/.test(text[pos])) pos++;
+    return text.slice(start, pos);
+  };
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  while ((pos = text.indexOf('@', pos)) !== -1) {
+    const typeMatch = text.slice(pos).match(/^@(\w+)\s*\{/);
+    if (!typeMatch) { pos++; continue; }
+    pos += typeMatch[0].length;
+    if (['comment', 'string', 'preamble'].includes(typeMatch[1].toLowerCase())) continue;
+
+    // Skip the citation key
+    const keyEnd = text.indexOf(',', pos);
+    if (keyEnd === -1) break;
+    pos = keyEnd + 1;
+
+    const fields: Record<string, string> = {};
+    while (pos < text.length) {
+      const fieldMatch = text.slice(pos).match(/^\s*([\w-]+)\s*=\s*/);
+      if (!fieldMatch) break;
+      pos += fieldMatch[0].length;
+      fields[fieldMatch[1].toLowerCase()] = cleanBibValue(readValue());
+      const rest = text.slice(pos).match(/^\s*,?/);
+      pos += rest ? rest[0].length : 0;
+    }
 
-const trackEvent = (action: string, params = {}) => {
-  if (typeof window !== 'undefined' && (window as any).gtag) {
-    (window as any).gtag('event', action, params);
+    if (fields.title) {
+      records.push({
+        id: `R${records.length + 1}`,
+        title: fields.title,
+        authors: fields.author ? fields.author.split(/\s+and\s+/).map(a => a.trim()).filter(Boolean) : [],
+        year: extractYear(fields.year || fields.date || ''),
+        journal: fields.journal || fields.journaltitle || fields.booktitle || '',
+        abstract: fields.abstract || '',
+        doi: fields.doi || undefined
+      });
+    }
   }
-};
+  return records;
+}
 
-class QuotaExceededError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "QuotaExceededError";
+// Quote-aware CSV parser (handles embedded commas, quotes and newlines in abstracts)
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') inQuotes = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n') { row.push(field); rows.push(row); row = []; field = ''; }
+    else if (char !== '\r') field += char;
   }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
 }
 
-class RetryableError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "RetryableError";
-  }
+// Maps a header row + data rows onto SourceRecords. Each field lists candidate column names in priority order.
+function recordsFromTable(
+  rows: string[][],
+  columns: Record<'title' | 'authors' | 'year' | 'journal' | 'abstract' | 'doi', string[]>,
+  splitAuthors: (value: string) => string[]
+): SourceRecord[] {
+  if (rows.length < 2) return [];
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const indexOf = (names: string[]) => names.map(n => header.indexOf(n.toLowerCase())).find(i => i !== -1) ?? -1;
+  const idx = {
+    title: indexOf(columns.title),
+    authors: indexOf(columns.authors),
+    year: indexOf(columns.year),
+    journal: indexOf(columns.journal),
+    abstract: indexOf(columns.abstract),
+    doi: indexOf(columns.doi)
+  };
+  if (idx.title === -1) return [];
+
+  const cell = (row: string[], i: number) => (i === -1 ? '' : (row[i] || '').trim());
+  const records: SourceRecord[] = [];
+  rows.slice(1).forEach(row => {
+    const title = cell(row, idx.title);
+    if (!title) return;
+    const abstract = cell(row, idx.abstract);
+    records.push({
+      id: `R${records.length + 1}`,
+      title,
+      authors: splitAuthors(cell(row, idx.authors)),
+      year: extractYear(cell(row, idx.year)),
+      journal: cell(row, idx.journal),
+      abstract: /^\[No abstract available\]$/i.test(abstract) ? '' : abstract,
+      doi: cell(row, idx.doi) || undefined
+    });
+  });
+  return records;
 }
 
-class ApiKeyError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ApiKeyError";
+function parseWoSTabDelimited(text: string): SourceRecord[] {
+  const rows = text.split('\n').map(line => line.replace(/\r$/, '').split('\t')).filter(r => r.some(cell => cell.trim()));
+  return recordsFromTable(
+    rows,
+    { title: ['TI'], authors: ['AU', 'AF'], year: ['PY'], journal: ['SO'], abstract: ['AB'], doi: ['DI'] },
+    value => value.split(';').map(a => a.trim()).filter(Boolean)
+  );
+}
+
+function parseScopusCSV(text: string): SourceRecord[] {
+  return recordsFromTable(
+    parseCSVRows(text),
+    { title: ['Title'], authors: ['Authors', 'Author full names'], year: ['Year'], journal: ['Source title'], abstract: ['Abstract'], doi: ['DOI'] },
+    // Newer exports separate authors with ";", older ones with "," ("Smith J., Doe K.")
+    value => value.split(value.includes(';') ? ';' : ',').map(a => a.trim()).filter(a => a && !/^\[No author name available\]$/i.test(a))
+  );
+}
+
+function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const firstLine = text.trimStart().split('\n')[0];
+  if (ext === 'ris') return 'ris';
+  if (ext === 'bib') return 'bibtex';
+  if (/^PT\t/.test(firstLine)) return 'wos';
+  if (/(^|,)"?Title"?(,|$)/.test(firstLine) && /(^|,)"?Authors"?(,|$)/.test(firstLine)) return 'scopus';
+  if (/^TY {2}- /m.test(text)) return 'ris';
+  if (/^\s*@\w+\s*\{/m.test(text)) return 'bibtex';
+  return null;
+}
+
+function parseImportFile(format: ImportFormat, text: string): SourceRecord[] {
+  switch (format) {
+    case 'ris': return parseRIS(text);
+    case 'bibtex': return parseBibTeX(text);
+    case 'wos': return parseWoSTabDelimited(text.trimStart());
+    case 'scopus': return parseScopusCSV(text.trimStart());
   }
 }
 
-// --- API Logic Functions ---
+function formatShortCitation(record: SourceRecord): string {
+  // "Smith, John" -> "Smith"; "Smith J.K." / "Smith JK" -> "Smith"; "John Smith" / "John SMITH" -> "Smith" / "SMITH"
+  const surname = (author: string) => {
+    if (author.includes(',')) return author.split(',')[0].trim();
+    const parts = author.trim().split(/\s+/);
+    const last = parts[parts.length - 1];
+    // Undotted capitals only count as initials when short, so an all-caps surname is not mistaken for them
+    const isInitials = /^([A-Z]\.-?)+[A-Z]?$/.test(last) || /^[A-Z]{1,2}$/.test(last);
+    return parts.length > 1 && isInitials ? parts[0] : last;
+  };
+  const year = record.year || 'n.d.';
+  if (record.authors.length === 0) return `${record.title.split(/\s+/).slice(0, 3).join(' ')}... ${year}`;
+  if (record.authors.length === 1) return `${surname(record.authors[0])} ${year}`;
+  if (record.authors.length === 2) return `${surname(record.authors[0])} & ${surname(record.authors[1])} ${year}`;
+  return `${surname(record.authors[0])} et al. ${year}`;
+}
 
-async function fetchAI(
-  modelId: string, 
-  apiKey: string, 
-  systemPrompt: string, 
-  userPrompt: string,
-  responseSchema: any = null // keeping signature compatibility
-): Promise<any> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${apiKey}`;
-  const isGemma = modelId.toLowerCase().includes('gemma');
+function withSourceMetadata(paper: Paper, source?: SourceRecord): Paper {
+  if (!source) return paper;
+  return {
+    ...paper,
+    title: source.title,
+    authors: source.authors.join('; '),
+    year: source.year,
+    journal: source.journal,
+    shortCitation: formatShortCitation(source),
+    doi: source.doi
+  };
+}
+
+// --- Record Segmentation & Batching ---
 
-  let body: any = {
-    contents: [],
-    generationConfig: {
-      responseMimeType: (responseSchema && !isGemma) ? "application/json" : "text/plain"
+// Rough heuristic (~4 characters per token for English prose)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+function looksLikeCitationLine(line: string): boolean {
+  if (line.length > 400) return false;
+  const numbered = /^\s*\d{1,4}[.)]\s+\S/.test(line);
+  const hasYear = /\(\s*(1[89]|20)\d{2}[a-z]?\s*\)/.test(line) || /[.,]\s*(1[89]|20)\d{2}[a-z]?[.,;]/.test(line);
+  return numbered || hasYear;
+}
+
+// Splits pasted text into one chunk per paper. Blank lines normally separate papers, but a paragraph
+// that does not start with a citation line is treated as a continuation of the previous paper's abstract.
+function segmentPastedText(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  if (paragraphs.length <= 1) return paragraphs;
+
+  // If no paragraph looks like a citation, the heuristic cannot help: fall back to blank-line splitting
+  if (!paragraphs.slice(1).some(p => looksLikeCitationLine(p.split('\n')[0]))) return paragraphs;
+
+  const segments: string[] = [];
+  paragraphs.forEach(paragraph => {
+    if (segments.length === 0 || looksLikeCitationLine(paragraph.split('\n')[0])) {
+      segments.push(paragraph);
+    } else {
+      segments[segments.length - 1] += `\n${paragraph}`;
     }
-  };
+  });
+  return segments;
+}
 
-  if (isGemma) {
-    const combinedPrompt = `*** SYSTEM INSTRUCTIONS ***\n${systemPrompt}\n\n*** USER TASK ***\n${userPrompt}`;
-    body.contents.push({ role: 'user', parts: [{ text: combinedPrompt }] });
-  } else {
-    body.systemInstruction = { parts: [{ text: systemPrompt }] };
-    body.contents.push({ parts: [{ text: userPrompt }] });
+function buildInputRecords(pastedText: string, importedRecords: SourceRecord[] | null): InputRecord[] {
+  if (importedRecords) {
+    return importedRecords.map(r => ({ id: r.id, text: serializeRecord(r), label: r.title, source: r }));
   }
+  return segmentPastedText(cleanRawText(pastedText)).map((segment, idx) => {
+    const id = `R${idx + 1}`;
+    const firstLine = segment.split('\n')[0];
+    return { id, text: `[[${id}]]\n${segment}`, label: firstLine.length > 160 ? `${firstLine.slice(0, 160)}...` : firstLine };
+  });
+}
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
+// Packs whole records into batches without ever splitting a record. A single record larger than
+// the budget gets a batch of its own.
+function packRecordBatches(records: InputRecord[], tokenBudget: number): RecordBatch[] {
+  const batches: RecordBatch[] = [];
+  let current: RecordBatch = { records: [], estimatedTokens: 0 };
+  records.forEach(record => {
+    const tokens = estimateTokens(record.text);
+    if (current.records.length > 0 && current.estimatedTokens + tokens > tokenBudget) {
+      batches.push(current);
+      current = { records: [], estimatedTokens: 0 };
+    }
+    current.records.push(record);
+    current.estimatedTokens += tokens;
   });
+  if (current.records.length > 0) batches.push(current);
+  return batches;
+}
 
-  if (!response.ok) {
-    const status = response.status;
-    let errMessage = `API Error: ${status}`;
-    try {
-      const errData = await response.json();
-      errMessage = errData.error?.message || errMessage;
-    } catch {}
+const batchText = (batch: RecordBatch): string => batch.records.map(r => r.text).join('\n\n');
+
+// Rough token costs of the fixed parts of each request, measured from the prompts in the API functions
+const EXTRACTION_PROMPT_TOKENS = 1100;
+const OUTPUT_TOKENS_PER_PAPER = 350; // One JSON entry; papers with several findings produce more
+const AUDIT_PROMPT_TOKENS = 600;
+const SYNTHESIS_PROMPT_TOKENS = 700;
+const SYNTHESIS_OUTPUT_TOKENS = 800;
+
+function buildRunEstimate(title: string, calls: RunEstimate['calls'], model: ModelConfig, usedToday: number): RunEstimate {
+  const inputTokens = calls.reduce((sum, c) => sum + c.inputTokens, 0);
+  const outputTokens = calls.reduce((sum, c) => sum + c.outputTokens, 0);
+  const { inputPricePerMillion, outputPricePerMillion } = model;
+  return {
+    title,
+    modelName: model.name,
+    calls,
+    inputTokens,
+    outputTokens,
+    usedToday,
+    dailyLimit: model.rpd,
+    estimatedCost: inputPricePerMillion !== undefined && outputPricePerMillion !== undefined
+      ? (inputTokens * inputPricePerMillion + outputTokens * outputPricePerMillion) / 1e6
+      : undefined,
+    fitsDailyLimit: !model.rpd || usedToday + calls.length <= model.rpd
+  };
+}
 
-    if (status === 400 || status === 403) throw new ApiKeyError("Invalid API Key or Permission Denied.");
-    if (status === 503) throw new RetryableError("Model Overloaded (503)");
-    
-    if (status === 429) {
-      const msg = errMessage.toLowerCase();
-      if (msg.includes('quota') || msg.includes('exhausted')) {
-         throw new QuotaExceededError("Daily Quota Exceeded."); 
-      } else {
-         throw new RetryableError("Rate Limit Hit (RPM)");
+function estimateExtractionRun(batches: RecordBatch[], model: ModelConfig, usedToday: number): RunEstimate {
+  const recordCount = batches.reduce((sum, b) => sum + b.records.length, 0);
+  const calls = batches.map((b, i) => ({
+    label: `Batch ${i + 1} (${b.records.length} papers)`,
+    inputTokens: EXTRACTION_PROMPT_TOKENS + b.estimatedTokens,
+    outputTokens: b.records.length * OUTPUT_TOKENS_PER_PAPER
+  }));
+  // The final audit sends one "Category ||| Sub-Theme" line (~15 tokens) per pair; assume one pair per 5 papers
+  calls.push({ label: 'Taxonomy audit', inputTokens: AUDIT_PROMPT_TOKENS + Math.ceil(recordCount / 5) * 15, outputTokens: 500 });
+  return buildRunEstimate('Extraction', calls, model, usedToday);
+}
+
+function estimateSynthesisRun(title: string, sections: { label: string, papers: Paper[] }[], model: ModelConfig, usedToday: number): RunEstimate {
+  const calls = sections.map(section => ({
+    label: `${section.label} (${section.papers.length} papers)`,
+    inputTokens: SYNTHESIS_PROMPT_TOKENS + section.papers.reduce((sum, p) => sum + estimateTokens(`${p.keyFinding} ${p.impactKeywords} ${p.shortCitation}`) + 12, 0),
+    outputTokens: SYNTHESIS_OUTPUT_TOKENS
+  }));
+  return buildRunEstimate(title, calls, model, usedToday);
+}
+
+// --- Duplicate Detection ---
+
+const normalizeDoi = (doi?: string): string =>
+  (doi || '').toLowerCase().replace(/^https?:\/\/(dx\.)?doi\.org\//, '').replace(/^doi:\s*/, '').trim();
+
+const isBlankField = (value?: string): boolean => !value || !value.trim() || ['unspecified', 'unclear', 'n/a', 'unknown'].includes(value.trim().toLowerCase());
+
+const pairKey = (aId: string, bId: string): string => [aId, bId].sort().join('|');
+
+function firstAuthorSurname(authors: string): string {
+  const first = (authors || '').split(/;|\band\b|&/)[0].trim();
+  const name = first.includes(',') ? first.split(',')[0] : first.split(/\s+/)[0];
+  return normalizeTitle(name || '');
+}
+
+// Same paper? DOI is decisive when both entries have one; otherwise title, then first author + year + similar title.
+function samePaperReason(a: Paper, b: Paper): string | null {
+  const doiA = normalizeDoi(a.doi); const doiB = normalizeDoi(b.doi);
+  if (doiA && doiB) return doiA === doiB ? 'Same DOI' : null;
+  const titleA = normalizeTitle(a.title); const titleB = normalizeTitle(b.title);
+  if (titleA && titleA === titleB) return 'Same title';
+  const surnameA = firstAuthorSurname(a.authors);
+  if (surnameA && surnameA === firstAuthorSurname(b.authors) && a.year && a.year === b.year
+      && Math.min(titleOverlap(a.title, b.title), titleOverlap(b.title, a.title)) >= 0.8) {
+    return 'Same first author, year and similar title';
+  }
+  return null;
+}
+
+function findingSimilarity(a: Paper, b: Paper): number {
+  if (normalizeTitle(a.driver) === normalizeTitle(b.driver) && normalizeTitle(a.response) === normalizeTitle(b.response)) return 1;
+  return titleOverlap(a.keyFinding || '', b.keyFinding || '');
+}
+
+// A paper with several findings legitimately has several entries from the same batch, so entries are only
+// paired across batches (or when they record the identical finding), one-to-one by finding similarity.
+function findDuplicatePairs(papers: Paper[], distinctPairKeys: string[]): DuplicatePair[] {
+  const distinct = new Set(distinctPairKeys);
+  const buckets = new Map<string, Paper[]>();
+  const addToBucket = (key: string, p: Paper) => { if (!buckets.has(key)) buckets.set(key, []); buckets.get(key)!.push(p); };
+  papers.forEach(p => {
+    const doi = normalizeDoi(p.doi);
+    if (doi) addToBucket(`doi:${doi}`, p);
+    const title = normalizeTitle(p.title);
+    if (title) addToBucket(`title:${title}`, p);
+    const surname = firstAuthorSurname(p.authors);
+    if (surname && p.year) addToBucket(`ay:${surname}|${p.year}`, p);
+  });
+
+  const candidates: (DuplicatePair & { score: number })[] = [];
+  const seen = new Set<string>();
+  buckets.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = group[i]; const b = group[j];
+        const key = pairKey(a.id, b.id);
+        if (seen.has(key) || distinct.has(key)) continue;
+        seen.add(key);
+        const reason = samePaperReason(a, b);
+        if (!reason) continue;
+        const score = findingSimilarity(a, b);
+        if (a.batchId === b.batchId && score < 1) continue;
+        candidates.push({ key, aId: a.id, bId: b.id, reason, score });
       }
     }
-    throw new Error(errMessage);
-  }
+  });
 
-  const data = await response.json();
-  return data;
+  const used = new Set<string>();
+  return candidates
+    .sort((x, y) => y.score - x.score)
+    .filter(c => {
+      if (used.has(c.aId) || used.has(c.bId)) return false;
+      used.add(c.aId); used.add(c.bId);
+      return true;
+    })
+    .map(({ key, aId, bId, reason }) => ({ key, aId, bId, reason }));
 }
 
-// NEW: Helper to verify move suggestion with more papers
-async function verifyMoveWithGemini(
-    theme: string,
-    currentCat: string,
-    targetCat: string,
-    titles: string[],
-    key: string,
-    modelId: string,
-    onStatusUpdate: (msg: string) => void
-): Promise<{ isValid: boolean, reason: string }> {
-    const systemPrompt = `
-      You are a strict data auditor.
-      TASK: Verify if the sub-theme "${theme}" (currently in "${currentCat}") truly belongs in "${targetCat}".
-      
-      EVIDENCE: Here are paper titles from this sub-theme:
-      ${titles.map(t => `- ${t}`).join('\n')}
-      
-      INSTRUCTIONS:
-      - If the papers generally fit the definition of "${targetCat}" better than "${currentCat}", return isValid: true.
-      - If the papers are mixed or actually fit "${currentCat}" fine, return isValid: false.
-      - Provide a concise reason citing specific patterns in the titles.
-      
-      OUTPUT JSON: { "isValid": boolean, "reason": "..." }
-    `;
-    
-    onStatusUpdate("Verifying with expanded paper list...");
-    const data = await fetchAI(modelId, key, systemPrompt, "Verify this move.", true);
-    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    const parsed = safeJsonParse<{ isValid: boolean, reason: string }>(textResponse);
-    return parsed.data;
+// Keeps the more completely extracted entry and fills its blank fields from the other one
+function mergePaperEntries(a: Paper, b: Paper): Paper {
+  const fields: (keyof Paper)[] = ['title', 'authors', 'year', 'journal', 'shortCitation', 'doi', 'driver', 'driverGroup', 'response', 'responseGroup', 'location', 'species', 'impactKeywords'];
+  const completeness = (p: Paper) => fields.filter(f => !isBlankField(p[f] as string)).length + (p.effectDirection !== 'Unclear' ? 1 : 0);
+  const [primary, other] = completeness(b) > completeness(a) ? [b, a] : [a, b];
+  const merged: Paper = { ...primary };
+  const fill = <K extends keyof Paper>(f: K) => {
+    if (isBlankField(merged[f] as string) && !isBlankField(other[f] as string)) merged[f] = other[f];
+  };
+  fields.forEach(fill);
+  if (merged.effectDirection === 'Unclear') merged.effectDirection = other.effectDirection;
+  if ((other.keyFinding || '').length > (merged.keyFinding || '').length) merged.keyFinding = other.keyFinding;
+  if ((other.abstractSnippet || '').length > (merged.abstractSnippet || '').length) merged.abstractSnippet = other.abstractSnippet;
+  return merged;
 }
 
-// NEW: Helper to generate reverse suggestion
-async function reverseSuggestionWithGemini(
-    sourceCat: string,
-    targetCat: string,
-    key: string,
-    modelId: string,
-    onStatusUpdate: (msg: string) => void
-): Promise<{ reason: string }> {
-    const systemPrompt = `
-      You are an expert taxonomist.
-      CONTEXT: It was suggested to merge "${sourceCat}" INTO "${targetCat}".
-      TASK: Generate a rationale for the INVERSE: merging "${targetCat}" INTO "${sourceCat}" instead.
-      
-      Assume the user wants to flip the hierarchy/direction. Provide a logical reason why "${targetCat}" might be better placed as a subsection of "${sourceCat}", or why "${sourceCat}" is the better parent category.
-      
-      OUTPUT JSON: { "reason": "..." }
-    `;
+function applyDuplicateMerge(papers: Paper[], pair: DuplicatePair): Paper[] {
+  const a = papers.find(p => p.id === pair.aId);
+  const b = papers.find(p => p.id === pair.bId);
+  if (!a || !b) return papers;
+  const merged = mergePaperEntries(a, b);
+  const removedId = merged.id === a.id ? b.id : a.id;
+  return papers.filter(p => p.id !== removedId).map(p => p.id === merged.id ? merged : p);
+}
 
-    onStatusUpdate("Analyzing reverse logic...");
-    const data = await fetchAI(modelId, key, systemPrompt, "Generate inverse rationale.", true);
-    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    const parsed = safeJsonParse<{ reason: string }>(textResponse);
-    return parsed.data;
+// --- Edit History ---
+// Every edit keeps the workspace before and after it. Papers are replaced rather than mutated, so snapshots share objects.
+
+const EDIT_HISTORY_LIMIT = 100;
+const EMPTY_EDIT_HISTORY: EditHistory = { undo: [], redo: [] };
+const HISTORY_METADATA_FIELDS: (keyof Paper)[] = ['driver', 'driverGroup', 'response', 'responseGroup', 'effectDirection', 'location', 'species', 'keyFinding'];
+
+function describePaperChanges(before: Paper[], after: Paper[]): string {
+  const previous = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+  let added = 0, moved = 0, retagged = 0;
+  after.forEach(p => {
+    const old = previous.get(p.id);
+    if (!old) { added++; return; }
+    if (old.category !== p.category || old.theme !== p.theme || old.subSubTheme !== p.subSubTheme) moved++;
+    if (HISTORY_METADATA_FIELDS.some(f => old[f] !== p[f])) retagged++;
+  });
+  const removed = before.filter(p => !afterIds.has(p.id)).length;
+  const sections = (papers: Paper[]) => new Set(papers.map(p => `${p.category}|||${p.theme}`));
+  const oldSections = sections(before); const newSections = sections(after);
+  const sectionsGone = Array.from(oldSections).filter(k => !newSections.has(k)).length;
+  const sectionsNew = Array.from(newSections).filter(k => !oldSections.has(k)).length;
+
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  const parts = [
+    moved > 0 && `${count(moved, 'paper')} re-sectioned`,
+    retagged > 0 && `${count(retagged, 'paper')} with changed metadata`,
+    added > 0 && `${count(added, 'paper')} added`,
+    removed > 0 && `${count(removed, 'paper')} removed`,
+    (sectionsGone > 0 || sectionsNew > 0) && `sub-themes −${sectionsGone}/+${sectionsNew}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'No paper changes';
 }
 
-async function analyzeWithGemini(
-  textBatch: string,
-  currentTaxonomy: Taxonomy,
-  key: string,
-  topic: string,
-  modelId: string,
-  enableSpecies: boolean,
-  onStatusUpdate: (msg: string) => void
-): Promise<{ result: AnalysisResult, truncated: boolean }> {
-  const effectiveTopic = topic.trim() || "General Academic Research";
-  const taxonomyHint = JSON.stringify(currentTaxonomy);
+function pushEditHistory(history: EditHistory, label: string, before: WorkspaceEditState, after: WorkspaceEditState): EditHistory {
+  const entry: EditHistoryEntry = { id: Date.now() + Math.random(), label, at: Date.now(), summary: describePaperChanges(before.papers, after.papers), before, after };
+  return { undo: [...history.undo, entry].slice(-EDIT_HISTORY_LIMIT), redo: [] };
+}
 
-  const systemPrompt = `
-    You are an expert systematic review data extractor. Process the batch of raw text (Title, Abstract, Authors, Year, Journal) for a review on "${effectiveTopic}".
+// --- Taxonomy Snapshots ---
+// A group that disappeared counts as renamed when most of its papers landed together in a group that did not exist before.
 
-    INSTRUCTIONS:
-    1. Extract metadata (title, authors, year, journal).
-       - **CRITICAL: SEPARATE CITATION FROM TITLE.**
-       - **NUMBERED LISTS:** If text starts with "1.", "25.", etc., ignore the number.
-       - **VERBOSE AUTHORS:** Handle long author lists (e.g. "Smith and Jones and Doe"). The Title usually starts *after* the year (e.g. "(2022). Title...").
-       - **CLEAN TITLES:** If a title appears with a translation (e.g. "English Title [Spanish Title]" or "Title [Translation]"), **ONLY extract the English title**. Discard the translated version and any brackets.
-    2. Condense Abstract into 'abstract_summary'.
-    3. Determine 'main_category' (high-level domain) and 'sub_theme' (specific research topic).
-       - **Specific Domains:** Use specific, descriptive domains like "Biogeography", "Ecophysiology", "Community Dynamics", "Urban Ecology".
-       - **Avoid Broad Fields:** Do NOT use generic terms like "Ecology", "Biology", or "Environmental Science" as Main Categories. They are too broad to be useful.
-       - **Atomic Sub-Themes:** Avoid compound names like 'Temperature and Predation' unless the study explicitly tests the *interaction* between them. If a study is just about Temperature, put it in 'Temperature'.
-    4. **EXTRACT VARIABLES (Standardize Terms):**
-       - 'driver_variable': The primary Independent Variable/Stressor. Use standard terms (e.g., use "Precipitation" NOT "Rainfall"). Keep it simple (1-2 words).
-       - 'response_variable': The primary Dependent Variable/Outcome. Keep it simple (1-2 words).
-       - 'effect_direction': 'Positive' (Driver increases Response), 'Negative' (Driver decreases Response), 'Neutral' (No significant effect), 'Complex' (Context dependent), or 'Methodological' (Study validates a method/model, no biological effect direction).
-       - 'study_location': Country or Region. Normalize to English names (e.g. "USA" -> "United States").
-       ${enableSpecies ? "- 'study_species': Species name or group. DO NOT include counts/numbers (e.g., do NOT say '18 bird species', say 'Birds (General)' or 'Aves'). Use common name if available." : ""}
-    5. Generate 'key_finding', 'impact_keywords', and 'short_citation'.
-    
-    **CRITICAL RULE FOR MULTIPLE FINDINGS:**
-    - If a single paper contains **multiple distinct experiments** or investigates **distinct Driver-Response pairs** (e.g. Temperature -> Growth AND pH -> Survival), create **SEPARATE** entries in the 'papers' array for each pair.
-    - Each entry should share the same title/authors/citation but have specific drivers, responses, and key findings for that pair.
-    - Do NOT create duplicate entries if they are synonyms; only for distinct findings.
+const RENAME_SHARE = 0.8;
+const sectionLabel = (p: { category: string, theme: string }) => `${p.category} › ${p.theme}`;
 
-    EXISTING TAXONOMY HINT: ${taxonomyHint}
+function takeTaxonomySnapshot(name: string, papers: Paper[]): TaxonomySnapshot {
+  return { id: `snap-${Date.now()}`, name, createdAt: Date.now(), papers: papers.map(p => ({ id: p.id, title: p.title, category: p.category, theme: p.theme, subSubTheme: p.subSubTheme })) };
+}
 
-    OUTPUT (Strict JSON):
-    {
-      "papers": [
-        { 
-          "title": "...", "authors": "...", "year": "...", "journal": "...", "abstract_summary": "...", 
-          "main_category": "...", "sub_theme": "...", 
-          "driver_variable": "...", "response_variable": "...", "effect_direction": "...",
-          "study_location": "...", ${enableSpecies ? '"study_species": "...",' : ''}
-          "key_finding": "...", "impact_keywords": "...", "short_citation": "..." 
-        }
-      ]
+function detectRenames(from: TaxonomySnapshotPaper[], toById: Map<string, TaxonomySnapshotPaper>, keyOf: (p: TaxonomySnapshotPaper) => string, removed: string[], added: string[]): { from: string, to: string }[] {
+  const available = new Set(added);
+  const renames: { from: string, to: string }[] = [];
+  removed.forEach(oldKey => {
+    const landed = new Map<string, number>();
+    const kept = from.filter(p => keyOf(p) === oldKey && toById.has(p.id));
+    kept.forEach(p => { const k = keyOf(toById.get(p.id)!); landed.set(k, (landed.get(k) || 0) + 1); });
+    const best = Array.from(landed.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (best && available.has(best[0]) && best[1] >= kept.length * RENAME_SHARE) {
+      renames.push({ from: oldKey, to: best[0] });
+      available.delete(best[0]);
     }
-  `;
+  });
+  return renames;
+}
 
-  let retries = 0;
-  const maxRetries = 6; 
+function diffTaxonomy(from: TaxonomySnapshotPaper[], to: TaxonomySnapshotPaper[]): TaxonomyDiff {
+  const toById = new Map(to.map(p => [p.id, p]));
+  const fromIds = new Set(from.map(p => p.id));
+  const keysOf = (papers: TaxonomySnapshotPaper[], keyOf: (p: TaxonomySnapshotPaper) => string) => new Set(papers.map(keyOf));
+  const gone = (a: Set<string>, b: Set<string>) => Array.from(a).filter(k => !b.has(k));
+
+  const oldCats = keysOf(from, p => p.category); const newCats = keysOf(to, p => p.category);
+  const removedCats = gone(oldCats, newCats); const addedCats = gone(newCats, oldCats);
+  const renamedCategories = detectRenames(from, toById, p => p.category, removedCats, addedCats);
+  const catRenamedTo = new Map(renamedCategories.map(r => [r.from, r.to]));
+
+  const oldSections = keysOf(from, sectionLabel); const newSections = keysOf(to, sectionLabel);
+  const removedSections = gone(oldSections, newSections); const addedSections = gone(newSections, oldSections);
+  // Sub-themes that only changed because their category was renamed are reported with the category
+  const renamedSections = detectRenames(from, toById, sectionLabel, removedSections, addedSections).filter(r => {
+    const oldPaper = from.find(p => sectionLabel(p) === r.from)!;
+    return r.to !== sectionLabel({ category: catRenamedTo.get(oldPaper.category) || '', theme: oldPaper.theme });
+  });
+  const explained = new Set(renamedSections.map(r => `${r.from}|||${r.to}`));
+
+  const moves = new Map<string, { from: string, to: string, titles: string[] }>();
+  from.forEach(p => {
+    const now = toById.get(p.id);
+    if (!now) return;
+    const a = sectionLabel(p); const b = sectionLabel(now);
+    if (a === b || explained.has(`${a}|||${b}`)) return;
+    if (catRenamedTo.get(p.category) === now.category && p.theme === now.theme) return;
+    const route = moves.get(`${a}|||${b}`) || { from: a, to: b, titles: [] };
+    route.titles.push(p.title);
+    moves.set(`${a}|||${b}`, route);
+  });
 
-  while (true) {
-    try {
-      onStatusUpdate(`Extracting batch... (Attempt ${retries + 1}/${maxRetries})`);
-      const data = await fetchAI(modelId, key, systemPrompt, `Process this raw data batch:\n${textBatch}`, true);
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (!textResponse) throw new Error("No data returned from AI.");
+  const explainedSections = new Set([...renamedSections.map(r => r.from), ...renamedSections.map(r => r.to)]);
+  from.forEach(p => {
+    const renamedTo = catRenamedTo.get(p.category);
+    const carried = renamedTo && sectionLabel({ category: renamedTo, theme: p.theme });
+    if (carried && newSections.has(carried)) { explainedSections.add(sectionLabel(p)); explainedSections.add(carried); }
+  });
+  const renamedCatNames = new Set([...renamedCategories.map(r => r.from), ...renamedCategories.map(r => r.to)]);
+  const bySection = (key: string) => !explainedSections.has(key);
+  return {
+    renamedCategories,
+    addedCategories: addedCats.filter(c => !renamedCatNames.has(c)),
+    removedCategories: removedCats.filter(c => !renamedCatNames.has(c)),
+    renamedSections,
+    addedSections: addedSections.filter(bySection),
+    removedSections: removedSections.filter(bySection),
+    moves: Array.from(moves.values()).sort((a, b) => b.titles.length - a.titles.length),
+    addedPapers: to.filter(p => !fromIds.has(p.id)).map(p => p.title),
+    removedPapers: from.filter(p => !toById.has(p.id)).map(p => p.title)
+  };
+}
 
-      const parsed = safeJsonParse<AnalysisResult>(textResponse);
-      return { result: parsed.data, truncated: parsed.wasTruncated };
+// Puts papers back where the snapshot had them. Papers added since the snapshot keep their current place.
+function restoreTaxonomySnapshot(papers: Paper[], snapshot: TaxonomySnapshot): Paper[] {
+  const placed = new Map(snapshot.papers.map(p => [p.id, p]));
+  return papers.map(p => {
+    const then = placed.get(p.id);
+    return then && (then.category !== p.category || then.theme !== p.theme || then.subSubTheme !== p.subSubTheme) ? { ...p, category: then.category, theme: then.theme, subSubTheme: then.subSubTheme } : p;
+  });
+}
 
-    } catch (error: any) {
-      const isRetryable = error.name === "RetryableError" || error.message.includes("Overloaded");
-      const isFatal = error.name === "QuotaExceededError" || error.name === "ApiKeyError";
-      
-      // If we failed JSON parsing, we might want to rethrow to trigger manual fix
-      if (error.message.includes("malformed data") || error.message.includes("JSON")) {
-          throw error; 
-      }
-      
-      if (isRetryable || (!isFatal && retries < maxRetries)) {
-        if (retries < maxRetries) {
-          retries++;
-          const delayTime = Math.pow(2, retries) * 1000 + (Math.random() * 1000); 
-          onStatusUpdate(`⚠️ AI Busy/Overloaded. Retrying in ${Math.round(delayTime/1000)}s...`);
-          await wait(delayTime);
-          continue;
+// --- Suggestion History ---
+// Accepted suggestions are kept as edges between sections. A new suggestion flip-flops when one of its
+// edges leads back, along accepted edges, to where it started: directly (reversal) or via other sections (cycle).
+
+const themeKey = (category: string, theme: string) => `theme:${category}|||${theme}`;
+
+function suggestionEdges(s: ConsolidationSuggestion): SectionEdge[] {
+  const edges: SectionEdge[] = [];
+  if (s.suggested_merge) {
+    const { themes_to_combine, new_theme_name } = s.suggested_merge;
+    themes_to_combine.forEach(t => edges.push({ from: themeKey(s.main_category, t), to: themeKey(s.main_category, new_theme_name) }));
+  }
+  if (s.suggested_move) edges.push({ from: themeKey(s.suggested_move.current_category, s.suggested_move.theme), to: themeKey(s.suggested_move.target_category, s.suggested_move.theme) });
+  if (s.suggested_category_merge) edges.push({ from: `cat:${s.suggested_category_merge.source_category}`, to: `cat:${s.suggested_category_merge.target_category}` });
+  if (s.suggested_rename) edges.push({ from: `cat:${s.suggested_rename.current_name}`, to: `cat:${s.suggested_rename.new_name}` });
+  if (s.suggested_audit_fix) {
+    const f = s.suggested_audit_fix;
+    edges.push({ from: themeKey(f.original_category, f.original_theme), to: themeKey(f.new_category, f.new_theme) });
+  }
+  if (s.suggested_split) s.suggested_split.new_themes.forEach(g => edges.push({ from: themeKey(s.main_category, s.suggested_split!.theme), to: themeKey(s.main_category, g.name) }));
+  return edges.filter(e => e.from !== e.to);
+}
+
+function detectFlipFlop(s: ConsolidationSuggestion, log: AcceptedSuggestion[]): FlipFlop | null {
+  for (const edge of suggestionEdges(s)) {
+    // Breadth-first from the edge's target; reaching its source closes the loop
+    const cameFrom = new Map<string, { node: string, record: AcceptedSuggestion }>();
+    const queue = [edge.to];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (node === edge.from) {
+        const items = [node];
+        const records: AcceptedSuggestion[] = [];
+        for (let step = cameFrom.get(node); step; step = cameFrom.get(step.node)) {
+          items.unshift(step.node);
+          records.unshift(step.record);
         }
+        return { kind: records.length === 1 ? 'reversal' : 'cycle', items, earlier: records.map(r => ({ signature: r.signature, round: r.round })) };
       }
-      throw error; 
+      log.forEach(record => record.edges.forEach(e => {
+        if (e.from !== node || seen.has(e.to)) return;
+        seen.add(e.to);
+        cameFrom.set(e.to, { node, record });
+        queue.push(e.to);
+      }));
     }
   }
+  return null;
 }
 
-// RESTORED: Superior Audit Function for Automatic Finalization
-async function auditTaxonomyWithGemini(
-  taxonomyList: string[],
-  key: string,
-  topic: string,
-  modelId: string, // Dynamic model ID
-  onStatusUpdate: (msg: string) => void
-): Promise<AuditResult> {
-  const effectiveTopic = topic.trim() || "General Academic Research";
+function renameKeysInLog(log: AcceptedSuggestion[], rename: (key: string) => string): AcceptedSuggestion[] {
+  return log.map(record => ({ ...record, edges: record.edges.map(e => ({ from: rename(e.from), to: rename(e.to) })).filter(e => e.from !== e.to) }));
+}
 
-  const systemPrompt = `
-    You are an expert taxonomy auditor for a systematic review on "${effectiveTopic}".
-    Your task is to review the current list of "Main Category > Sub-Theme" pairs and identify structural inconsistencies or redundancies.
+// A renamed or merged category takes its sub-themes' keys along, so reversals inside it are still caught
+function renameCategoryInLog(log: AcceptedSuggestion[], from: string, to: string): AcceptedSuggestion[] {
+  const themePrefix = themeKey(from, '');
+  return renameKeysInLog(log, key => key === `cat:${from}` ? `cat:${to}` : key.startsWith(themePrefix) ? themeKey(to, key.slice(themePrefix.length)) : key);
+}
 
-    SPECIFIC ISSUES TO DETECT AND FIX:
-    1. **Duplicate Sub-Themes across Categories:** If the exact same sub-theme name (e.g., "Phenology") appears under two different Main Categories (e.g., "Behavior" and "Physiology"), you MUST resolve this ambiguity.
-       - FIX: Rename one or both to be specific (e.g., "Behavioral Phenology", "Physiological Phenology") OR move them to the single most appropriate category.
-    2. **Hierarchical Redundancy:** If a Main Category is clearly a subset of another Main Category (e.g., "Heat Stress" is a main category, but "Physiological Responses" also exists), merge the specific one into the broader one.
-       - FIX: Demote the specific Main Category to a Sub-Theme under the broader Main Category.
-    3. **Merge Synonyms:** If "Demography" and "Population Dynamics" both exist, merge them into the more standard term.
+function logAcceptedSuggestion(log: AcceptedSuggestion[], s: ConsolidationSuggestion): AcceptedSuggestion[] {
+  const moved = s.suggested_rename ? renameCategoryInLog(log, s.suggested_rename.current_name, s.suggested_rename.new_name)
+    : s.suggested_category_merge ? renameCategoryInLog(log, s.suggested_category_merge.source_category, s.suggested_category_merge.target_category)
+    : log;
+  const edges = suggestionEdges(s);
+  return edges.length > 0 ? [...moved, { signature: getSuggestionSignature(s), round: s.round ?? 0, edges }] : moved;
+}
 
-    INPUT FORMAT:
-    A list of strings: "Main Category ||| Sub-Theme"
+const lockKeyLabel = (key: string) => key.startsWith('cat:') ? key.slice(4) : key.slice(6).replace('|||', ' › ');
 
-    OUTPUT INSTRUCTIONS:
-    - Return a JSON object with a "fixes" array.
-    - Each fix object must contain: "original_category", "original_theme", "new_category", "new_theme", "reason".
-    - If NO fixes are needed, return an empty "fixes" array.
+function lockKeyExists(key: string, papers: Paper[]): boolean {
+  return papers.some(p => key === `cat:${p.category}` || key === themeKey(p.category, p.theme));
+}
 
-    CURRENT TAXONOMY LIST:
-    ${JSON.stringify(taxonomyList)}
+// --- Applying Suggestions ---
 
-    OUTPUT SCHEMA (STRICT JSON):
-    {
-      "fixes": [
-        {
-          "original_category": "...",
-          "original_theme": "...",
-          "new_category": "...",
-          "new_theme": "...",
-          "reason": "..."
-        }
-      ]
-    }
-  `;
+// Applies one suggestion and rewrites pending ones that refer to a renamed or merged category; the applied one leaves the list
+function applyConsolidationSuggestion(papers: Paper[], pending: ConsolidationSuggestion[] | null, suggestion: ConsolidationSuggestion): { papers: Paper[], pending: ConsolidationSuggestion[] | null } {
+  const suggestionId = suggestion.id;
+  let newPapers = [...papers];
+  let nextSuggestions = pending;
 
-  let retries = 0;
-  const maxRetries = 3;
+  // 1. Apply MERGE
+  if (suggestion.suggested_merge) {
+      const { themes_to_combine, new_theme_name } = suggestion.suggested_merge;
+      newPapers = newPapers.map(p => {
+          if (p.category === suggestion.main_category && themes_to_combine.includes(p.theme)) {
+              return { ...p, theme: new_theme_name };
+          }
+          return p;
+      });
+  }
 
-  while (true) {
-    try {
-      onStatusUpdate(`Auditing Structure...`);
-      // Empty user prompt because the list is in the system prompt for better context adherence in Gemma
-      const data = await fetchAI(modelId, key, systemPrompt, "Analyze and fix the taxonomy list above.", true);
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      const parsed = safeJsonParse<AuditResult>(textResponse);
-      return parsed.data;
-    } catch (error: any) {
-      if ((error.name === "RetryableError" || !error.name.includes("Quota")) && retries < maxRetries) {
-        retries++; await wait(3000); continue;
-      }
-      return { fixes: [] };
-    }
+  // 2. Apply MOVE
+  if (suggestion.suggested_move) {
+      const { theme, current_category, target_category } = suggestion.suggested_move;
+      newPapers = newPapers.map(p => {
+          if (p.category === current_category && p.theme === theme) {
+              return { ...p, category: target_category };
+          }
+          return p;
+      });
   }
-}
 
-// NEW: Advanced Consolidation Logic for the Button
-async function consolidateThemesWithGemini(
-  taxonomy: Taxonomy, 
-  paperSamples: Record<string, string[]>,
-  key: string,
-  topic: string,
-  modelId: string,
-  rejectedSuggestions: string[],
-  lockedItems: string[],
-  onStatusUpdate: (msg: string) => void
-): Promise<ConsolidationResult> {
-  const effectiveTopic = topic.trim() || "General Academic Research";
+  // 3. Apply CATEGORY MERGE (and clean up zombie suggestions)
+  if (suggestion.suggested_category_merge) {
+      const { source_category, target_category } = suggestion.suggested_category_merge;
+      newPapers = newPapers.map(p => {
+          if (p.category === source_category) {
+              return { ...p, category: target_category };
+          }
+          return p;
+      });
 
-  const systemPrompt = `
-    You are an expert data synthesis analyst reviewing the Table of Contents for a Systematic Review Manuscript on "${effectiveTopic}".
-    Your task is to analyze the existing structure: Main Sections (Main Categories) and Sub-Sections (Sub-Themes).
-    
-    INPUT CONTEXT:
-    - You are provided with a 'Rich Taxonomy' where each Main Category contains a list of Sub-Themes, and each Sub-Theme has a list of 'sample_titles'.
-    - **USE THESE TITLES TO VERIFY CONTEXT.** If a theme name seems misplaced (e.g. "Population Dynamics" in "Community Ecology"), CHECK THE TITLES. 
-      - If titles describe community-level interactions, DO NOT move it.
-      - If titles describe single-species dynamics, DO move it.
-      - **CITATION REQUIRED:** In your 'reason' field, you MUST quote a specific word or phrase from one of the sample titles that justifies your decision.
+      // UPDATE PENDING SUGGESTIONS to reflect the category merge
+      if (nextSuggestions) {
+         const updatedSuggestions = nextSuggestions.map(s => {
+              if (s.id === suggestionId) return s; // Will be removed anyway
 
-    LOCKED ITEMS (DO NOT TOUCH):
-    - The following sections are LOCKED by the user. Do NOT suggest renaming, moving, or merging them (unless moving something INTO them):
-    ${lockedItems.length > 0 ? lockedItems.join(', ') : "None"}
+              // If another suggestion was inside the merged category, update it
+              if (s.main_category === source_category) {
+                  return { ...s, main_category: target_category };
+              }
+              // Update moves FROM the merged category
+              if (s.suggested_move && s.suggested_move.current_category === source_category) {
+                  return { ...s, suggested_move: { ...s.suggested_move, current_category: target_category } };
+              }
+              // Update moves TO the merged category
+              if (s.suggested_move && s.suggested_move.target_category === source_category) {
+                  return { ...s, suggested_move: { ...s.suggested_move, target_category: target_category } };
+              }
+              return s;
+         });
+         nextSuggestions = updatedSuggestions;
+      }
+  }
 
-    TASKS (In Order of Priority):
-    1. **Merge Sub-Sections (HIGHEST PRIORITY):** Identify any Sub-Sections within a Main Section that are conceptually overlapping and should be merged into a single, cohesive Sub-Section.
-    2. **Move Sub-Sections (CRITICAL):** Check if any Sub-Sections are misplaced. Suggest moving them to the correct Main Section.
-    3. **Merge Main Sections:** Identify synonymous or highly overlapping Main Sections (e.g., 'Physiology' and 'Physiological Responses') and merge them.
-    4. **Hierarchy Check:** Identify Main Sections that are actually subsets of other Main Sections (e.g. "Heat Stress" should be inside "Abiotic Stress") and suggest a move.
-    5. **Resolve Ambiguous Names:** If a Sub-Section is named "X and Y" (e.g. "Temperature and Predation"), check the 'sample_titles'. If the papers are only about "X", suggest renaming it to "X".
-    6. **Rename Main Sections (CRITICAL ONLY):** ONLY suggest a rename if the current name is 'General', 'Biology', 'Other', or clearly too broad/vague.
-    7. **No Self-Merges:** Do NOT suggest merging a sub-section into itself. A merge requires at least two distinct sub-sections.
+  // 4. Apply AUDIT FIX (moves one sub-theme, possibly to another category and name)
+  if (suggestion.suggested_audit_fix) {
+      const { original_category, original_theme, new_category, new_theme } = suggestion.suggested_audit_fix;
+      newPapers = newPapers.map(p => {
+          if (p.category === original_category && p.theme === original_theme) {
+              return { ...p, category: new_category, theme: new_theme };
+          }
+          return p;
+      });
+  }
 
-    RICH TAXONOMY (Structure + Content Samples): 
-    ${JSON.stringify({ taxonomy, paperSamples }, null, 2)}
+  // 5. Apply SPLIT (by paper id, only to papers still in the split sub-theme). The sub-sub-themes belonged to the old sub-theme.
+  if (suggestion.suggested_split) {
+      const { theme } = suggestion.suggested_split;
+      const newTheme = new Map(suggestion.suggested_split.new_themes.flatMap(g => g.paper_ids.map(id => [id, g.name] as const)));
+      newPapers = newPapers.map(p => newTheme.has(p.id) && p.category === suggestion.main_category && p.theme === theme ? { ...p, theme: newTheme.get(p.id)!, subSubTheme: undefined } : p);
+  }
 
-    PREVIOUSLY REJECTED SUGGESTIONS (DO NOT SUGGEST THESE AGAIN):
-    ${rejectedSuggestions.length > 0 ? rejectedSuggestions.join('\n') : "None"}
+  // 6. Apply RENAME (and update pending suggestions)
+  if (suggestion.suggested_rename) {
+      const { current_name, new_name } = suggestion.suggested_rename;
 
-    OUTPUT SCHEMA (STRICT JSON):
-    {
-      "status": "suggestions_made" | "no_changes", 
-      "suggestions": [
-        {
-          "main_category": "Current Main Section Name",
-          "suggested_merge": {
-            "themes_to_combine": ["Sub-Section A", "Sub-Section B"],
-            "new_theme_name": "Combined Sub-Section Header",
-            "reason": "Explanation citing specific title words."
-          } | null,
-          "suggested_move": {
-            "theme": "Sub-Section Name",
-            "current_category": "Current Main Section Name",
-            "target_category": "Target Main Section Name",
-            "reason": "Why it belongs there (cite title words)."
-          } | null,
-          "suggested_category_merge": {
-            "source_category": "Main Section to Remove",
-            "target_category": "Main Section to Merge Into",
-            "reason": "Why these major sections are duplicates."
-          } | null,
-          "suggested_rename": {
-             "current_name": "Current Main Section Name",
-             "new_name": "Better Main Section Name",
-             "reason": "Reason for rename."
-          } | null
-        }
-      ]
-    }
-  `;
+      // Apply to papers
+      newPapers = newPapers.map(p => {
+          if (p.category === current_name) {
+              return { ...p, category: new_name };
+          }
+          return p;
+      });
 
-  let retries = 0;
-  const maxRetries = 3;
+      // CRITICAL: Update other pending suggestions that reference the old name
+      if (nextSuggestions) {
+          const updatedSuggestions = nextSuggestions.map(s => {
+              if (s.id === suggestionId) return s; // Ignore current one (will be removed)
 
-  while (true) {
-    try {
-      onStatusUpdate(`Analyzing manuscript structure...`);
-      const data = await fetchAI(modelId, key, systemPrompt, "Review the provided structure for consolidation, moves, and critical improvements.", true);
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      const parsed = safeJsonParse<ConsolidationResult>(textResponse);
-      return parsed.data;
-    } catch (error: any) {
-      if ((error.name === "RetryableError" || !error.name.includes("Quota")) && retries < maxRetries) {
-        retries++; await wait(3000); continue;
-      }
-      // Return "no changes" on error to avoid crashing
-      return { status: "no_changes", suggestions: [] };
-    }
-  }
-}
+              // If another suggestion is inside the renamed category, update its main_category ref
+              if (s.main_category === current_name) {
+                  return { ...s, main_category: new_name };
+              }
 
-async function optimizeStructureWithGemini(
-  papers: Paper[],
-  key: string,
-  topic: string,
-  modelId: string,
-  _enableSpecies: boolean, // unused variable prefix with _
-  onStatusUpdate: (msg: string) => void
-): Promise<OptimizationResult> {
-  const effectiveTopic = topic.trim() || "General Academic Research";
-  const paperSummaries = papers.map(p => ({
-    id: p.id,
-    title: p.title,
-    current_cat: p.category,
-    current_theme: p.theme,
-    driver: p.driver,
-    response: p.response,
-    location: p.location,
-    species: p.species
-  }));
-
-  const systemPrompt = `
-    You are an expert taxonomy architect for a systematic review on "${effectiveTopic}".
-    TASK: Reorganize categories and Normalize metadata (Synonyms & Groups).
+              // If another suggestion is a move FROM the renamed category
+              if (s.suggested_move && s.suggested_move.current_category === current_name) {
+                  return { ...s, suggested_move: { ...s.suggested_move, current_category: new_name } };
+              }
 
-    RULES:
-    1. **Manuscript Structure:** Organize 'Main Categories' as Major Sections, 'Sub-Themes' as Subsections. Prioritize OUTCOME domains.
-    2. **Generalize Sub-Themes:** Merge sub-themes describing the same outcome but different drivers (e.g. "Fire-driven Predation" -> "Predation Rates").
-    3. **NORMALIZE METADATA (Apply Universally):**
-       - **Drivers:** Scan for ALL synonyms and standardize them to a single term. (e.g., "Rainfall"/"Precipitation" -> "Precipitation"; "Temp"/"Temperature" -> "Temperature"). Use this standardized term for 'new_driver'.
-       - **Responses:** Scan for ALL synonyms and standardize them to a single term. Use this standardized term for 'new_response'.
-       - **Locations:** Consolidate synonyms (e.g. "USA"/"United States" -> "United States"). Use this for 'new_location'.
-       - **Species:** Standardize names (e.g. "5 ducks" -> "Anatidae (Ducks)"). Use this for 'new_species'.
-    4. **GROUP METADATA (Hierarchical):**
-       - Assign 'new_driver_group' (e.g. "Precipitation" -> "Climate", "Predation" -> "Biotic").
-       - Assign 'new_response_group' (e.g. "Hatching Success" -> "Demography", "Water Use Efficiency" -> "Physiology").
-    5. **Titles:** If any title contains a bracketed translation [like this], remove the bracketed part and keep the English.
-    
-    OUTPUT SCHEMA (Strict JSON):
-    { 
-      "moves": [ 
-        { 
-          "paper_id": "...", 
-          "new_category": "...", 
-          "new_theme": "...", 
-          "new_driver": "...", 
-          "new_driver_group": "...", 
-          "new_response": "...", 
-          "new_response_group": "...", 
-          "new_location": "...", 
-          "new_species": "..." 
-        } 
-      ] 
-    }
-  `;
+              // If another suggestion is a move TO the renamed category
+              if (s.suggested_move && s.suggested_move.target_category === current_name) {
+                  return { ...s, suggested_move: { ...s.suggested_move, target_category: new_name } };
+              }
 
-  const userPrompt = `PAPER LIST:\n${JSON.stringify(paperSummaries)}`;
-  let retries = 0; const maxRetries = 3;
+              // If another suggestion is a MERGE of this category
+              if (s.suggested_category_merge && s.suggested_category_merge.source_category === current_name) {
+                   return { ...s, suggested_category_merge: { ...s.suggested_category_merge, source_category: new_name } };
+              }
+              if (s.suggested_category_merge && s.suggested_category_merge.target_category === current_name) {
+                   return { ...s, suggested_category_merge: { ...s.suggested_category_merge, target_category: new_name } };
+              }
 
-  while (true) {
-    try {
-      onStatusUpdate(`Optimization: Analyzing ${papers.length} papers for structure & metadata...`);
-      const data = await fetchAI(modelId, key, systemPrompt, userPrompt, true);
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      
-      const parsed = safeJsonParse<OptimizationResult>(textResponse);
-      return parsed.data; 
-    } catch (error: any) {
-      if ((error.name === "RetryableError" || !error.name.includes("Quota")) && retries < maxRetries) {
-        retries++; await wait(3000 * retries); continue;
+              return s;
+          });
+          nextSuggestions = updatedSuggestions;
       }
-      return { moves: [] }; 
-    }
   }
+
+  return { papers: newPapers, pending: nextSuggestions ? nextSuggestions.filter(s => s.id !== suggestionId) : null };
 }
 
-const cleanSynthesisResponse = (raw: any, modelId: string): SynthesisResult => {
-  let summary = raw.summary || "No summary generated.";
-  if (typeof summary === 'string' && (summary.includes('<ul>') || summary.includes('<li>'))) {
-    let cleanStr = summary.replace(/<\/?ul>/g, '');
-    let items = cleanStr.split('</li>');
-    summary = items.map(s => s.replace(/<li>/g, '').trim()).filter(s => s.length > 0);
+// Locks covering the sections a suggestion would change; a locked category covers its sub-themes
+function findTouchedLocks(s: ConsolidationSuggestion, lockedItems: string[]): string[] {
+  const keys = suggestionEdges(s).map(e => e.from);
+  if (s.suggested_category_merge) keys.push(`cat:${s.suggested_category_merge.target_category}`);
+  const locks = keys.map(key => lockedItems.includes(key) ? key : key.startsWith('theme:') ? lockedItems.find(l => l === `cat:${key.slice(6).split('|||')[0]}`) : undefined);
+  return Array.from(new Set(locks.filter((l): l is string => !!l)));
+}
+
+// Why a pending suggestion no longer fits the papers (usually because an accepted one changed what it refers to)
+// or touches a section locked since it was made, or null
+function findStaleReason(s: ConsolidationSuggestion, papers: Paper[], lockedItems: string[]): string | null {
+  const categories = new Set(papers.map(p => p.category));
+  const hasTheme = (category: string, theme: string) => papers.some(p => p.category === category && p.theme === theme);
+  if (s.suggested_merge) {
+    const gone = s.suggested_merge.themes_to_combine.filter(t => !hasTheme(s.main_category, t));
+    if (gone.length > 0) return `${gone.map(t => `"${t}"`).join(', ')} no longer in "${s.main_category}"`;
   }
-  return { summary: summary, contradictionAnalysis: typeof raw.contradictionAnalysis === 'string' ? raw.contradictionAnalysis : "No analysis generated.", modelUsed: modelId };
-};
+  if (s.suggested_move) {
+    const { theme, current_category, target_category } = s.suggested_move;
+    if (!hasTheme(current_category, theme)) return `"${theme}" is no longer in "${current_category}"`;
+    if (!categories.has(target_category)) return `target category "${target_category}" no longer exists`;
+  }
+  if (s.suggested_category_merge) {
+    const missing = [s.suggested_category_merge.source_category, s.suggested_category_merge.target_category].find(c => !categories.has(c));
+    if (missing) return `category "${missing}" no longer exists`;
+  }
+  if (s.suggested_rename && !categories.has(s.suggested_rename.current_name)) return `category "${s.suggested_rename.current_name}" no longer exists`;
+  if (s.suggested_audit_fix && !hasTheme(s.suggested_audit_fix.original_category, s.suggested_audit_fix.original_theme)) {
+    return `"${s.suggested_audit_fix.original_category} › ${s.suggested_audit_fix.original_theme}" no longer exists`;
+  }
+  if (s.suggested_split) {
+    const { theme, new_themes } = s.suggested_split;
+    const ids = new Set(new_themes.flatMap(g => g.paper_ids));
+    const stillThere = papers.filter(p => ids.has(p.id) && p.category === s.main_category && p.theme === theme).length;
+    const gone = ids.size - stillThere;
+    if (stillThere === 0) return `the papers of "${theme}" have been re-sorted already`;
+    if (gone > 0) return `${gone} of the papers of "${theme}" ${gone === 1 ? 'has' : 'have'} been re-sorted already`;
+  }
+  const locks = findTouchedLocks(s, lockedItems);
+  if (locks.length > 0) return `${locks.map(l => `"${lockKeyLabel(l)}"`).join(', ')} ${locks.length === 1 ? 'is' : 'are'} locked`;
+  return null;
+}
 
-async function synthesizeSectionWithGemini(sectionTheme: string, papersData: any[], key: string, topic: string, modelId: string, onStatusUpdate: (msg: string) => void): Promise<SynthesisResult> {
-  const effectiveTopic = topic.trim() || "Academic Research";
-  const synthesisDataString = papersData.map(p => `Key Finding: "${p.keyFinding}". Keywords: [${p.impactKeywords}]. Citation: ${p.shortCitation}`).join('\n---\n');
-  const systemPrompt = `
-    You are an expert academic synthesizer performing a Systematic Review.
-    TOPIC: "${effectiveTopic}"
-    SECTION: "${sectionTheme}"
-    
-    DATA: A list of key findings from individual papers is provided below.
-    
-    TASK 1: COMPREHENSIVE SYNTHESIS (summary)
-    - **Goal:** Representative Coverage. Generate as many bullet points as necessary to cover **every distinct finding** in the dataset.
-    - **NO LIMITS:** There is NO maximum number of bullet points. Do not limit yourself to the "top 3-5" findings. If there are 20 distinct findings, produce 20 bullet points.
-    - **Citation Clustering:** If multiple papers support the same finding, combine them into a single bullet point and list **ALL** of them. 
-      - Format: "Finding text (Smith 2020; Jones 2021; Doe 2022)."
-      - **Relevance Filter:** While comprehensive coverage is desired, you are NOT required to cite every single paper if some lack meaningful or relevant findings. Prioritize quality and distinctness over 100% inclusion.
-    
-    TASK 2: EXHAUSTIVE CONSISTENCY CHECK (contradictionAnalysis)
-    - Perform a rigorous check for disagreements.
-    - Report **EVERY** distinct instance of disagreement or divergence found in the dataset. 
-    - Do not just write a general note; specify which papers conflict and how (e.g., "Paper A and B found positive effects, whereas Paper C found negative effects").
-    - If absolutely no contradictions exist, state "No clear contradictions found; findings are generally consistent."
-    
-    OUTPUT JSON FORMAT (Strict):
-    { 
-      "summary": ["Bullet 1...", "Bullet 2..."], 
-      "contradictionAnalysis": "Detailed paragraph(s) analyzing all conflicts..." 
-    }
-  `;
-  
-  let retries = 0; const maxRetries = 5;
-  while (true) {
+// Applies the given suggestions in list order, skipping any that an earlier one in the set made stale
+function applySuggestionSet(papers: Paper[], pending: ConsolidationSuggestion[], suggestionIds: string[], lockedItems: string[]): SuggestionSetResult {
+  const result: SuggestionSetResult = { papers, pending, applied: [], skipped: [] };
+  pending.filter(s => suggestionIds.includes(s.id)).forEach(({ id }) => {
+    const suggestion = result.pending?.find(s => s.id === id); // Possibly rewritten by an earlier rename or category merge
+    if (!suggestion) return;
+    const reason = findStaleReason(suggestion, result.papers, lockedItems);
+    if (reason) { result.skipped.push({ suggestion, reason }); return; }
+    const next = applyConsolidationSuggestion(result.papers, result.pending, suggestion);
+    result.papers = next.papers;
+    result.pending = next.pending;
+    result.applied.push(suggestion);
+  });
+  return result;
+}
+
+// --- Codebook ---
+// Typed or uploaded as one sub-theme per line: "Category | Sub-Theme | Definition | Example; Example".
+// CSV and JSON exports with the same columns are read too.
+
+const CODEBOOK_OTHER = 'Other';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function parseCodebook(text: string): { entries: CodebookEntry[], problems: string[] } {
+  const problems: string[] = [];
+  const trimmed = text.trim();
+  let rows: { line: string, cells: string[] }[] = [];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
     try {
-      const data = await fetchAI(modelId, key, systemPrompt, `DATA:\n${synthesisDataString}`, true);
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      const raw = safeJsonParse<any>(textResponse);
-      return cleanSynthesisResponse(raw.data, modelId);
-    } catch (error: any) {
-      if ((error.name === "RetryableError" || !error.name.includes("Quota")) && retries < maxRetries) { retries++; await wait(Math.pow(2, retries) * 1000); onStatusUpdate("Busy..."); continue; }
-      throw error;
+      const parsed = JSON.parse(trimmed);
+      const list = Array.isArray(parsed) ? parsed : isRecordObject(parsed) && Array.isArray(parsed.entries) ? parsed.entries : null;
+      if (!list) return { entries: [], problems: ["JSON codebooks must be a list of entries (or an object with an \"entries\" list)."] };
+      const pick = (item: Record<string, unknown>, names: string[]) => {
+        const value = names.map(n => item[n]).find(v => v !== undefined);
+        return Array.isArray(value) ? value.map(String).join('; ') : typeof value === 'string' ? value : '';
+      };
+      rows = list.map((item: unknown, i: number) => isRecordObject(item)
+        ? { line: `Entry ${i + 1}`, cells: [pick(item, ['category', 'main_category', 'Category']), pick(item, ['theme', 'sub_theme', 'subTheme', 'Sub-Theme']), pick(item, ['definition', 'Definition']), pick(item, ['examples', 'Examples'])] }
+        : { line: `Entry ${i + 1}`, cells: [] });
+    } catch {
+      return { entries: [], problems: ["The text looks like JSON but could not be parsed."] };
     }
+  } else {
+    const lines = trimmed.split('\n').map((text, i) => ({ text: text.trim(), n: i + 1 })).filter(l => l.text && !l.text.startsWith('#'));
+    const isCsv = lines.length > 0 && !lines[0].text.includes('|') && !lines[0].text.includes('\t') && lines[0].text.includes(',');
+    rows = isCsv
+      ? parseCSVRows(lines.map(l => l.text).join('\n')).map((cells, i) => ({ line: `Row ${i + 1}`, cells: cells.map(c => c.trim()) }))
+      : lines.map(l => ({ line: `Line ${l.n}`, cells: l.text.split(l.text.includes('|') ? '|' : '\t').map(c => c.trim()) }));
+    if (rows.length > 0 && /^(main )?category$/i.test(rows[0].cells[0] || '')) rows = rows.slice(1); // Header row
   }
+
+  const entries: CodebookEntry[] = [];
+  rows.forEach(({ line, cells }) => {
+    const [category = '', theme = '', definition = '', examples = ''] = cells;
+    if (!category || !theme) { problems.push(`${line}: needs at least a category and a sub-theme; skipped.`); return; }
+    if (entries.some(e => sameName(e.category, category) && sameName(e.theme, theme))) { problems.push(`${line}: "${category} › ${theme}" is listed twice; kept the first.`); return; }
+    entries.push({ category, theme, definition, examples: examples.split(';').map(x => x.trim()).filter(Boolean) });
+  });
+  return { entries, problems };
 }
 
-async function askPaperChat(query: string, papers: Paper[], key: string, modelId: string): Promise<string> {
-  // Enhanced Keyword Extraction (excluding common stop words)
-  const stopWords = new Set(['about', 'this', 'that', 'with', 'from', 'what', 'where', 'when', 'which', 'who', 'how', 'does', 'need', 'want', 'know', 'find', 'show', 'tell', 'papers', 'study', 'studies']);
-  const keywords = query.toLowerCase()
-    .replace(/[.,?/#!$%^&*;:{}=\-_`~()]/g, "")
-    .split(/\s+/)
-    .filter(w => w.length > 2 && !stopWords.has(w));
-  
-  // 1. Calculate Global Context
-  const totalPapers = papers.length;
-  const categories = Array.from(new Set(papers.map(p => p.category))).sort();
-  const drivers: Record<string, number> = {};
-  const responses: Record<string, number> = {};
-  const locations: Record<string, number> = {};
-  const species: Record<string, number> = {};
-  
+// The editable text form of a codebook (the inverse of parseCodebook)
+function formatCodebook(entries: CodebookEntry[]): string {
+  return entries.map(e => [e.category, e.theme, e.definition, e.examples.join('; ')].join(' | ').replace(/( \| )+$/, '')).join('\n');
+}
+
+function codebookTaxonomy(codebook: Codebook): Taxonomy {
+  const taxonomy: Taxonomy = {};
+  codebook.entries.forEach(e => {
+    if (!taxonomy[e.category]) taxonomy[e.category] = [];
+    taxonomy[e.category].push(e.theme);
+  });
+  return taxonomy;
+}
+
+function findCodebookEntry(codebook: Codebook, category: string, theme: string): CodebookEntry | undefined {
+  return codebook.entries.find(e => sameName(e.category, category) && sameName(e.theme, theme));
+}
+
+// Copies the codebook's spelling onto extracted papers. In strict mode papers outside the codebook go to "Other".
+function conformToCodebook(result: AnalysisResult, codebook: Codebook): { result: AnalysisResult, issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const papers = result.papers.map(p => {
+    const entry = findCodebookEntry(codebook, p.main_category, p.sub_theme);
+    if (entry) return { ...p, main_category: entry.category, sub_theme: entry.theme };
+    if (codebook.mode === 'seeded' || (sameName(p.main_category, CODEBOOK_OTHER) && sameName(p.sub_theme, CODEBOOK_OTHER))) return p;
+    issues.push({ item: p.title || 'Untitled paper', reason: `"${p.main_category} › ${p.sub_theme}" is not in the codebook; filed under "${CODEBOOK_OTHER}".` });
+    return { ...p, main_category: CODEBOOK_OTHER, sub_theme: CODEBOOK_OTHER };
+  });
+  return { result: { ...result, papers }, issues };
+}
+
+// Whether seeded extraction filed a paper outside the codebook, i.e. the model proposed its section
+function isCodebookProposal(codebook: Codebook | null, category: string, theme: string): boolean {
+  return codebook?.mode === 'seeded' && !findCodebookEntry(codebook, category, theme) && !(sameName(category, CODEBOOK_OTHER) && sameName(theme, CODEBOOK_OTHER));
+}
+
+// Sections the model proposed in seeded mode. Only papers seeded extraction filed outside the codebook count,
+// so papers from before the codebook and sections renamed by hand or by Suggest Merges are not proposals.
+function findCodebookProposals(papers: Paper[], codebook: Codebook): CodebookProposal[] {
+  const proposals = new Map<string, CodebookProposal>();
   papers.forEach(p => {
-    drivers[p.driver] = (drivers[p.driver] || 0) + 1;
-    responses[p.response] = (responses[p.response] || 0) + 1;
-    locations[p.location] = (locations[p.location] || 0) + 1;
-    species[p.species] = (species[p.species] || 0) + 1;
+    if (!p.codebookProposal || findCodebookEntry(codebook, p.category, p.theme) || (p.category === CODEBOOK_OTHER && p.theme === CODEBOOK_OTHER)) return;
+    const key = `${p.category} ||| ${p.theme}`;
+    if (!proposals.has(key)) proposals.set(key, { category: p.category, theme: p.theme, paperIds: [] });
+    proposals.get(key)!.paperIds.push(p.id);
   });
-  
-  const topDrivers = Object.entries(drivers).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
-  const topResponses = Object.entries(responses).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
-  const topLocations = Object.entries(locations).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
-  const topSpecies = Object.entries(species).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
+  return Array.from(proposals.values());
+}
 
-  // 2. RAG Context (Relevance Search with improved keyword logic)
-  const relevantPapers = papers.filter(p => {
-      if (keywords.length === 0) return false;
-      const text = (p.title + " " + p.keyFinding + " " + p.abstractSnippet + " " + p.species + " " + p.location).toLowerCase();
-      // Require at least one non-stopword keyword match
-      return keywords.some(k => text.includes(k));
-  }).slice(0, 15);
-  
-  const context = relevantPapers.map(p => `- [${p.shortCitation}]: ${p.title}. Found: ${p.keyFinding}. (D: ${p.driver}, R: ${p.response}, Loc: ${p.location}, Sp: ${p.species})`).join('\n');
+// --- Extraction Coverage ---
 
-  const systemPrompt = `
-    You are EcoSynthesisAI's Chat Assistant. You have access to a database of ${totalPapers} papers.
-    
-    DATA CONTEXT (Demographics & Topics):
-    - Main Categories: ${categories.join(', ')}
-    - Top Drivers: ${topDrivers}
-    - Top Outcomes: ${topResponses}
-    - Top Locations: ${topLocations}
-    - Top Species/Taxa: ${topSpecies}
+const normalizeTitle = (title: string): string =>
+  title.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
 
-    CAPABILITIES & LIMITATIONS:
-    1. SUMMARIZATION ONLY: You may summarize findings, list citations, and count papers (e.g. "How many papers mention temp?").
-    2. NO STATISTICS: Do NOT perform statistical analyses (meta-analysis, regression, effect sizes, etc.). If asked, reply: "I'm sorry, I have been coded/instructed to only summarize information because this tool is a qualitative review assistant, not a quantitative meta-analysis tool."
-    3. NO DEEP SYNTHESIS: If asked to compare conclusions in detail or synthesize contradictions (e.g. "Do these papers agree on X?"), reply: "For synthesis and contradiction analysis, please use the ✨ Sparkle buttons in the list view."
-    4. CITATIONS: Always use [Author, Year] format. You may expand on these citations in more detail, such as titles or journals, if requested.
-    5. VAGUE QUERIES: If the 'Relevant Papers Found' list is empty or doesn't seem to answer the user's specific question, politely suggest that their query might be too vague or that the database doesn't contain that specific information.
-  `;
-  
-  const userPrompt = `Relevant Papers Found (based on keywords: ${keywords.join(', ')}):\n${context || "No specific matches found."}\n\nUser Question: ${query}`;
-  
-  try {
-    const data = await fetchAI(modelId, key, systemPrompt, userPrompt, false);
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || "No response.";
-  } catch (err: any) { return `Error: ${err.message}`; }
+// Fraction of the title's significant words that also appear in the text
+function titleOverlap(title: string, text: string): number {
+  const words = normalizeTitle(title).split(' ').filter(w => w.length > 3);
+  if (words.length === 0) return 0;
+  const haystack = new Set(normalizeTitle(text).split(' '));
+  return words.filter(w => haystack.has(w)).length / words.length;
 }
 
-// --- SUB-COMPONENTS ---
-const SynthesisModal: React.FC<SynthesisModalProps> = ({ isOpen, onClose, themeKey, isSynthesizing, retryStatus, result }) => {
-  if (!isOpen) return null;
-  const [category, theme] = themeKey.split('-');
-  const analysisText = result?.contradictionAnalysis || "";
-  const summaryContent = result?.summary || "No summary available.";
-  const hasContradictions = analysisText.toLowerCase && !analysisText.toLowerCase().includes('no clear contradictions');
+const MIN_TITLE_OVERLAP = 0.6;
+
+// Matches each extracted entry back to an input record of its batch. The model's source_id is
+// trusted only if the extracted title actually appears in that record; otherwise the best title match wins.
+function reconcileBatch(records: InputRecord[], entries: { title: string, source_id?: string }[]) {
+  const byId = new Map(records.map(r => [r.id, r]));
+  const sourceIds = entries.map(entry => {
+    const claimed = entry.source_id ? byId.get(entry.source_id.replace(/[[\]\s]/g, '')) : undefined;
+    if (claimed && (!entry.title || titleOverlap(entry.title, claimed.text) >= MIN_TITLE_OVERLAP)) return claimed.id;
+    let best: InputRecord | undefined;
+    let bestScore = MIN_TITLE_OVERLAP;
+    records.forEach(r => {
+      const score = titleOverlap(entry.title || '', r.text);
+      if (score >= bestScore) { best = r; bestScore = score; }
+    });
+    return best?.id;
+  });
+  const matched = new Set(sourceIds.filter(Boolean));
+  return {
+    sourceIds,
+    missing: records.filter(r => !matched.has(r.id)),
+    unmatchedIdx: sourceIds.flatMap((id, i) => (id ? [] : [i]))
+  };
+}
+
+// Only the analysis-relevant text is sent; citation metadata is re-attached from the record afterwards.
+function serializeRecord(record: SourceRecord): string {
+  const abstract = record.abstract.replace(/\s+/g, ' ').trim() || '(No abstract available)';
+  return `[[${record.id}]]\nTITLE: ${record.title.replace(/\s+/g, ' ')}\nABSTRACT: ${abstract}`;
+}
+
+// --- AI Response Validation ---
+// Every parsed AI response passes through one of these before it touches app state. Near-misses are
+// coerced (and noted), items that cannot be used are rejected with a reason.
+
+const EFFECT_DIRECTIONS: Paper['effectDirection'][] = ['Positive', 'Negative', 'Neutral', 'Complex', 'Methodological', 'Unclear'];
+
+function newValidationReport(label: string): ValidationReport {
+  return { id: Math.random().toString(36).substr(2, 9), label, accepted: 0, coerced: [], rejected: [] };
+}
+
+function isRecordObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function coerceText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(coerceText).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+function coerceEffectDirection(value: unknown): Paper['effectDirection'] | null {
+  const v = coerceText(value).toLowerCase();
+  if (!v) return 'Unclear';
+  const exact = EFFECT_DIRECTIONS.find(d => d.toLowerCase() === v);
+  if (exact) return exact;
+  if (/^(\+|pos|increas|enhanc|benefi)/.test(v)) return 'Positive';
+  if (/^(-|neg|decreas|reduc|harm|detriment)/.test(v)) return 'Negative';
+  if (/^(neutral|none|no effect|no significant|non-?significant|not significant)/.test(v)) return 'Neutral';
+  if (/^(complex|mixed|context|variable|both|non-?linear)/.test(v)) return 'Complex';
+  if (/^method/.test(v)) return 'Methodological';
+  return null;
+}
+
+// "2019-2020", "2019a", 2019 -> "2019"
+function coerceYear(value: unknown): string {
+  const match = coerceText(value).match(/(?:1[6-9]|20)\d{2}/);
+  return match ? match[0] : '';
+}
+
+// Resolves a name the AI returned to an existing one, tolerating case and whitespace differences
+function matchExistingName(name: string, candidates: string[]): string | null {
+  if (candidates.includes(name)) return name;
+  const norm = name.trim().toLowerCase();
+  return candidates.find(c => c.trim().toLowerCase() === norm) ?? null;
+}
+
+function shortLabel(text: string): string {
+  return text.length > 60 ? `"${text.slice(0, 57)}..."` : `"${text}"`;
+}
+
+// Pulls the expected array out of a response, accepting a bare array or a single object as near-misses
+function extractResponseArray(raw: unknown, key: string, report: ValidationReport): unknown[] {
+  if (Array.isArray(raw)) {
+    report.coerced.push({ item: 'Response', reason: `bare array accepted as '${key}'` });
+    return raw;
+  }
+  if (!isRecordObject(raw)) {
+    report.rejected.push({ item: 'Response', reason: 'response is not a JSON object' });
+    return [];
+  }
+  const value = raw[key];
+  if (Array.isArray(value)) return value;
+  if (isRecordObject(value)) {
+    report.coerced.push({ item: 'Response', reason: `single object in '${key}' wrapped in a list` });
+    return [value];
+  }
+  if (value !== undefined && value !== null) report.rejected.push({ item: 'Response', reason: `'${key}' is not a list` });
+  return [];
+}
+
+function validateAnalysisResult(raw: unknown, label: string): { data: AnalysisResult, report: ValidationReport } {
+  const report = newValidationReport(label);
+  const papers: AnalysisResult['papers'] = [];
+
+  extractResponseArray(raw, 'papers', report).forEach((item, i) => {
+    if (!isRecordObject(item)) { report.rejected.push({ item: `Entry ${i + 1}`, reason: 'not an object' }); return; }
+    const notes: string[] = [];
+    const text = (field: string) => {
+      const value = item[field];
+      if (value !== undefined && value !== null && typeof value !== 'string') notes.push(`${field} converted to text`);
+      return coerceText(value);
+    };
+
+    const title = text('title');
+    const sourceId = text('source_id');
+    const name = title ? shortLabel(title) : sourceId ? `Record ${sourceId}` : `Entry ${i + 1}`;
+    const mainCategory = text('main_category');
+    const subTheme = text('sub_theme');
+    if (!title && !sourceId) { report.rejected.push({ item: name, reason: 'missing title' }); return; }
+    if (!mainCategory) { report.rejected.push({ item: name, reason: 'missing main_category' }); return; }
+    if (!subTheme) { report.rejected.push({ item: name, reason: 'missing sub_theme' }); return; }
+
+    const rawDirection = text('effect_direction');
+    let effectDirection = coerceEffectDirection(rawDirection);
+    if (effectDirection === null) {
+      notes.push(`unknown effect_direction "${rawDirection}" set to Unclear`);
+      effectDirection = 'Unclear';
+    } else if (rawDirection && effectDirection !== rawDirection) {
+      notes.push(`effect_direction "${rawDirection}" -> ${effectDirection}`);
+    }
+
+    const rawYear = text('year');
+    const year = coerceYear(rawYear);
+    if (rawYear && year !== rawYear) notes.push(year ? `year "${rawYear}" -> ${year}` : `unreadable year "${rawYear}" dropped`);
+
+    papers.push({
+      title,
+      authors: text('authors'),
+      year,
+      journal: text('journal'),
+      abstract_summary: text('abstract_summary'),
+      main_category: mainCategory,
+      sub_theme: subTheme,
+      sub_sub_theme: text('sub_sub_theme') || undefined,
+      driver_variable: text('driver_variable'),
+      response_variable: text('response_variable'),
+      effect_direction: effectDirection,
+      study_location: text('study_location'),
+      study_species: text('study_species'),
+      key_finding: text('key_finding'),
+      impact_keywords: text('impact_keywords'),
+      short_citation: text('short_citation'),
+      source_id: sourceId || undefined
+    });
+    if (notes.length > 0) report.coerced.push({ item: name, reason: notes.join('; ') });
+  });
+
+  report.accepted = papers.length;
+  return { data: { papers }, report };
+}
+
+// taxonomyList holds "Category ||| Theme" strings, as sent to the auditor
+function validateAuditResult(raw: unknown, taxonomyList: string[], label: string): { data: AuditResult, report: ValidationReport } {
+  const report = newValidationReport(label);
+  const known = new Set(taxonomyList);
+  const fixes: AuditFix[] = [];
+
+  extractResponseArray(raw, 'fixes', report).forEach((item, i) => {
+    if (!isRecordObject(item)) { report.rejected.push({ item: `Fix ${i + 1}`, reason: 'not an object' }); return; }
+    const fix: AuditFix = {
+      original_category: coerceText(item.original_category),
+      original_theme: coerceText(item.original_theme),
+      new_category: coerceText(item.new_category),
+      new_theme: coerceText(item.new_theme),
+      reason: coerceText(item.reason)
+    };
+    const name = `${fix.original_category || '?'} > ${fix.original_theme || '?'}`;
+    const missing = (['original_category', 'original_theme', 'new_category', 'new_theme'] as const).filter(f => !fix[f]);
+    if (missing.length > 0) { report.rejected.push({ item: name, reason: `missing ${missing.join(', ')}` }); return; }
+    if (!known.has(`${fix.original_category} ||| ${fix.original_theme}`)) { report.rejected.push({ item: name, reason: 'original category/sub-theme does not exist' }); return; }
+    if (fix.new_category === fix.original_category && fix.new_theme === fix.original_theme) { report.rejected.push({ item: name, reason: 'fix changes nothing' }); return; }
+    fixes.push(fix);
+  });
+
+  report.accepted = fixes.length;
+  return { data: { fixes }, report };
+}
+
+function validatePlacementResult(raw: unknown, taxonomy: Taxonomy, paperIds: string[], label: string): { data: PlacementResult, report: ValidationReport } {
+  const report = newValidationReport(label);
+  const placements: PaperPlacement[] = [];
+  const placed = new Set<string>();
+
+  extractResponseArray(raw, 'placements', report).forEach((item, i) => {
+    if (!isRecordObject(item)) { report.rejected.push({ item: `Placement ${i + 1}`, reason: 'not an object' }); return; }
+    const paperId = coerceText(item.paper_id);
+    const name = paperId || `Placement ${i + 1}`;
+    if (!paperIds.includes(paperId)) { report.rejected.push({ item: name, reason: 'paper_id does not match a requested paper' }); return; }
+    if (placed.has(paperId)) { report.rejected.push({ item: name, reason: 'paper placed twice' }); return; }
+    const category = matchExistingName(coerceText(item.main_category), Object.keys(taxonomy));
+    if (!category) { report.rejected.push({ item: name, reason: `main_category "${coerceText(item.main_category)}" is not an existing category` }); return; }
+    const theme = matchExistingName(coerceText(item.sub_theme), taxonomy[category]);
+    if (!theme) { report.rejected.push({ item: name, reason: `sub_theme "${coerceText(item.sub_theme)}" does not exist in "${category}"` }); return; }
+    placed.add(paperId);
+    placements.push({ paper_id: paperId, main_category: category, sub_theme: theme, reason: coerceText(item.reason) });
+  });
+
+  report.accepted = placements.length;
+  return { data: { placements }, report };
+}
+
+function validateConsolidationResult(raw: unknown, taxonomy: Taxonomy, splitCandidates: SplitCandidates, label: string): { data: ConsolidationResult, report: ValidationReport } {
+  const report = newValidationReport(label);
+  const categories = Object.keys(taxonomy);
+  const suggestions: ConsolidationResult['suggestions'] = [];
+
+  extractResponseArray(raw, 'suggestions', report).forEach((item, i) => {
+    if (!isRecordObject(item)) { report.rejected.push({ item: `Suggestion ${i + 1}`, reason: 'not an object' }); return; }
+    const notes: string[] = [];
+    const problems: string[] = [];
+    const resolveCategory = (value: unknown, field: string): string | null => {
+      const name = coerceText(value);
+      const match = name ? matchExistingName(name, categories) : null;
+      if (!match) { problems.push(`${field} "${name}" is not an existing category`); return null; }
+      if (match !== name) notes.push(`${field} "${name}" -> "${match}"`);
+      return match;
+    };
+
+    const mainCategory = resolveCategory(item.main_category, 'main_category');
+    const name = mainCategory || coerceText(item.main_category) || `Suggestion ${i + 1}`;
+    let suggestedMerge: ConsolidationResult['suggestions'][number]['suggested_merge'] = null;
+    let suggestedMove: ConsolidationResult['suggestions'][number]['suggested_move'] = null;
+    let suggestedCategoryMerge: ConsolidationResult['suggestions'][number]['suggested_category_merge'] = null;
+    let suggestedRename: ConsolidationResult['suggestions'][number]['suggested_rename'] = null;
+    let suggestedSplit: ThemeSplit | null = null;
+
+    if (isRecordObject(item.suggested_merge) && mainCategory) {
+      const m = item.suggested_merge;
+      let themes: string[] = [];
+      if (Array.isArray(m.themes_to_combine)) themes = m.themes_to_combine.map(coerceText).filter(Boolean);
+      else if (typeof m.themes_to_combine === 'string') {
+        themes = m.themes_to_combine.split(/[,;]/).map(t => t.trim()).filter(Boolean);
+        notes.push('themes_to_combine split from text');
+      }
+      const resolved = themes.map(t => matchExistingName(t, taxonomy[mainCategory]));
+      const unknown = themes.filter((_, idx) => !resolved[idx]);
+      if (unknown.length > 0) notes.push(`unknown sub-themes dropped from merge: ${unknown.join(', ')}`);
+      const known = resolved.filter((t): t is string => !!t);
+      const newName = coerceText(m.new_theme_name);
+      if (known.length === 0 || !newName) problems.push('merge has no existing sub-themes or no new name');
+      else suggestedMerge = { themes_to_combine: known, new_theme_name: newName, reason: coerceText(m.reason) };
+    }
+
+    if (isRecordObject(item.suggested_move)) {
+      const m = item.suggested_move;
+      const current = resolveCategory(m.current_category, 'current_category');
+      const target = resolveCategory(m.target_category, 'target_category');
+      const theme = current ? matchExistingName(coerceText(m.theme), taxonomy[current]) : null;
+      if (current && !theme) problems.push(`sub-theme "${coerceText(m.theme)}" is not in "${current}"`);
+      if (current && target && theme) suggestedMove = { theme, current_category: current, target_category: target, reason: coerceText(m.reason) };
+    }
+
+    if (isRecordObject(item.suggested_category_merge)) {
+      const m = item.suggested_category_merge;
+      const source = resolveCategory(m.source_category, 'source_category');
+      const target = resolveCategory(m.target_category, 'target_category');
+      if (source && target) suggestedCategoryMerge = { source_category: source, target_category: target, reason: coerceText(m.reason) };
+    }
+
+    if (isRecordObject(item.suggested_rename)) {
+      const m = item.suggested_rename;
+      const current = resolveCategory(m.current_name, 'current_name');
+      const newName = coerceText(m.new_name);
+      if (current && !newName) problems.push('rename has no new name');
+      if (current && newName) suggestedRename = { current_name: current, new_name: newName, reason: coerceText(m.reason) };
+    }
+
+    if (isRecordObject(item.suggested_split) && mainCategory) {
+      const m = item.suggested_split;
+      const theme = matchExistingName(coerceText(m.theme), taxonomy[mainCategory]);
+      const listed = theme ? splitCandidates[`${mainCategory}: ${theme}`] : undefined;
+      if (!theme) problems.push(`sub-theme "${coerceText(m.theme)}" is not in "${mainCategory}"`);
+      else if (!listed) problems.push(`"${theme}" was not offered for splitting`);
+      else {
+        const known = new Set(listed.map(c => c.id));
+        const assigned = new Set<string>();
+        let unknownIds = 0;
+        const groups = (Array.isArray(m.new_themes) ? m.new_themes : []).flatMap(g => {
+          if (!isRecordObject(g)) return [];
+          const ids = (Array.isArray(g.paper_ids) ? g.paper_ids.map(coerceText) : []).filter(id => {
+            if (!known.has(id)) { unknownIds++; return false; }
+            return !assigned.has(id); // A paper claimed twice stays in the first group
+          });
+          ids.forEach(id => assigned.add(id));
+          const groupName = coerceText(g.name);
+          return groupName && ids.length > 0 ? [{ name: groupName, paper_ids: ids }] : [];
+        });
+        if (unknownIds > 0) notes.push(`${unknownIds} unknown paper ids dropped from split`);
+        if (assigned.size < listed.length) notes.push(`${listed.length - assigned.size} papers not assigned; they stay in "${theme}"`);
+        if (groups.length < 2) problems.push('split needs at least two new sub-themes with papers');
+        else suggestedSplit = { theme, new_themes: groups, reason: coerceText(m.reason) };
+      }
+    }
+
+    // Each suggestion is reported once: rejected when nothing usable is left, otherwise accepted with its bad fields dropped
+    if (!mainCategory || (!suggestedMerge && !suggestedMove && !suggestedCategoryMerge && !suggestedRename && !suggestedSplit)) {
+      if (problems.length > 0) report.rejected.push({ item: name, reason: problems.join('; ') });
+      return;
+    }
+    const adjustments = [...notes, ...problems.map(p => `dropped: ${p}`)];
+    if (adjustments.length > 0) report.coerced.push({ item: name, reason: adjustments.join('; ') });
+    suggestions.push({
+      main_category: mainCategory,
+      suggested_merge: suggestedMerge,
+      suggested_move: suggestedMove,
+      suggested_category_merge: suggestedCategoryMerge,
+      suggested_rename: suggestedRename,
+      suggested_split: suggestedSplit
+    });
+  });
+
+  const rawStatus = isRecordObject(raw) ? coerceText(raw.status) : '';
+  const status: ConsolidationResult['status'] = suggestions.length > 0 ? 'suggestions_made' : 'no_changes';
+  if (rawStatus && rawStatus !== status) report.coerced.push({ item: 'Response', reason: `status "${rawStatus}" -> ${status}` });
+
+  report.accepted = suggestions.length;
+  return { data: { status, suggestions }, report };
+}
+
+function validateOptimizationResult(raw: unknown, paperIds: string[], label: string): { data: OptimizationResult, report: ValidationReport } {
+  const report = newValidationReport(label);
+  const known = new Set(paperIds);
+  const seen = new Set<string>();
+  const moves: OptimizationResult['moves'] = [];
+  const fields = ['new_category', 'new_theme', 'new_driver', 'new_driver_group', 'new_response', 'new_response_group', 'new_location', 'new_species'] as const;
+
+  extractResponseArray(raw, 'moves', report).forEach((item, i) => {
+    if (!isRecordObject(item)) { report.rejected.push({ item: `Move ${i + 1}`, reason: 'not an object' }); return; }
+    const paperId = coerceText(item.paper_id);
+    if (!paperId) { report.rejected.push({ item: `Move ${i + 1}`, reason: 'missing paper_id' }); return; }
+    if (!known.has(paperId)) { report.rejected.push({ item: paperId, reason: 'paper_id does not match any paper' }); return; }
+    if (seen.has(paperId)) { report.rejected.push({ item: paperId, reason: 'duplicate move for the same paper' }); return; }
+    seen.add(paperId);
+
+    const move: OptimizationResult['moves'][number] = { paper_id: paperId };
+    fields.forEach(f => {
+      const value = coerceText(item[f]);
+      if (value) move[f] = value;
+    });
+    if (typeof item.paper_id !== 'string') report.coerced.push({ item: paperId, reason: 'paper_id converted to text' });
+    moves.push(move);
+  });
+
+  report.accepted = moves.length;
+  return { data: { moves }, report };
+}
+
+function safeJsonParse<T>(jsonString: string): { data: T, wasTruncated: boolean } {
+  let clean = jsonString.replace(/```json/g, '').replace(/```/g, '').trim();
+  let wasTruncated = false;
+  
+  try {
+    return { data: JSON.parse(clean), wasTruncated: false };
+  } catch (e) {
+    console.warn("JSON Parse failed, attempting repair...", e);
+    clean = clean.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
+    if (!clean.endsWith('}')) {
+        wasTruncated = true;
+        const openBraces = (clean.match(/{/g) || []).length;
+        const closeBraces = (clean.match(/}/g) || []).length;
+        const openSquares = (clean.match(/\[/g) || []).length;
+        const closeSquares = (clean.match(/\]/g) || []).length;
+        if (openBraces > closeBraces) clean += '}'.repeat(openBraces - closeBraces);
+        if (openSquares > closeSquares) clean += ']'.repeat(openSquares - closeSquares);
+        if (clean.startsWith('{') && !clean.endsWith('}')) clean += '}';
+    }
+    try {
+      return { data: JSON.parse(clean), wasTruncated };
+    } catch (e2) {
+      console.error("Fatal JSON Parse Error. Raw string:", jsonString);
+      throw new Error("AI returned malformed data (likely truncated).");
+    }
+  }
+}
+
+const trackEvent = (action: string, params = {}) => {
+  if (typeof window !== 'undefined' && (window as any).gtag) {
+    (window as any).gtag('event', action, params);
+  }
+};
+
+class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+class RetryableError extends Error {
+  retryAfterMs?: number; // Server-provided wait (Retry-After header or Gemini RetryInfo)
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+// NEW: Thrown when the user presses Stop; callers must rethrow it instead of treating it as a failed reply
+class CancelledError extends Error {
+  constructor(message: string = "Cancelled.") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// Resolves after `ms`, or rejects with CancelledError as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(new CancelledError()); return; }
+  const onAbort = () => { clearTimeout(timer); reject(new CancelledError()); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// --- Response Schemas ---
+// Sent as Gemini structured output so the model cannot return malformed JSON. Models without JSON mode
+// (Gemma, some custom models) ignore these and rely on the OUTPUT SCHEMA described in each prompt.
+
+const STRING_SCHEMA: ResponseSchema = { type: 'STRING' };
+
+function objectSchema(properties: Record<string, ResponseSchema>, required: string[] = Object.keys(properties), nullable = false): ResponseSchema {
+  return { type: 'OBJECT', properties, propertyOrdering: Object.keys(properties), required, ...(nullable ? { nullable: true } : {}) };
+}
+
+function buildAnalysisSchema(enableSpecies: boolean, thirdLevel: boolean = false): ResponseSchema {
+  const fields: Record<string, ResponseSchema> = {
+    source_id: STRING_SCHEMA,
+    title: STRING_SCHEMA,
+    authors: STRING_SCHEMA,
+    year: STRING_SCHEMA,
+    journal: STRING_SCHEMA,
+    abstract_summary: STRING_SCHEMA,
+    main_category: STRING_SCHEMA,
+    sub_theme: STRING_SCHEMA,
+    ...(thirdLevel ? { sub_sub_theme: STRING_SCHEMA } : {}),
+    driver_variable: STRING_SCHEMA,
+    response_variable: STRING_SCHEMA,
+    effect_direction: { type: 'STRING', format: 'enum', enum: EFFECT_DIRECTIONS },
+    study_location: STRING_SCHEMA,
+    ...(enableSpecies ? { study_species: STRING_SCHEMA } : {}),
+    key_finding: STRING_SCHEMA,
+    impact_keywords: STRING_SCHEMA,
+    short_citation: STRING_SCHEMA
+  };
+  const paper = objectSchema(fields, Object.keys(fields).filter(f => f !== 'source_id' && f !== 'sub_sub_theme'));
+  return objectSchema({ papers: { type: 'ARRAY', items: paper } });
+}
+
+const AUDIT_SCHEMA: ResponseSchema = objectSchema({
+  fixes: {
+    type: 'ARRAY',
+    items: objectSchema({
+      original_category: STRING_SCHEMA,
+      original_theme: STRING_SCHEMA,
+      new_category: STRING_SCHEMA,
+      new_theme: STRING_SCHEMA,
+      reason: STRING_SCHEMA
+    })
+  }
+});
+
+const PLACEMENT_SCHEMA: ResponseSchema = objectSchema({
+  placements: {
+    type: 'ARRAY',
+    items: objectSchema({
+      paper_id: STRING_SCHEMA,
+      main_category: STRING_SCHEMA,
+      sub_theme: STRING_SCHEMA,
+      reason: STRING_SCHEMA
+    })
+  }
+});
+
+const CONSOLIDATION_SCHEMA: ResponseSchema = objectSchema({
+  status: { type: 'STRING', format: 'enum', enum: ['suggestions_made', 'no_changes'] },
+  suggestions: {
+    type: 'ARRAY',
+    items: objectSchema({
+      main_category: STRING_SCHEMA,
+      suggested_merge: objectSchema({
+        themes_to_combine: { type: 'ARRAY', items: STRING_SCHEMA },
+        new_theme_name: STRING_SCHEMA,
+        reason: STRING_SCHEMA
+      }, undefined, true),
+      suggested_move: objectSchema({
+        theme: STRING_SCHEMA,
+        current_category: STRING_SCHEMA,
+        target_category: STRING_SCHEMA,
+        reason: STRING_SCHEMA
+      }, undefined, true),
+      suggested_category_merge: objectSchema({
+        source_category: STRING_SCHEMA,
+        target_category: STRING_SCHEMA,
+        reason: STRING_SCHEMA
+      }, undefined, true),
+      suggested_rename: objectSchema({
+        current_name: STRING_SCHEMA,
+        new_name: STRING_SCHEMA,
+        reason: STRING_SCHEMA
+      }, undefined, true),
+      suggested_split: objectSchema({
+        theme: STRING_SCHEMA,
+        new_themes: {
+          type: 'ARRAY',
+          items: objectSchema({
+            name: STRING_SCHEMA,
+            paper_ids: { type: 'ARRAY', items: STRING_SCHEMA }
+          })
+        },
+        reason: STRING_SCHEMA
+      }, undefined, true)
+    }, ['main_category'])
+  }
+});
+
+const OPTIMIZATION_SCHEMA: ResponseSchema = objectSchema({
+  moves: {
+    type: 'ARRAY',
+    items: objectSchema({
+      paper_id: STRING_SCHEMA,
+      new_category: STRING_SCHEMA,
+      new_theme: STRING_SCHEMA,
+      new_driver: STRING_SCHEMA,
+      new_driver_group: STRING_SCHEMA,
+      new_response: STRING_SCHEMA,
+      new_response_group: STRING_SCHEMA,
+      new_location: STRING_SCHEMA,
+      new_species: STRING_SCHEMA
+    }, ['paper_id'])
+  }
+});
+
+// --- API Logic Functions ---
+
+// --- Response Cache ---
+// Successful replies are stored in IndexedDB keyed by a SHA-256 hash of model + prompts + schema, so
+// re-running an unchanged batch or synthesis after a refresh costs no quota.
+// 'use' reads and writes the cache, 'refresh' skips the read (regenerate), 'off' never touches it.
+type CacheMode = 'use' | 'refresh' | 'off';
+
+interface CachedResponse {
+  key: string;
+  modelId: string;
+  createdAt: number;
+  size: number;
+  response: ProviderResponse;
+}
+
+const APP_DB_NAME = 'ecosynthesis-ai';
+const APP_DB_VERSION = 2; // 2: added the session store
+const RESPONSE_STORE = 'responses';
+const SESSION_STORE = 'sessions';
+const cacheListeners = new Set<() => void>();
+let responseCacheEnabled = true;
+
+function setResponseCacheEnabled(enabled: boolean) {
+  responseCacheEnabled = enabled;
+}
+
+function openAppDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') { reject(new Error("IndexedDB is not available.")); return; }
+    const request = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RESPONSE_STORE)) db.createObjectStore(RESPONSE_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openAppDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function hashCacheKey(parts: unknown[]): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null; // Insecure context: no caching
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readCachedResponse(key: string): Promise<ProviderResponse | null> {
+  try {
+    const entry = await withStore<CachedResponse | undefined>(RESPONSE_STORE, 'readonly', store => store.get(key));
+    return entry ? entry.response : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCachedResponse(key: string, modelId: string, response: ProviderResponse) {
+  const entry: CachedResponse = { key, modelId, createdAt: Date.now(), size: JSON.stringify(response).length, response };
+  try {
+    await withStore(RESPONSE_STORE, 'readwrite', store => store.put(entry));
+    cacheListeners.forEach(listener => listener());
+  } catch (e) {
+    console.warn("Could not write to response cache", e);
+  }
+}
+
+async function getResponseCacheStats(): Promise<{ count: number, bytes: number }> {
+  try {
+    const entries = await withStore<CachedResponse[]>(RESPONSE_STORE, 'readonly', store => store.getAll());
+    return { count: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+  } catch {
+    return { count: 0, bytes: 0 };
+  }
+}
+
+async function clearResponseCache() {
+  await withStore(RESPONSE_STORE, 'readwrite', store => store.clear());
+  cacheListeners.forEach(listener => listener());
+}
+
+function subscribeToCache(listener: () => void): () => void {
+  cacheListeners.add(listener);
+  return () => { cacheListeners.delete(listener); };
+}
+
+// Only replies that can actually be used are cached; a truncated or malformed one must be re-requested
+function isCacheableResponse(response: ProviderResponse, expectsJson: boolean): boolean {
+  const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!text) return false;
+  if (!expectsJson) return true;
+  try {
+    return !safeJsonParse<unknown>(text).wasTruncated;
+  } catch {
+    return false;
+  }
+}
+
+// --- Projects & Session Autosave ---
+// Each project's workspace is written to IndexedDB shortly after every change, so closing the tab no longer
+// loses work. The lightweight project list is kept in localStorage so the header can render it immediately.
+
+const DEFAULT_PROJECT_ID = 'current'; // Id of the single autosaved session from before projects existed
+const PROJECT_INDEX_KEY = 'ecosynthesis-projects';
+const AUTOSAVE_DELAY_MS = 1500;
+
+const newProjectMeta = (id: string, name: string): ProjectMeta => {
+  const now = Date.now();
+  return { id, name, createdAt: now, updatedAt: now, archived: false, paperCount: 0, reviewTopic: '' };
+};
+
+const patchProjectMeta = (index: ProjectIndex, projectId: string, changes: Partial<ProjectMeta>): ProjectIndex =>
+  ({ ...index, projects: index.projects.map(p => p.id === projectId ? { ...p, ...changes } : p) });
+
+function readProjectIndex(): ProjectIndex {
+  try {
+    const stored: ProjectIndex | null = JSON.parse(localStorage.getItem(PROJECT_INDEX_KEY) || 'null');
+    if (stored && stored.projects.some(p => p.id === stored.activeId)) return stored;
+  } catch { /* Corrupt or unavailable storage: fall back to a single project */ }
+  return { activeId: DEFAULT_PROJECT_ID, projects: [newProjectMeta(DEFAULT_PROJECT_ID, 'My Review')] };
+}
+
+function writeProjectIndex(index: ProjectIndex) {
+  try {
+    localStorage.setItem(PROJECT_INDEX_KEY, JSON.stringify(index));
+  } catch { /* Storage unavailable (private mode); projects last for this tab only */ }
+}
+
+async function readSavedSession(projectId: string): Promise<SavedSession | null> {
+  try {
+    const stored = await withStore<SavedSession | undefined>(SESSION_STORE, 'readonly', store => store.get(projectId));
+    // Sessions saved by older versions lack the newer fields
+    return stored ? { ...emptySessionContent(), ...stored } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeSavedSession(projectId: string, session: SessionContent): Promise<number | null> {
+  const savedAt = Date.now();
+  try {
+    await withStore(SESSION_STORE, 'readwrite', store => store.put({ ...session, id: projectId, savedAt }));
+    return savedAt;
+  } catch (e) {
+    console.warn("Autosave failed", e);
+    return null;
+  }
+}
+
+async function clearSavedSession(projectId: string) {
+  try {
+    await withStore(SESSION_STORE, 'readwrite', store => store.delete(projectId));
+  } catch { /* Nothing to clear */ }
+}
+
+// Worth offering to restore: anything beyond an untouched workspace
+const hasSessionContent = (session: SavedSession) =>
+  session.papers.length > 0 || !!session.runCheckpoint || session.chatHistory.some(m => m.role === 'user');
+
+const initialChatHistory = (): ChatMessage[] => [{ role: 'ai', text: 'Ask me anything about the extracted papers! (e.g., "Which studies focused on fire impacts in Canada?"). Note: this is an assistance feature only, and cannot be used as a replacement for scientific review. Do not draw conclusions from this chatbot alone.', timestamp: Date.now() }];
+
+// Workspace of a project that has never been saved
+const emptySessionContent = (): SessionContent => ({
+  reviewTopic: '', selectedModel: MODELS[0].id, enableSpecies: true, papers: [], batchCount: 0, lockedItems: [], rejectedSuggestions: [],
+  isOptimized: false, isTermsNormalized: false, isDriverGrouped: false, isResponseGrouped: false,
+  synthesis: null, bulkSynthesis: null, chatHistory: initialChatHistory(), runCheckpoint: null,
+  sankeyOrder: { drivers: [], responses: [] }, distinctPairKeys: [], taxonomySnapshots: [], reviewAuditFixes: false, useThirdLevel: false, codebook: null,
+  acceptedSuggestions: [], consolidationRound: 0, customModels: []
+});
+
+// --- Project File Format ---
+// Export writes a versioned ProjectFile. Import migrates older versions step by step, then validates every
+// field: values that can be repaired are corrected (warning), unusable ones are dropped (error).
+// Fields added within a version are optional and read with a default, so older files of that version need no
+// migration. Version 2 gained `reviewAuditFixes`, `useThirdLevel`, `codebook`, `taxonomySnapshots`,
+// `acceptedSuggestions` and `consolidationRound`, papers gained `subSubTheme` and `codebookProposal`, and
+// `lockedItems` gained "sub:" keys. Bump the version (and add a migration) when an existing field changes meaning.
+
+const PROJECT_FILE_FORMAT = 'ecosynthesis-project';
+const PROJECT_FILE_VERSION = 2;
+
+// PROJECT_FILE_MIGRATIONS[n] upgrades a version-n file to version n + 1
+const PROJECT_FILE_MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 → v2: the minimal export. Grouping followed normalization and imported structures counted as final.
+  1: (file) => ({
+    ...file,
+    format: PROJECT_FILE_FORMAT,
+    isOptimized: true,
+    isDriverGrouped: !!file.isTermsNormalized,
+    isResponseGrouped: !!file.isTermsNormalized
+  })
+};
+
+function buildProjectFile(projectName: string, content: SessionContent): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    formatVersion: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    projectName,
+    ...content
+  };
+}
+
+const describeValue = (value: unknown) => Array.isArray(value) ? 'a list' : value === null ? 'null' : typeof value;
+
+function readText(obj: Record<string, unknown>, key: string, path: string, fallback: string, problems: ProjectFileProblem[]): string {
+  const value = obj[key];
+  if (value === undefined || value === null) return fallback;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  problems.push({ field: path ? `${path}.${key}` : key, message: `Expected text, found ${describeValue(value)}; using "${fallback}".`, severity: 'warning' });
+  return fallback;
+}
+
+function readBoolean(obj: Record<string, unknown>, key: string, fallback: boolean, problems: ProjectFileProblem[]): boolean {
+  const value = obj[key];
+  if (value === undefined) return fallback;
+  if (typeof value === 'boolean') return value;
+  problems.push({ field: key, message: `Expected true/false, found ${describeValue(value)}; using ${fallback}.`, severity: 'warning' });
+  return fallback;
+}
+
+// Optional limits and prices: a missing value stays unset, a value below `min` is reported and dropped
+function readNumber(obj: Record<string, unknown>, key: string, path: string, min: number, problems: ProjectFileProblem[]): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value) && value >= min) return value;
+  problems.push({ field: path ? `${path}.${key}` : key, message: `Expected a number of at least ${min}, found ${typeof value === 'number' ? value : describeValue(value)}; ignored.`, severity: 'warning' });
+  return undefined;
+}
+
+function readStringList(value: unknown, field: string, problems: ProjectFileProblem[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    problems.push({ field, message: `Expected a list, found ${describeValue(value)}; ignored.`, severity: 'error' });
+    return [];
+  }
+  const strings = value.filter((v): v is string => typeof v === 'string');
+  if (strings.length < value.length) problems.push({ field, message: `${value.length - strings.length} entries that are not text were dropped.`, severity: 'error' });
+  return strings;
+}
+
+function readPaper(raw: unknown, path: string, seenIds: Set<string>, problems: ProjectFileProblem[]): Paper | null {
+  if (!isRecordObject(raw)) {
+    problems.push({ field: path, message: `Expected a paper, found ${describeValue(raw)}; dropped.`, severity: 'error' });
+    return null;
+  }
+  const title = readText(raw, 'title', path, '', problems).trim();
+  if (!title) {
+    problems.push({ field: `${path}.title`, message: "Paper has no title; dropped.", severity: 'error' });
+    return null;
+  }
+  let id = readText(raw, 'id', path, '', problems);
+  if (!id || seenIds.has(id)) {
+    const newId = `imported-${seenIds.size}-${Date.now()}`;
+    problems.push({ field: `${path}.id`, message: id ? `Duplicate id "${id}"; renamed to "${newId}".` : `Missing id; assigned "${newId}".`, severity: 'warning' });
+    id = newId;
+  }
+  seenIds.add(id);
+
+  const required = (key: 'category' | 'theme', fallback: string) => {
+    const value = readText(raw, key, path, '', problems).trim();
+    if (!value) problems.push({ field: `${path}.${key}`, message: `Missing; set to "${fallback}".`, severity: 'warning' });
+    return value || fallback;
+  };
+
+  let effectDirection = coerceEffectDirection(raw.effectDirection);
+  if (!effectDirection) {
+    problems.push({ field: `${path}.effectDirection`, message: `Unknown value "${coerceText(raw.effectDirection)}"; set to "Unclear".`, severity: 'warning' });
+    effectDirection = 'Unclear';
+  }
+  const driver = readText(raw, 'driver', path, 'Unspecified', problems);
+  const response = readText(raw, 'response', path, 'Unspecified', problems);
+  const batchId = typeof raw.batchId === 'number' ? raw.batchId : Number(raw.batchId) || 0;
+
+  return {
+    id,
+    title,
+    abstractSnippet: readText(raw, 'abstractSnippet', path, '', problems),
+    category: required('category', 'Uncategorized'),
+    theme: required('theme', 'General'),
+    subSubTheme: readText(raw, 'subSubTheme', path, '', problems).trim() || undefined,
+    driver,
+    driverGroup: readText(raw, 'driverGroup', path, driver, problems),
+    response,
+    responseGroup: readText(raw, 'responseGroup', path, response, problems),
+    effectDirection,
+    keyFinding: readText(raw, 'keyFinding', path, '', problems),
+    impactKeywords: readText(raw, 'impactKeywords', path, '', problems),
+    location: readText(raw, 'location', path, 'Unspecified', problems),
+    species: readText(raw, 'species', path, 'Unspecified', problems),
+    batchId,
+    authors: readText(raw, 'authors', path, '', problems),
+    year: readText(raw, 'year', path, '', problems),
+    journal: readText(raw, 'journal', path, '', problems),
+    shortCitation: readText(raw, 'shortCitation', path, '', problems),
+    modelUsed: readText(raw, 'modelUsed', path, '', problems) || undefined,
+    doi: readText(raw, 'doi', path, '', problems) || undefined,
+    codebookProposal: raw.codebookProposal === true || undefined
+  };
+}
+
+function readSynthesisResult(raw: unknown, field: string, problems: ProjectFileProblem[]): SynthesisResult | null {
+  const summary = isRecordObject(raw) ? raw.summary : undefined;
+  if (!isRecordObject(raw) || !(typeof summary === 'string' || (Array.isArray(summary) && summary.every(s => typeof s === 'string')))) {
+    problems.push({ field, message: "Not a synthesis result (needs a text or list summary); dropped.", severity: 'error' });
+    return null;
+  }
+  return {
+    summary,
+    contradictionAnalysis: readText(raw, 'contradictionAnalysis', field, '', problems),
+    modelUsed: readText(raw, 'modelUsed', field, '', problems) || undefined
+  };
+}
+
+function readChatHistory(value: unknown, problems: ProjectFileProblem[]): ChatMessage[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    problems.push({ field: 'chatHistory', message: `Expected a list, found ${describeValue(value)}; ignored.`, severity: 'error' });
+    return [];
+  }
+  const messages = value.filter((m): m is ChatMessage => isRecordObject(m) && (m.role === 'user' || m.role === 'ai') && typeof m.text === 'string')
+    .map(m => ({ role: m.role, text: m.text, timestamp: typeof m.timestamp === 'number' ? m.timestamp : 0 }));
+  if (messages.length < value.length) problems.push({ field: 'chatHistory', message: `${value.length - messages.length} malformed messages were dropped.`, severity: 'error' });
+  return messages;
+}
+
+function readTaxonomySnapshots(value: unknown, problems: ProjectFileProblem[]): TaxonomySnapshot[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    problems.push({ field: 'taxonomySnapshots', message: `Expected a list, found ${describeValue(value)}; ignored.`, severity: 'error' });
+    return [];
+  }
+  const isPlacement = (p: unknown) => isRecordObject(p) && typeof p.id === 'string' && typeof p.category === 'string' && typeof p.theme === 'string';
+  return value.flatMap((snap, i): TaxonomySnapshot[] => {
+    if (!isRecordObject(snap) || !Array.isArray(snap.papers) || !snap.papers.every(isPlacement)) {
+      problems.push({ field: `taxonomySnapshots[${i}]`, message: "Snapshot is malformed; dropped.", severity: 'error' });
+      return [];
+    }
+    const placements = snap.papers as TaxonomySnapshotPaper[];
+    return [{
+      id: typeof snap.id === 'string' ? snap.id : `snap-imported-${i}`,
+      name: readText(snap, 'name', `taxonomySnapshots[${i}]`, `Snapshot ${i + 1}`, problems),
+      createdAt: typeof snap.createdAt === 'number' ? snap.createdAt : Date.now(),
+      papers: placements.map(p => ({ id: p.id, title: typeof p.title === 'string' ? p.title : '', category: p.category, theme: p.theme, subSubTheme: typeof p.subSubTheme === 'string' && p.subSubTheme ? p.subSubTheme : undefined }))
+    }];
+  });
+}
+
+function readAcceptedSuggestions(value: unknown, problems: ProjectFileProblem[]): AcceptedSuggestion[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    problems.push({ field: 'acceptedSuggestions', message: `Expected a list, found ${describeValue(value)}; ignored.`, severity: 'warning' });
+    return [];
+  }
+  const isEdge = (e: unknown) => isRecordObject(e) && typeof e.from === 'string' && typeof e.to === 'string';
+  return value.flatMap((a, i): AcceptedSuggestion[] => {
+    if (!isRecordObject(a) || typeof a.signature !== 'string' || !Array.isArray(a.edges) || !a.edges.every(isEdge)) {
+      problems.push({ field: `acceptedSuggestions[${i}]`, message: "Entry is malformed; dropped.", severity: 'warning' });
+      return [];
+    }
+    return [{ signature: a.signature, round: typeof a.round === 'number' ? a.round : 0, edges: (a.edges as SectionEdge[]).map(e => ({ from: e.from, to: e.to })) }];
+  });
+}
+
+function readCodebook(value: unknown, problems: ProjectFileProblem[]): Codebook | null {
+  if (value === undefined || value === null) return null;
+  if (!isRecordObject(value) || !Array.isArray(value.entries)) {
+    problems.push({ field: 'codebook', message: `Expected a codebook with an entries list, found ${describeValue(value)}; ignored.`, severity: 'error' });
+    return null;
+  }
+  const entries = value.entries.flatMap((e, i): CodebookEntry[] => {
+    if (!isRecordObject(e) || typeof e.category !== 'string' || typeof e.theme !== 'string' || !e.category || !e.theme) {
+      problems.push({ field: `codebook.entries[${i}]`, message: "Entry needs a category and a sub-theme; dropped.", severity: 'warning' });
+      return [];
+    }
+    return [{ category: e.category, theme: e.theme, definition: typeof e.definition === 'string' ? e.definition : '', examples: Array.isArray(e.examples) ? e.examples.filter((x): x is string => typeof x === 'string') : [] }];
+  });
+  return { mode: value.mode === 'seeded' ? 'seeded' : 'strict', entries };
+}
+
+function readRunCheckpoint(value: unknown, problems: ProjectFileProblem[]): RunCheckpoint | null {
+  if (value === undefined || value === null) return null;
+  const isRecord = (r: unknown) => isRecordObject(r) && typeof r.id === 'string' && typeof r.text === 'string' && typeof r.label === 'string';
+  const valid = isRecordObject(value) && typeof value.nextBatch === 'number' && Array.isArray(value.batches)
+    && value.batches.every(b => isRecordObject(b) && Array.isArray(b.records) && b.records.every(isRecord))
+    && value.nextBatch <= value.batches.length;
+  if (!valid) {
+    problems.push({ field: 'runCheckpoint', message: "The interrupted extraction run is malformed and cannot be resumed; dropped.", severity: 'error' });
+    return null;
+  }
+  const checkpoint = value as unknown as RunCheckpoint;
+  // Files saved before `processed` was tracked only checkpointed finished batches
+  const coverage = isRecordObject(checkpoint.coverage) ? { ...checkpoint.coverage, processed: typeof checkpoint.coverage.processed === 'number' ? checkpoint.coverage.processed : checkpoint.coverage.totalRecords } : null;
+  return { ...checkpoint, batchCount: Number(checkpoint.batchCount) || 0, coverage, skipAudit: checkpoint.skipAudit === true };
+}
+
+function readCustomModels(value: unknown, problems: ProjectFileProblem[]): ModelConfig[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw, i): ModelConfig[] => {
+    const field = `customModels[${i}]`;
+    if (!isRecordObject(raw) || typeof raw.id !== 'string' || typeof raw.baseUrl !== 'string' || (raw.backend !== 'openai' && raw.backend !== 'ollama')) {
+      problems.push({ field, message: "Needs an id, a base URL and an 'openai' or 'ollama' backend; dropped.", severity: 'error' });
+      return [];
+    }
+    const authStyle: AuthStyle = raw.authStyle === 'bearer' || raw.authStyle === 'none' ? raw.authStyle : PROVIDER_DEFAULTS[raw.backend].authStyle;
+    return [{
+      id: raw.id,
+      model: readText(raw, 'model', field, '', problems) || undefined,
+      name: readText(raw, 'name', field, raw.id, problems),
+      desc: readText(raw, 'desc', field, `Custom model served from ${raw.baseUrl}.`, problems),
+      type: 'custom',
+      backend: raw.backend,
+      baseUrl: raw.baseUrl,
+      authStyle,
+      supportsJsonMode: raw.supportsJsonMode !== false,
+      supportsSystemPrompt: raw.supportsSystemPrompt !== false,
+      batchTokenBudget: readNumber(raw, 'batchTokenBudget', field, 1, problems) ?? 6000,
+      rpm: readNumber(raw, 'rpm', field, 1, problems),
+      rpd: readNumber(raw, 'rpd', field, 1, problems),
+      maxConcurrency: typeof raw.maxConcurrency === 'number' ? Math.max(1, Math.min(8, Math.round(raw.maxConcurrency))) : 1,
+      inputPricePerMillion: readNumber(raw, 'inputPricePerMillion', field, 0, problems),
+      outputPricePerMillion: readNumber(raw, 'outputPricePerMillion', field, 0, problems)
+    }];
+  });
+}
+
+// Throws only when nothing can be imported; everything else is reported in `problems`
+function parseProjectFile(text: string, fileName: string): ProjectFileImport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecordObject(raw)) throw new Error("The file does not contain a project.");
+  if (raw.format !== undefined && raw.format !== PROJECT_FILE_FORMAT) throw new Error(`Unknown file format "${coerceText(raw.format)}".`);
+
+  const sourceVersion = typeof raw.formatVersion === 'number' ? raw.formatVersion : 1;
+  if (sourceVersion > PROJECT_FILE_VERSION) throw new Error(`The file uses format version ${sourceVersion}, but this version of the tool only reads up to ${PROJECT_FILE_VERSION}. Please update the tool.`);
+  let file = raw;
+  for (let v = sourceVersion; v < PROJECT_FILE_VERSION; v++) file = PROJECT_FILE_MIGRATIONS[v](file);
+
+  if (!Array.isArray(file.papers)) throw new Error("The file has no 'papers' list.");
+
+  const problems: ProjectFileProblem[] = [];
+  const seenIds = new Set<string>();
+  const papers = file.papers.map((p, i) => readPaper(p, `papers[${i}]`, seenIds, problems)).filter((p): p is Paper => p !== null);
+  const customModels = readCustomModels(file.customModels, problems);
+  const defaults = emptySessionContent();
+
+  let selectedModel = readText(file, 'selectedModel', '', defaults.selectedModel, problems);
+  if (![...MODELS, ...customModels].some(m => m.id === selectedModel)) {
+    problems.push({ field: 'selectedModel', message: `Model "${selectedModel}" is not available; using ${MODELS[0].name}.`, severity: 'warning' });
+    selectedModel = defaults.selectedModel;
+  }
+
+  let synthesis: SessionContent['synthesis'] = null;
+  if (isRecordObject(file.synthesis)) {
+    const result = readSynthesisResult(file.synthesis.result, 'synthesis.result', problems);
+    if (result) synthesis = { themeKey: readText(file.synthesis, 'themeKey', 'synthesis', '', problems), result };
+  }
+
+  let bulkSynthesis: SessionContent['bulkSynthesis'] = null;
+  if (isRecordObject(file.bulkSynthesis) && Array.isArray(file.bulkSynthesis.results)) {
+    const results = file.bulkSynthesis.results.flatMap((section, i): BulkSynthesisSection[] => {
+      const field = `bulkSynthesis.results[${i}]`;
+      if (!isRecordObject(section) || typeof section.category !== 'string') {
+        problems.push({ field, message: "Section has no category; dropped.", severity: 'error' });
+        return [];
+      }
+      const result = readSynthesisResult(section.result, `${field}.result`, problems);
+      return result ? [{ category: section.category, theme: typeof section.theme === 'string' ? section.theme : undefined, result }] : [];
+    });
+    bulkSynthesis = { type: file.bulkSynthesis.type === 'main' ? 'main' : 'sub', results };
+  }
+
+  const sankey = isRecordObject(file.sankeyOrder) ? file.sankeyOrder : {};
+  const content: SessionContent = {
+    reviewTopic: readText(file, 'reviewTopic', '', '', problems),
+    selectedModel,
+    enableSpecies: readBoolean(file, 'enableSpecies', true, problems),
+    papers,
+    batchCount: typeof file.batchCount === 'number' ? file.batchCount : papers.reduce((max, p) => Math.max(max, p.batchId), 0),
+    lockedItems: readStringList(file.lockedItems, 'lockedItems', problems),
+    rejectedSuggestions: readStringList(file.rejectedSuggestions, 'rejectedSuggestions', problems),
+    isOptimized: readBoolean(file, 'isOptimized', papers.length > 0, problems),
+    isTermsNormalized: readBoolean(file, 'isTermsNormalized', false, problems),
+    isDriverGrouped: readBoolean(file, 'isDriverGrouped', false, problems),
+    isResponseGrouped: readBoolean(file, 'isResponseGrouped', false, problems),
+    synthesis,
+    bulkSynthesis,
+    chatHistory: readChatHistory(file.chatHistory, problems),
+    runCheckpoint: readRunCheckpoint(file.runCheckpoint, problems),
+    sankeyOrder: { drivers: readStringList(sankey.drivers, 'sankeyOrder.drivers', problems), responses: readStringList(sankey.responses, 'sankeyOrder.responses', problems) },
+    distinctPairKeys: readStringList(file.distinctPairKeys, 'distinctPairKeys', problems),
+    taxonomySnapshots: readTaxonomySnapshots(file.taxonomySnapshots, problems),
+    reviewAuditFixes: readBoolean(file, 'reviewAuditFixes', false, problems),
+    useThirdLevel: readBoolean(file, 'useThirdLevel', false, problems),
+    codebook: readCodebook(file.codebook, problems),
+    acceptedSuggestions: readAcceptedSuggestions(file.acceptedSuggestions, problems),
+    consolidationRound: typeof file.consolidationRound === 'number' ? file.consolidationRound : 0,
+    customModels
+  };
+
+  return {
+    fileName,
+    projectName: readText(file, 'projectName', '', '', problems) || fileName.replace(/\.json$/i, ''),
+    sourceVersion,
+    content,
+    problems
+  };
+}
+
+// --- Project Merge ---
+// Papers are matched by id (both files usually descend from one export), then like duplicate detection:
+// same paper by DOI/title/author-year, paired one-to-one by the most similar finding.
+
+const MERGE_FIELDS: { field: MergeField, label: string }[] = [
+  { field: 'category', label: 'Main Category' },
+  { field: 'theme', label: 'Sub-Theme' },
+  { field: 'subSubTheme', label: 'Sub-Sub-Theme' },
+  { field: 'driver', label: 'Driver' },
+  { field: 'response', label: 'Response' },
+  { field: 'effectDirection', label: 'Effect' },
+  { field: 'keyFinding', label: 'Key Finding / Notes' }
+];
+
+function planProjectMerge(localPapers: Paper[], incoming: ProjectFileImport): ProjectMerge {
+  const localById = new Map(localPapers.map(p => [p.id, p]));
+  const matched: ProjectMerge['matched'] = [];
+  const usedLocal = new Set<string>();
+  const unmatchedIncoming: Paper[] = [];
+
+  incoming.content.papers.forEach(p => {
+    if (localById.has(p.id)) { matched.push({ localId: p.id, incomingId: p.id, reason: 'Same id' }); usedLocal.add(p.id); }
+    else unmatchedIncoming.push(p);
+  });
+
+  const candidates: { local: Paper, incoming: Paper, reason: string, score: number }[] = [];
+  unmatchedIncoming.forEach(inc => localPapers.forEach(loc => {
+    if (usedLocal.has(loc.id)) return;
+    const reason = samePaperReason(loc, inc);
+    const score = reason ? findingSimilarity(loc, inc) : 0;
+    if (reason && score >= 0.5) candidates.push({ local: loc, incoming: inc, reason, score });
+  }));
+  const usedIncoming = new Set<string>();
+  candidates.sort((a, b) => b.score - a.score).forEach(c => {
+    if (usedLocal.has(c.local.id) || usedIncoming.has(c.incoming.id)) return;
+    usedLocal.add(c.local.id); usedIncoming.add(c.incoming.id);
+    matched.push({ localId: c.local.id, incomingId: c.incoming.id, reason: c.reason });
+  });
+
+  const incomingById = new Map(incoming.content.papers.map(p => [p.id, p]));
+  const conflicts: MergeConflict[] = [];
+  let filled = 0;
+  matched.forEach(({ localId, incomingId }) => {
+    const loc = localById.get(localId)!; const inc = incomingById.get(incomingId)!;
+    MERGE_FIELDS.forEach(({ field }) => {
+      const a = (loc[field] || '').trim(); const b = (inc[field] || '').trim();
+      if (a === b || isBlankField(b)) return;
+      if (isBlankField(a)) { filled++; return; }
+      conflicts.push({ id: `${localId}|${field}`, localId, incomingId, field, title: loc.title, local: a, incoming: b });
+    });
+  });
+
+  return { id: `merge-${Date.now()}`, incoming, matched, filled, conflicts, added: unmatchedIncoming.filter(p => !usedIncoming.has(p.id)) };
+}
+
+// choices: conflict id → 'incoming' to take the other file's value (the workspace value is kept otherwise)
+function applyProjectMerge(localPapers: Paper[], merge: ProjectMerge, choices: Record<string, 'local' | 'incoming'>): Paper[] {
+  const incomingById = new Map(merge.incoming.content.papers.map(p => [p.id, p]));
+  const counterpart = new Map(merge.matched.map(m => [m.localId, incomingById.get(m.incomingId)!]));
+  const merged = localPapers.map(p => {
+    const inc = counterpart.get(p.id);
+    if (!inc) return p;
+    const next = { ...p };
+    MERGE_FIELDS.forEach(({ field }) => {
+      const conflictChoice = choices[`${p.id}|${field}`];
+      const takeIncoming = conflictChoice ? conflictChoice === 'incoming' : isBlankField(p[field]) && !isBlankField(inc[field]);
+      if (takeIncoming) (next as Record<MergeField, string | undefined>)[field] = inc[field];
+    });
+    if (!next.doi && inc.doi) next.doi = inc.doi;
+    return next;
+  });
+  const ids = new Set(merged.map(p => p.id));
+  const added = merge.added.map((p, i) => ids.has(p.id) ? { ...p, id: `${p.id}-merged-${i}` } : p);
+  return [...merged, ...added];
+}
+
+// --- Request Scheduler ---
+// Every AI call goes through scheduleRequest: requests are queued per model so they respect its per-minute
+// limit and concurrency, rate-limit/overload errors are retried in one place (honouring Retry-After),
+// and each request counts towards the day's usage.
+
+interface SchedulerState {
+  active: number;
+  recent: number[];      // Start times of requests in the last minute
+  blockedUntil: number;  // Set by Retry-After / backoff; pauses every queued request for the model
+}
+
+const schedulerStates = new Map<string, SchedulerState>();
+const usageListeners = new Set<() => void>();
+const DAILY_USAGE_KEY = 'ecosynthesis-daily-usage';
+const MAX_TRANSPORT_RETRIES = 5;
+
+function getSchedulerState(modelId: string): SchedulerState {
+  let state = schedulerStates.get(modelId);
+  if (!state) {
+    state = { active: 0, recent: [], blockedUntil: 0 };
+    schedulerStates.set(modelId, state);
+  }
+  return state;
+}
+
+// Free-tier quotas reset at midnight Pacific Time
+function quotaDay(): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+function readDailyUsage(): Record<string, number> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DAILY_USAGE_KEY) || 'null');
+    return stored && stored.day === quotaDay() ? stored.counts : {};
+  } catch {
+    return {};
+  }
+}
+
+function getDailyUsage(modelId: string): number {
+  return readDailyUsage()[modelId] || 0;
+}
+
+function recordDailyUsage(modelId: string) {
+  const counts = readDailyUsage();
+  counts[modelId] = (counts[modelId] || 0) + 1;
+  try {
+    localStorage.setItem(DAILY_USAGE_KEY, JSON.stringify({ day: quotaDay(), counts }));
+  } catch { /* Storage unavailable (private mode); usage is simply not tracked */ }
+  usageListeners.forEach(listener => listener());
+}
+
+function subscribeToUsage(listener: () => void): () => void {
+  usageListeners.add(listener);
+  return () => { usageListeners.delete(listener); };
+}
+
+async function acquireSlot(model: ModelConfig, onStatusUpdate?: (msg: string) => void, signal?: AbortSignal) {
+  const state = getSchedulerState(model.id);
+  while (true) {
+    const now = Date.now();
+    state.recent = state.recent.filter(t => now - t < 60000);
+    let waitMs = 0;
+    if (state.blockedUntil > now) waitMs = state.blockedUntil - now;
+    else if (model.rpm && state.recent.length >= model.rpm) waitMs = 60000 - (now - state.recent[0]) + 100;
+    else if (state.active >= model.maxConcurrency) waitMs = 200;
+
+    if (waitMs === 0) {
+      state.active++;
+      state.recent.push(now);
+      recordDailyUsage(model.id);
+      return;
+    }
+    if (waitMs > 1000) onStatusUpdate?.(`⏳ Waiting ${Math.ceil(waitMs / 1000)}s for the ${model.name} rate limit...`);
+    await wait(Math.min(waitMs, 1000), signal);
+  }
+}
+
+async function scheduleRequest<T>(model: ModelConfig, send: () => Promise<T>, onStatusUpdate?: (msg: string) => void, signal?: AbortSignal): Promise<T> {
+  let attempt = 0;
+  while (true) {
+    await acquireSlot(model, onStatusUpdate, signal);
+    try {
+      return await send();
+    } catch (error) {
+      // An aborted fetch (or body read) rejects with a DOMException; report it as a cancellation, never retry it
+      throwIfCancelled(signal);
+      if (!(error instanceof RetryableError) || attempt >= MAX_TRANSPORT_RETRIES) throw error;
+      attempt++;
+      const delay = error.retryAfterMs ?? Math.pow(2, attempt) * 1000 + Math.random() * 1000;
+      const state = getSchedulerState(model.id);
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+      onStatusUpdate?.(`⚠️ ${error.message}. Retrying in ${Math.round(delay / 1000)}s... (${attempt}/${MAX_TRANSPORT_RETRIES})`);
+    } finally {
+      getSchedulerState(model.id).active--;
+    }
+  }
+}
+
+// Runs one task per item with at most `limit` in flight, so a long bulk run does not queue every request
+// up front. Like Promise.allSettled, a failed task does not discard the results of the others.
+async function runQueued<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+// Summary of the sections that failed in a bulk run; quota and key errors also stop the sections still waiting
+function bulkFailureMessage(settled: PromiseSettledResult<unknown>[], unit: string): string | null {
+  const failures = settled.flatMap(r => r.status === 'rejected' && !(r.reason instanceof CancelledError) ? [r.reason as Error] : []);
+  if (failures.length === 0) return null;
+  return `Synthesis failed for ${failures.length} of the ${unit}; the others were kept. ${failures[0].message}`;
+}
+
+// Retry-After header (seconds or HTTP date), falling back to Gemini's RetryInfo detail ("37s")
+function parseRetryAfter(response: Response, errData: ProviderErrorBody | null): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const details = typeof errData?.error === 'object' ? errData.error.details : undefined;
+  const match = details?.find(d => typeof d.retryDelay === 'string')?.retryDelay?.match(/^([\d.]+)s$/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+}
+
+// Key sent with requests for the selected model. Servers without auth get a placeholder so the
+// "API key required" guards in the UI still pass.
+function resolveApiKey(model: ModelConfig, googleApiKey: string): string {
+  if (model.backend === 'gemini') return googleApiKey;
+  if (model.authStyle === 'none') return model.apiKey || 'no-auth';
+  return model.apiKey || '';
+}
+
+function buildProviderRequest(
+  model: ModelConfig,
+  apiKey: string,
+  systemPrompt: string,
+  userPrompt: string,
+  wantsJson: boolean,
+  schema: ResponseSchema | null
+): { url: string, init: RequestInit } {
+  const baseUrl = model.baseUrl.replace(/\/+$/, '');
+  const modelName = model.model || model.id;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (model.authStyle === 'bearer' && apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const combinedPrompt = `*** SYSTEM INSTRUCTIONS ***\n${systemPrompt}\n\n*** USER TASK ***\n${userPrompt}`;
+
+  if (model.backend === 'gemini') {
+    const body: Record<string, unknown> & { contents: object[] } = {
+      contents: [],
+      generationConfig: {
+        responseMimeType: wantsJson ? "application/json" : "text/plain",
+        ...(wantsJson && schema ? { responseSchema: schema } : {})
+      }
+    };
+    if (model.supportsSystemPrompt) {
+      body.systemInstruction = { parts: [{ text: systemPrompt }] };
+      body.contents.push({ parts: [{ text: userPrompt }] });
+    } else {
+      body.contents.push({ role: 'user', parts: [{ text: combinedPrompt }] });
+    }
+    const keyParam = model.authStyle === 'query-key' ? `?key=${apiKey}` : '';
+    return {
+      url: `${baseUrl}/models/${modelName}:generateContent${keyParam}`,
+      init: { method: 'POST', headers, body: JSON.stringify(body) }
+    };
+  }
+
+  const messages = model.supportsSystemPrompt
+    ? [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }]
+    : [{ role: 'user', content: combinedPrompt }];
+
+  if (model.backend === 'ollama') {
+    const body: Record<string, unknown> = { model: modelName, messages, stream: false };
+    if (wantsJson) body.format = 'json';
+    return { url: `${baseUrl}/api/chat`, init: { method: 'POST', headers, body: JSON.stringify(body) } };
+  }
+
+  const body: Record<string, unknown> = { model: modelName, messages };
+  if (wantsJson) body.response_format = { type: 'json_object' };
+  return { url: `${baseUrl}/chat/completions`, init: { method: 'POST', headers, body: JSON.stringify(body) } };
+}
+
+// Callers read `candidates[0].content.parts[0].text`, so other providers are wrapped in Gemini's envelope
+function toGeminiEnvelope(model: ModelConfig, data: ProviderResponse): ProviderResponse {
+  if (model.backend === 'gemini') return data;
+  const text = model.backend === 'ollama'
+    ? data?.message?.content
+    : data?.choices?.[0]?.message?.content;
+  return { candidates: [{ content: { parts: [{ text: text ?? '' }] } }] };
+}
+
+async function fetchAI(
+  model: ModelConfig, 
+  apiKey: string, 
+  systemPrompt: string, 
+  userPrompt: string,
+  responseSchema: ResponseSchema | boolean | null = null, // true = JSON without a fixed shape
+  onStatusUpdate?: (msg: string) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal // Aborting cancels the network request and any rate-limit or retry wait
+): Promise<any> {
+  throwIfCancelled(signal);
+  const wantsJson = !!responseSchema && model.supportsJsonMode;
+  const schema = typeof responseSchema === 'object' ? responseSchema : null;
+  const { url, init } = buildProviderRequest(model, apiKey, systemPrompt, userPrompt, wantsJson, schema);
+
+  const cacheKey = responseCacheEnabled && cacheMode !== 'off'
+    ? await hashCacheKey([model.backend, model.baseUrl, model.model || model.id, systemPrompt, userPrompt, schema])
+    : null;
+  if (cacheKey && cacheMode === 'use') {
+    const cached = await readCachedResponse(cacheKey);
+    if (cached) {
+      onStatusUpdate?.("Using cached response...");
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  const data = await scheduleRequest(model, async () => {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch {
+      throwIfCancelled(signal);
+      // fetch only rejects on network/CORS failures; for local servers this usually means they are not running
+      throw new RetryableError(`Could not reach ${model.baseUrl}. Check that the server is running and allows requests from this page (CORS)`);
+    }
+
+    if (!response.ok) {
+      const status = response.status;
+      let errMessage = `API Error: ${status}`;
+      let errData: ProviderErrorBody | null = null;
+      try {
+        errData = await response.json();
+        errMessage = (typeof errData?.error === 'string' ? errData.error : errData?.error?.message) || errMessage;
+      } catch {}
+
+      if (status === 401 || status === 403) throw new ApiKeyError("Invalid API Key or Permission Denied.");
+      // Gemini reports bad keys as a 400 with reason API_KEY_INVALID; any other 400 is a rejected request
+      // (e.g. a response schema or an unknown model), so the API's own message is shown
+      const errorDetails = typeof errData?.error === 'object' ? errData.error.details || [] : [];
+      if (status === 400 && (errorDetails.some(d => d.reason === 'API_KEY_INVALID') || /API_KEY_INVALID|API key not valid/i.test(errMessage))) throw new ApiKeyError("Invalid API Key or Permission Denied.");
+      if (status === 503) throw new RetryableError("Model Overloaded (503)", parseRetryAfter(response, errData));
+      if (status === 500 || status === 502 || status === 504) throw new RetryableError(`Server Error (${status})`);
+      
+      if (status === 429) {
+        const msg = errMessage.toLowerCase();
+        if (msg.includes('quota') || msg.includes('exhausted')) {
+           // Gemini also says "quota" for per-minute limits; its QuotaFailure details name the daily one
+           const isDaily = /per ?day/.test(msg) || errorDetails.some(d => d.violations?.some(v => /PerDay/i.test(v.quotaId || '')));
+           const retryAfter = parseRetryAfter(response, errData);
+           if (!isDaily && retryAfter !== undefined) throw new RetryableError("Rate Limit Hit (RPM)", retryAfter);
+           throw new QuotaExceededError("Daily Quota Exceeded."); 
+        } else {
+           throw new RetryableError("Rate Limit Hit (RPM)", parseRetryAfter(response, errData));
+        }
+      }
+      throw new Error(errMessage);
+    }
+
+    const data = toGeminiEnvelope(model, await response.json());
+    // An empty reply (e.g. a dropped generation) is retried like an overload rather than failing the batch
+    if (!data?.candidates?.[0]?.content?.parts?.[0]?.text) throw new RetryableError("No data returned from AI");
+    return data;
+  }, onStatusUpdate, signal);
+
+  if (cacheKey && isCacheableResponse(data, !!responseSchema)) await writeCachedResponse(cacheKey, model.id, data);
+  return data;
+}
+
+// NEW: Helper to verify move suggestion with more papers
+async function verifyMoveWithGemini(
+    theme: string,
+    currentCat: string,
+    targetCat: string,
+    titles: string[],
+    key: string,
+    model: ModelConfig,
+    onStatusUpdate: (msg: string) => void
+): Promise<{ isValid: boolean, reason: string }> {
+    const systemPrompt = `
+      You are a strict data auditor.
+      TASK: Verify if the sub-theme "${theme}" (currently in "${currentCat}") truly belongs in "${targetCat}".
+      
+      EVIDENCE: Here are paper titles from this sub-theme:
+      ${titles.map(t => `- ${t}`).join('\n')}
+      
+      INSTRUCTIONS:
+      - If the papers generally fit the definition of "${targetCat}" better than "${currentCat}", return isValid: true.
+      - If the papers are mixed or actually fit "${currentCat}" fine, return isValid: false.
+      - Provide a concise reason citing specific patterns in the titles.
+      
+      OUTPUT JSON: { "isValid": boolean, "reason": "..." }
+    `;
+    
+    onStatusUpdate("Verifying with expanded paper list...");
+    const data = await fetchAI(model, key, systemPrompt, "Verify this move.", true);
+    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const parsed = safeJsonParse<{ isValid: boolean, reason: string }>(textResponse);
+    return parsed.data;
+}
+
+// NEW: Helper to generate reverse suggestion
+async function reverseSuggestionWithGemini(
+    sourceCat: string,
+    targetCat: string,
+    key: string,
+    model: ModelConfig,
+    onStatusUpdate: (msg: string) => void
+): Promise<{ reason: string }> {
+    const systemPrompt = `
+      You are an expert taxonomist.
+      CONTEXT: It was suggested to merge "${sourceCat}" INTO "${targetCat}".
+      TASK: Generate a rationale for the INVERSE: merging "${targetCat}" INTO "${sourceCat}" instead.
+      
+      Assume the user wants to flip the hierarchy/direction. Provide a logical reason why "${targetCat}" might be better placed as a subsection of "${sourceCat}", or why "${sourceCat}" is the better parent category.
+      
+      OUTPUT JSON: { "reason": "..." }
+    `;
+
+    onStatusUpdate("Analyzing reverse logic...");
+    const data = await fetchAI(model, key, systemPrompt, "Generate inverse rationale.", true);
+    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const parsed = safeJsonParse<{ reason: string }>(textResponse);
+    return parsed.data;
+}
+
+async function analyzeWithGemini(
+  textBatch: string,
+  currentTaxonomy: Taxonomy,
+  key: string,
+  topic: string,
+  model: ModelConfig,
+  enableSpecies: boolean,
+  hasSourceRecords: boolean, // Batch was serialized from imported reference-file records
+  subTaxonomy: SubTaxonomy | null, // Existing third level; null keeps the taxonomy at two levels
+  codebook: Codebook | null, // Pre-registered coding scheme; null lets the taxonomy emerge
+  onStatusUpdate: (msg: string) => void,
+  onValidation: (report: ValidationReport) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal
+): Promise<{ result: AnalysisResult, truncated: boolean }> {
+  const effectiveTopic = topic.trim() || "General Academic Research";
+  const taxonomyHint = JSON.stringify(currentTaxonomy);
+  const thirdLevelInstructions = subTaxonomy ? `
+       - **Optional Third Level:** If a sub-theme covers several distinct narrower topics, put the narrower topic in 'sub_sub_theme' (e.g. sub-theme "Phenology", sub-sub-theme "Flowering Time"). Reuse names from the THIRD LEVEL HINT when they fit. Leave it empty when the sub-theme needs no further split.` : '';
+  const codebookText = codebook ? codebook.entries.map(e => `    - "${e.category}" > "${e.theme}"${e.definition ? `: ${e.definition}` : ''}${e.examples.length > 0 ? ` (e.g. ${e.examples.join('; ')})` : ''}`).join('\n') : '';
+  const classificationInstructions = !codebook ? `
+    3. Determine 'main_category' (high-level domain) and 'sub_theme' (specific research topic).
+       - **Specific Domains:** Use specific, descriptive domains like "Biogeography", "Ecophysiology", "Community Dynamics", "Urban Ecology".
+       - **Avoid Broad Fields:** Do NOT use generic terms like "Ecology", "Biology", or "Environmental Science" as Main Categories. They are too broad to be useful.
+       - **Atomic Sub-Themes:** Avoid compound names like 'Temperature and Predation' unless the study explicitly tests the *interaction* between them. If a study is just about Temperature, put it in 'Temperature'.` : codebook.mode === 'strict' ? `
+    3. Classify each paper into the CODEBOOK below. Use the definitions and inclusion examples to decide.
+       - **Copy Names Exactly:** 'main_category' and 'sub_theme' MUST be copied exactly from ONE codebook entry. Do NOT invent, rename or combine entries.
+       - **No Fit:** If no entry fits, set both 'main_category' and 'sub_theme' to "${CODEBOOK_OTHER}".` : `
+    3. Classify each paper into the CODEBOOK below. Use the definitions and inclusion examples to decide.
+       - **Copy Names Exactly:** When an entry fits, copy its 'main_category' and 'sub_theme' exactly.
+       - **Proposals:** Only if NO entry fits, propose a new specific sub-theme, preferably under an existing codebook category. Reuse sections proposed earlier (see EXISTING TAXONOMY HINT) before proposing another one. The reviewer approves proposals.`;
+  const thirdLevelHint = subTaxonomy ? `\n    THIRD LEVEL HINT ("Main Category ||| Sub-Theme": [Sub-Sub-Themes]): ${JSON.stringify(subTaxonomy)}\n` : '';
+
+  const metadataInstructions = hasSourceRecords ? `
+    1. Metadata (authors, year, journal, citation) is ALREADY KNOWN from the bibliography export. Do NOT extract it.
+       - Copy the record's TITLE into 'title'. Leave 'authors', 'year', 'journal' and 'short_citation' as empty strings.
+       - **RECORD MARKERS:** Each paper starts with a marker like "[[R12]]". Copy the id inside the marker (e.g. "R12") into 'source_id' for EVERY entry you create from that paper.` : `
+    1. Extract metadata (title, authors, year, journal).
+       - **CRITICAL: SEPARATE CITATION FROM TITLE.**
+       - **NUMBERED LISTS:** If text starts with "1.", "25.", etc., ignore the number.
+       - **VERBOSE AUTHORS:** Handle long author lists (e.g. "Smith and Jones and Doe"). The Title usually starts *after* the year (e.g. "(2022). Title...").
+       - **CLEAN TITLES:** If a title appears with a translation (e.g. "English Title [Spanish Title]" or "Title [Translation]"), **ONLY extract the English title**. Discard the translated version and any brackets.
+       - **RECORD MARKERS:** Each paper starts with a marker like "[[R12]]". Copy the id inside the marker (e.g. "R12") into 'source_id' for EVERY entry you create from that paper. Never include the marker in the title.`;
+
+  const systemPrompt = `
+    You are an expert systematic review data extractor. Process the batch of raw text (Title, Abstract, Authors, Year, Journal) for a review on "${effectiveTopic}".
+
+    INSTRUCTIONS:${metadataInstructions}
+    2. Condense Abstract into 'abstract_summary'.${classificationInstructions}${thirdLevelInstructions}
+    4. **EXTRACT VARIABLES (Standardize Terms):**
+       - 'driver_variable': The primary Independent Variable/Stressor. Use standard terms (e.g., use "Precipitation" NOT "Rainfall"). Keep it simple (1-2 words).
+       - 'response_variable': The primary Dependent Variable/Outcome. Keep it simple (1-2 words).
+       - 'effect_direction': 'Positive' (Driver increases Response), 'Negative' (Driver decreases Response), 'Neutral' (No significant effect), 'Complex' (Context dependent), 'Methodological' (Study validates a method/model, no biological effect direction), or 'Unclear' (direction not reported).
+       - 'study_location': Country or Region. Normalize to English names (e.g. "USA" -> "United States").
+       ${enableSpecies ? "- 'study_species': Species name or group. DO NOT include counts/numbers (e.g., do NOT say '18 bird species', say 'Birds (General)' or 'Aves'). Use common name if available." : ""}
+    5. Generate 'key_finding', 'impact_keywords', and 'short_citation'.
+    
+    **CRITICAL RULE FOR MULTIPLE FINDINGS:**
+    - If a single paper contains **multiple distinct experiments** or investigates **distinct Driver-Response pairs** (e.g. Temperature -> Growth AND pH -> Survival), create **SEPARATE** entries in the 'papers' array for each pair.
+    - Each entry should share the same title/authors/citation but have specific drivers, responses, and key findings for that pair.
+    - Do NOT create duplicate entries if they are synonyms; only for distinct findings.
+
+${codebook ? `    CODEBOOK ("Main Category" > "Sub-Theme": definition (inclusion examples)):\n${codebookText}\n` : ''}${codebook?.mode !== 'strict' ? `    EXISTING TAXONOMY HINT: ${taxonomyHint}\n` : ''}${thirdLevelHint}
+    OUTPUT (Strict JSON):
+    {
+      "papers": [
+        { 
+          "title": "...", "authors": "...", "year": "...", "journal": "...", "abstract_summary": "...", 
+          "main_category": "...", "sub_theme": "...", ${subTaxonomy ? '"sub_sub_theme": "",' : ''}
+          "driver_variable": "...", "response_variable": "...", "effect_direction": "...",
+          "study_location": "...", ${enableSpecies ? '"study_species": "...",' : ''}
+          "key_finding": "...", "impact_keywords": "...", "short_citation": "...", "source_id": "R1" 
+        }
+      ]
+    }
+  `;
+
+  // Overload and rate-limit retries happen in the scheduler; malformed JSON is rethrown for the manual fix window
+  onStatusUpdate(`Extracting batch...`);
+  const data = await fetchAI(model, key, systemPrompt, `Process this raw data batch:\n${textBatch}`, buildAnalysisSchema(enableSpecies, !!subTaxonomy), onStatusUpdate, cacheMode, signal);
+  const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!textResponse) throw new Error("No data returned from AI.");
+
+  const parsed = safeJsonParse<unknown>(textResponse);
+  const { data: validated, report } = validateAnalysisResult(parsed.data, "Extraction");
+  const conformed = codebook ? conformToCodebook(validated, codebook) : { result: validated, issues: [] };
+  onValidation({ ...report, coerced: [...report.coerced, ...conformed.issues] });
+  return { result: conformed.result, truncated: parsed.wasTruncated };
+}
+
+// RESTORED: Superior Audit Function for Automatic Finalization
+async function auditTaxonomyWithGemini(
+  taxonomyList: string[],
+  subTaxonomy: SubTaxonomy, // Third level, for context only; fixes act on whole sub-themes
+  key: string,
+  topic: string,
+  model: ModelConfig,
+  onStatusUpdate: (msg: string) => void,
+  onValidation: (report: ValidationReport) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal
+): Promise<AuditResult> {
+  const effectiveTopic = topic.trim() || "General Academic Research";
+
+  const systemPrompt = `
+    You are an expert taxonomy auditor for a systematic review on "${effectiveTopic}".
+    Your task is to review the current list of "Main Category > Sub-Theme" pairs and identify structural inconsistencies or redundancies.
+
+    SPECIFIC ISSUES TO DETECT AND FIX:
+    1. **Duplicate Sub-Themes across Categories:** If the exact same sub-theme name (e.g., "Phenology") appears under two different Main Categories (e.g., "Behavior" and "Physiology"), you MUST resolve this ambiguity.
+       - FIX: Rename one or both to be specific (e.g., "Behavioral Phenology", "Physiological Phenology") OR move them to the single most appropriate category.
+    2. **Hierarchical Redundancy:** If a Main Category is clearly a subset of another Main Category (e.g., "Heat Stress" is a main category, but "Physiological Responses" also exists), merge the specific one into the broader one.
+       - FIX: Demote the specific Main Category to a Sub-Theme under the broader Main Category.
+    3. **Merge Synonyms:** If "Demography" and "Population Dynamics" both exist, merge them into the more standard term.
+
+    INPUT FORMAT:
+    A list of strings: "Main Category ||| Sub-Theme"
+
+    OUTPUT INSTRUCTIONS:
+    - Return a JSON object with a "fixes" array.
+    - Each fix object must contain: "original_category", "original_theme", "new_category", "new_theme", "reason".
+    - If NO fixes are needed, return an empty "fixes" array.
+
+    CURRENT TAXONOMY LIST:
+    ${JSON.stringify(taxonomyList)}
+${Object.keys(subTaxonomy).length > 0 ? `
+    THIRD LEVEL (context only): some sub-themes are split further into sub-sub-themes, listed below. A fix moves or renames a sub-theme together with all of its sub-sub-themes. Do not propose fixes for sub-sub-themes themselves.
+    ${JSON.stringify(subTaxonomy)}
+` : ''}
+    OUTPUT SCHEMA (STRICT JSON):
+    {
+      "fixes": [
+        {
+          "original_category": "...",
+          "original_theme": "...",
+          "new_category": "...",
+          "new_theme": "...",
+          "reason": "..."
+        }
+      ]
+    }
+  `;
+
+  let retries = 0;
+  const maxRetries = 3;
+
+  while (true) {
+    try {
+      onStatusUpdate(`Auditing Structure...`);
+      // Empty user prompt because the list is in the system prompt for better context adherence in Gemma
+      const data = await fetchAI(model, key, systemPrompt, "Analyze and fix the taxonomy list above.", AUDIT_SCHEMA, onStatusUpdate, cacheMode, signal);
+      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const parsed = safeJsonParse<unknown>(textResponse);
+      const { data: validated, report } = validateAuditResult(parsed.data, taxonomyList, "Taxonomy audit");
+      onValidation(report);
+      return validated;
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      // Transport errors were already retried by the scheduler; only re-ask when the reply was unreadable
+      if (error.message.includes("malformed data") && retries < maxRetries) {
+        retries++; continue;
+      }
+      return { fixes: [] };
+    }
+  }
+}
+
+// NEW: Best-fitting existing sub-theme for individual papers
+async function placePapersWithGemini(
+  papersToPlace: Paper[],
+  taxonomy: Taxonomy,
+  key: string,
+  topic: string,
+  model: ModelConfig,
+  onStatusUpdate: (msg: string) => void,
+  onValidation: (report: ValidationReport) => void,
+  signal?: AbortSignal
+): Promise<PlacementResult> {
+  const effectiveTopic = topic.trim() || "General Academic Research";
+  const paperList = papersToPlace.map(p => ({ paper_id: p.id, title: p.title, key_finding: p.keyFinding, driver: p.driver, response: p.response, current: `${p.category} > ${p.theme}` }));
+
+  const systemPrompt = `
+    You are an expert taxonomist for a systematic review on "${effectiveTopic}".
+    TASK: For each paper below, choose the single existing "Main Category > Sub-Theme" that fits it best.
+
+    RULES:
+    - Only use categories and sub-themes from the taxonomy below, spelled exactly as given. Do not invent new ones.
+    - If the paper's current sub-theme is already the best fit, return it unchanged.
+    - Give a one-sentence reason based on the title and key finding.
+
+    TAXONOMY (Main Category: [Sub-Themes]):
+    ${JSON.stringify(taxonomy)}
+
+    PAPERS:
+    ${JSON.stringify(paperList)}
+
+    OUTPUT SCHEMA (STRICT JSON):
+    { "placements": [ { "paper_id": "...", "main_category": "...", "sub_theme": "...", "reason": "..." } ] }
+  `;
+
+  let retries = 0;
+  const maxRetries = 3;
+
+  while (true) {
+    try {
+      onStatusUpdate(`Finding the best sub-theme for ${papersToPlace.length} ${papersToPlace.length === 1 ? 'paper' : 'papers'}...`);
+      const data = await fetchAI(model, key, systemPrompt, "Place each paper in the taxonomy above.", PLACEMENT_SCHEMA, onStatusUpdate, 'use', signal);
+      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const parsed = safeJsonParse<unknown>(textResponse);
+      const { data: validated, report } = validatePlacementResult(parsed.data, taxonomy, papersToPlace.map(p => p.id), "Paper placement");
+      onValidation(report);
+      return validated;
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      if (error.message.includes("malformed data") && retries < maxRetries) {
+        retries++; continue;
+      }
+      return { placements: [] };
+    }
+  }
+}
+
+// Sub-themes with at least SPLIT_MIN_PAPERS papers are offered for splitting, listing up to SPLIT_MAX_LISTED of them by id
+const SPLIT_MIN_PAPERS = 8;
+const SPLIT_MAX_LISTED = 60;
+
+// NEW: Advanced Consolidation Logic for the Button
+async function consolidateThemesWithGemini(
+  taxonomy: Taxonomy, 
+  paperSamples: Record<string, string[]>,
+  splitCandidates: SplitCandidates,
+  key: string,
+  topic: string,
+  model: ModelConfig,
+  rejectedSuggestions: string[],
+  lockedItems: string[],
+  onStatusUpdate: (msg: string) => void,
+  onValidation: (report: ValidationReport) => void,
+  signal?: AbortSignal
+): Promise<ConsolidationResult> {
+  const effectiveTopic = topic.trim() || "General Academic Research";
+
+  const systemPrompt = `
+    You are an expert data synthesis analyst reviewing the Table of Contents for a Systematic Review Manuscript on "${effectiveTopic}".
+    Your task is to analyze the existing structure: Main Sections (Main Categories) and Sub-Sections (Sub-Themes).
+    
+    INPUT CONTEXT:
+    - You are provided with a 'Rich Taxonomy' where each Main Category contains a list of Sub-Themes, and each Sub-Theme has a list of 'sample_titles'.
+    - **USE THESE TITLES TO VERIFY CONTEXT.** If a theme name seems misplaced (e.g. "Population Dynamics" in "Community Ecology"), CHECK THE TITLES. 
+      - If titles describe community-level interactions, DO NOT move it.
+      - If titles describe single-species dynamics, DO move it.
+      - **CITATION REQUIRED:** In your 'reason' field, you MUST quote a specific word or phrase from one of the sample titles that justifies your decision.
+
+    LOCKED ITEMS (DO NOT TOUCH):
+    - The following sections are LOCKED by the user. Do NOT suggest renaming, moving, or merging them (unless moving something INTO them):
+    ${lockedItems.length > 0 ? lockedItems.join(', ') : "None"}
+
+    TASKS (In Order of Priority):
+    1. **Merge Sub-Sections (HIGHEST PRIORITY):** Identify any Sub-Sections within a Main Section that are conceptually overlapping and should be merged into a single, cohesive Sub-Section.
+    2. **Move Sub-Sections (CRITICAL):** Check if any Sub-Sections are misplaced. Suggest moving them to the correct Main Section.
+    3. **Merge Main Sections:** Identify synonymous or highly overlapping Main Sections (e.g., 'Physiology' and 'Physiological Responses') and merge them.
+    4. **Hierarchy Check:** Identify Main Sections that are actually subsets of other Main Sections (e.g. "Heat Stress" should be inside "Abiotic Stress") and suggest a move.
+    5. **Resolve Ambiguous Names:** If a Sub-Section is named "X and Y" (e.g. "Temperature and Predation"), check the 'sample_titles'. If the papers are only about "X", suggest renaming it to "X".
+    6. **Rename Main Sections (CRITICAL ONLY):** ONLY suggest a rename if the current name is 'General', 'Biology', 'Other', or clearly too broad/vague.
+    7. **No Self-Merges:** Do NOT suggest merging a sub-section into itself. A merge requires at least two distinct sub-sections.
+    8. **Split Overloaded Sub-Sections:** SPLIT CANDIDATES lists every paper ("id: title") of the largest sub-sections. If one mixes two or more clearly distinct topics, suggest splitting it into new sub-sections. Assign EVERY listed paper id to exactly one new sub-section. Only split sub-sections listed there, and never split a cohesive one just because it is large.
+
+    RICH TAXONOMY (Structure + Content Samples): 
+    ${JSON.stringify({ taxonomy, paperSamples }, null, 2)}
+
+    SPLIT CANDIDATES:
+    ${Object.keys(splitCandidates).length > 0 ? JSON.stringify(Object.fromEntries(Object.entries(splitCandidates).map(([section, list]) => [section, list.map(c => `${c.id}: ${c.title}`)])), null, 2) : "None"}
+
+    PREVIOUSLY REJECTED SUGGESTIONS (DO NOT SUGGEST THESE AGAIN):
+    ${rejectedSuggestions.length > 0 ? rejectedSuggestions.join('\n') : "None"}
+
+    OUTPUT SCHEMA (STRICT JSON):
+    {
+      "status": "suggestions_made" | "no_changes", 
+      "suggestions": [
+        {
+          "main_category": "Current Main Section Name",
+          "suggested_merge": {
+            "themes_to_combine": ["Sub-Section A", "Sub-Section B"],
+            "new_theme_name": "Combined Sub-Section Header",
+            "reason": "Explanation citing specific title words."
+          } | null,
+          "suggested_move": {
+            "theme": "Sub-Section Name",
+            "current_category": "Current Main Section Name",
+            "target_category": "Target Main Section Name",
+            "reason": "Why it belongs there (cite title words)."
+          } | null,
+          "suggested_category_merge": {
+            "source_category": "Main Section to Remove",
+            "target_category": "Main Section to Merge Into",
+            "reason": "Why these major sections are duplicates."
+          } | null,
+          "suggested_rename": {
+             "current_name": "Current Main Section Name",
+             "new_name": "Better Main Section Name",
+             "reason": "Reason for rename."
+          } | null,
+          "suggested_split": {
+             "theme": "Sub-Section to Split (in main_category)",
+             "new_themes": [{ "name": "New Sub-Section A", "paper_ids": ["id", "..."] }, { "name": "New Sub-Section B", "paper_ids": ["..."] }],
+             "reason": "Which distinct topics the papers cover (cite title words)."
+          } | null
+        }
+      ]
+    }
+  `;
+
+  let retries = 0;
+  const maxRetries = 3;
+
+  while (true) {
+    try {
+      onStatusUpdate(`Analyzing manuscript structure...`);
+      const data = await fetchAI(model, key, systemPrompt, "Review the provided structure for consolidation, moves, and critical improvements.", CONSOLIDATION_SCHEMA, onStatusUpdate, 'off', signal); // Re-asking is the point of "Suggest Merges"
+      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const parsed = safeJsonParse<unknown>(textResponse);
+      const { data: validated, report } = validateConsolidationResult(parsed.data, taxonomy, splitCandidates, "Suggest merges");
+      onValidation(report);
+      return validated;
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      if (error.message.includes("malformed data") && retries < maxRetries) {
+        retries++; continue;
+      }
+      // Return "no changes" on error to avoid crashing
+      return { status: "no_changes", suggestions: [] };
+    }
+  }
+}
+
+async function optimizeStructureWithGemini(
+  papers: Paper[],
+  key: string,
+  topic: string,
+  model: ModelConfig,
+  _enableSpecies: boolean, // unused variable prefix with _
+  onStatusUpdate: (msg: string) => void,
+  onValidation: (report: ValidationReport) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal
+): Promise<OptimizationResult> {
+  const effectiveTopic = topic.trim() || "General Academic Research";
+  const paperSummaries = papers.map(p => ({
+    id: p.id,
+    title: p.title,
+    current_cat: p.category,
+    current_theme: p.theme,
+    driver: p.driver,
+    response: p.response,
+    location: p.location,
+    species: p.species
+  }));
+
+  const systemPrompt = `
+    You are an expert taxonomy architect for a systematic review on "${effectiveTopic}".
+    TASK: Reorganize categories and Normalize metadata (Synonyms & Groups).
+
+    RULES:
+    1. **Manuscript Structure:** Organize 'Main Categories' as Major Sections, 'Sub-Themes' as Subsections. Prioritize OUTCOME domains.
+    2. **Generalize Sub-Themes:** Merge sub-themes describing the same outcome but different drivers (e.g. "Fire-driven Predation" -> "Predation Rates").
+    3. **NORMALIZE METADATA (Apply Universally):**
+       - **Drivers:** Scan for ALL synonyms and standardize them to a single term. (e.g., "Rainfall"/"Precipitation" -> "Precipitation"; "Temp"/"Temperature" -> "Temperature"). Use this standardized term for 'new_driver'.
+       - **Responses:** Scan for ALL synonyms and standardize them to a single term. Use this standardized term for 'new_response'.
+       - **Locations:** Consolidate synonyms (e.g. "USA"/"United States" -> "United States"). Use this for 'new_location'.
+       - **Species:** Standardize names (e.g. "5 ducks" -> "Anatidae (Ducks)"). Use this for 'new_species'.
+    4. **GROUP METADATA (Hierarchical):**
+       - Assign 'new_driver_group' (e.g. "Precipitation" -> "Climate", "Predation" -> "Biotic").
+       - Assign 'new_response_group' (e.g. "Hatching Success" -> "Demography", "Water Use Efficiency" -> "Physiology").
+    5. **Titles:** If any title contains a bracketed translation [like this], remove the bracketed part and keep the English.
+    
+    OUTPUT SCHEMA (Strict JSON):
+    { 
+      "moves": [ 
+        { 
+          "paper_id": "...", 
+          "new_category": "...", 
+          "new_theme": "...", 
+          "new_driver": "...", 
+          "new_driver_group": "...", 
+          "new_response": "...", 
+          "new_response_group": "...", 
+          "new_location": "...", 
+          "new_species": "..." 
+        } 
+      ] 
+    }
+  `;
+
+  const userPrompt = `PAPER LIST:\n${JSON.stringify(paperSummaries)}`;
+  let retries = 0; const maxRetries = 3;
+
+  while (true) {
+    try {
+      onStatusUpdate(`Optimization: Analyzing ${papers.length} papers for structure & metadata...`);
+      const data = await fetchAI(model, key, systemPrompt, userPrompt, OPTIMIZATION_SCHEMA, onStatusUpdate, cacheMode, signal);
+      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      
+      const parsed = safeJsonParse<unknown>(textResponse);
+      const { data: validated, report } = validateOptimizationResult(parsed.data, papers.map(p => p.id), "Metadata optimization");
+      onValidation(report);
+      return validated; 
+    } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
+      if (error.message.includes("malformed data") && retries < maxRetries) {
+        retries++; continue;
+      }
+      return { moves: [] }; 
+    }
+  }
+}
+
+const cleanSynthesisResponse = (raw: any, modelId: string): SynthesisResult => {
+  let summary = raw.summary || "No summary generated.";
+  if (typeof summary === 'string' && (summary.includes('<ul>') || summary.includes('<li>'))) {
+    let cleanStr = summary.replace(/<\/?ul>/g, '');
+    let items = cleanStr.split('</li>');
+    summary = items.map(s => s.replace(/<li>/g, '').trim()).filter(s => s.length > 0);
+  }
+  return { summary: summary, contradictionAnalysis: typeof raw.contradictionAnalysis === 'string' ? raw.contradictionAnalysis : "No analysis generated.", modelUsed: modelId };
+};
+
+async function synthesizeSectionWithGemini(sectionTheme: string, papersData: any[], key: string, topic: string, model: ModelConfig, onStatusUpdate: (msg: string) => void, cacheMode: CacheMode = 'use', signal?: AbortSignal): Promise<SynthesisResult> {
+  const effectiveTopic = topic.trim() || "Academic Research";
+  const synthesisDataString = papersData.map(p => `${p.group ? `Sub-Section: "${p.group}". ` : ''}Key Finding: "${p.keyFinding}". Keywords: [${p.impactKeywords}]. Citation: ${p.shortCitation}`).join('\n---\n');
+  const systemPrompt = `
+    You are an expert academic synthesizer performing a Systematic Review.
+    TOPIC: "${effectiveTopic}"
+    SECTION: "${sectionTheme}"
+    
+    DATA: A list of key findings from individual papers is provided below.${papersData.some(p => p.group) ? `
+    SUB-SECTIONS: Some findings carry a "Sub-Section" label. Keep the bullets of each sub-section together and start each of them with the sub-section name in bold.` : ''}
+    
+    TASK 1: COMPREHENSIVE SYNTHESIS (summary)
+    - **Goal:** Representative Coverage. Generate as many bullet points as necessary to cover **every distinct finding** in the dataset.
+    - **NO LIMITS:** There is NO maximum number of bullet points. Do not limit yourself to the "top 3-5" findings. If there are 20 distinct findings, produce 20 bullet points.
+    - **Citation Clustering:** If multiple papers support the same finding, combine them into a single bullet point and list **ALL** of them. 
+      - Format: "Finding text (Smith 2020; Jones 2021; Doe 2022)."
+      - **Relevance Filter:** While comprehensive coverage is desired, you are NOT required to cite every single paper if some lack meaningful or relevant findings. Prioritize quality and distinctness over 100% inclusion.
+    
+    TASK 2: EXHAUSTIVE CONSISTENCY CHECK (contradictionAnalysis)
+    - Perform a rigorous check for disagreements.
+    - Report **EVERY** distinct instance of disagreement or divergence found in the dataset. 
+    - Do not just write a general note; specify which papers conflict and how (e.g., "Paper A and B found positive effects, whereas Paper C found negative effects").
+    - If absolutely no contradictions exist, state "No clear contradictions found; findings are generally consistent."
+    
+    OUTPUT JSON FORMAT (Strict):
+    { 
+      "summary": ["Bullet 1...", "Bullet 2..."], 
+      "contradictionAnalysis": "Detailed paragraph(s) analyzing all conflicts..." 
+    }
+  `;
+  
+  let retries = 0; const maxRetries = 5;
+  while (true) {
+    try {
+      const data = await fetchAI(model, key, systemPrompt, `DATA:\n${synthesisDataString}`, true, onStatusUpdate, cacheMode, signal);
+      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const raw = safeJsonParse<any>(textResponse);
+      return { ...cleanSynthesisResponse(raw.data, model.id), fromCache: !!data.fromCache };
+    } catch (error: any) {
+      if (error.message.includes("malformed data") && retries < maxRetries) { retries++; onStatusUpdate("Unreadable reply, asking again..."); continue; }
+      throw error;
+    }
+  }
+}
+
+async function askPaperChat(query: string, papers: Paper[], key: string, model: ModelConfig): Promise<string> {
+  // Enhanced Keyword Extraction (excluding common stop words)
+  const stopWords = new Set(['about', 'this', 'that', 'with', 'from', 'what', 'where', 'when', 'which', 'who', 'how', 'does', 'need', 'want', 'know', 'find', 'show', 'tell', 'papers', 'study', 'studies']);
+  const keywords = query.toLowerCase()
+    .replace(/[.,?/#!$%^&*;:{}=\-_`~()]/g, "")
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !stopWords.has(w));
+  
+  // 1. Calculate Global Context
+  const totalPapers = papers.length;
+  const categories = Array.from(new Set(papers.map(p => p.category))).sort();
+  const drivers: Record<string, number> = {};
+  const responses: Record<string, number> = {};
+  const locations: Record<string, number> = {};
+  const species: Record<string, number> = {};
+  
+  papers.forEach(p => {
+    drivers[p.driver] = (drivers[p.driver] || 0) + 1;
+    responses[p.response] = (responses[p.response] || 0) + 1;
+    locations[p.location] = (locations[p.location] || 0) + 1;
+    species[p.species] = (species[p.species] || 0) + 1;
+  });
+  
+  const topDrivers = Object.entries(drivers).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
+  const topResponses = Object.entries(responses).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
+  const topLocations = Object.entries(locations).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
+  const topSpecies = Object.entries(species).sort((a,b)=>b[1]-a[1]).slice(0, 5).map(x => `${x[0]} (${x[1]})`).join(', ');
+
+  // 2. RAG Context (Relevance Search with improved keyword logic)
+  const relevantPapers = papers.filter(p => {
+      if (keywords.length === 0) return false;
+      const text = (p.title + " " + p.keyFinding + " " + p.abstractSnippet + " " + p.species + " " + p.location).toLowerCase();
+      // Require at least one non-stopword keyword match
+      return keywords.some(k => text.includes(k));
+  }).slice(0, 15);
+  
+  const context = relevantPapers.map(p => `- [${p.shortCitation}]: ${p.title}. Found: ${p.keyFinding}. (D: ${p.driver}, R: ${p.response}, Loc: ${p.location}, Sp: ${p.species})`).join('\n');
+
+  const systemPrompt = `
+    You are EcoSynthesisAI's Chat Assistant. You have access to a database of ${totalPapers} papers.
+    
+    DATA CONTEXT (Demographics & Topics):
+    - Main Categories: ${categories.join(', ')}
+    - Top Drivers: ${topDrivers}
+    - Top Outcomes: ${topResponses}
+    - Top Locations: ${topLocations}
+    - Top Species/Taxa: ${topSpecies}
+
+    CAPABILITIES & LIMITATIONS:
+    1. SUMMARIZATION ONLY: You may summarize findings, list citations, and count papers (e.g. "How many papers mention temp?").
+    2. NO STATISTICS: Do NOT perform statistical analyses (meta-analysis, regression, effect sizes, etc.). If asked, reply: "I'm sorry, I have been coded/instructed to only summarize information because this tool is a qualitative review assistant, not a quantitative meta-analysis tool."
+    3. NO DEEP SYNTHESIS: If asked to compare conclusions in detail or synthesize contradictions (e.g. "Do these papers agree on X?"), reply: "For synthesis and contradiction analysis, please use the ✨ Sparkle buttons in the list view."
+    4. CITATIONS: Always use [Author, Year] format. You may expand on these citations in more detail, such as titles or journals, if requested.
+    5. VAGUE QUERIES: If the 'Relevant Papers Found' list is empty or doesn't seem to answer the user's specific question, politely suggest that their query might be too vague or that the database doesn't contain that specific information.
+  `;
+  
+  const userPrompt = `Relevant Papers Found (based on keywords: ${keywords.join(', ')}):\n${context || "No specific matches found."}\n\nUser Question: ${query}`;
+  
+  try {
+    const data = await fetchAI(model, key, systemPrompt, userPrompt, false, undefined, 'off');
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || "No response.";
+  } catch (err: any) { return `Error: ${err.message}`; }
+}
+
+// --- SUB-COMPONENTS ---
+const SynthesisModal: React.FC<SynthesisModalProps> = ({ isOpen, onClose, themeKey, isSynthesizing, retryStatus, result, onRegenerate }) => {
+  if (!isOpen) return null;
+  const [category, theme] = themeKey.split('-');
+  const analysisText = result?.contradictionAnalysis || "";
+  const summaryContent = result?.summary || "No summary available.";
+  const hasContradictions = analysisText.toLowerCase && !analysisText.toLowerCase().includes('no clear contradictions');
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl transform transition-all duration-300 scale-100 opacity-100 flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><Zap className='h-6 w-6 text-yellow-500' /> Synthesis & Contradiction Analysis</h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto">
+          <p className='text-sm text-slate-600 mb-4'><span className='font-bold text-slate-700'>Section:</span> {category} {theme ? `/ ${theme}` : '(Main Category Summary)'}</p>
+          {isSynthesizing ? (<div className="flex flex-col items-center justify-center h-40 bg-slate-50 rounded-lg p-4"><Loader2 className="h-8 w-8 text-blue-500 animate-spin" /><p className='mt-3 text-sm text-blue-600 font-medium'>Generating summary points...</p>{retryStatus && <p className="text-xs text-amber-600 mt-1">{retryStatus}</p>}</div>) : result && (<div className='space-y-6'><div className="bg-blue-50 p-4 rounded-lg border border-blue-200"><h4 className='font-bold text-lg text-blue-800 mb-2'>1. Summary Points & Citations</h4><div className='text-slate-800 leading-relaxed whitespace-pre-wrap'>{Array.isArray(summaryContent) ? (<ul className="list-disc pl-5 space-y-2">{summaryContent.map((line, idx) => (<li key={idx} className="pl-1">{typeof line === 'string' ? line : JSON.stringify(line)}</li>))}</ul>) : String(summaryContent)}</div>{result.modelUsed && (<div className="mt-4 pt-2 border-t border-blue-200 text-xs text-blue-400 flex items-center gap-1"><Cpu className="h-3 w-3" /> Generated with: {result.modelUsed}{result.fromCache && <span className="ml-1 px-1.5 py-0.5 bg-blue-100 text-blue-600 rounded font-bold">Cached</span>}<button onClick={onRegenerate} className="ml-auto flex items-center gap-1 text-blue-600 hover:underline" title="Ask the AI again instead of using the cached response"><RefreshCw className="h-3 w-3" /> Regenerate</button></div>)}</div><div className={`p-4 rounded-lg border ${!hasContradictions ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}><h4 className={`font-bold text-lg mb-2 flex items-center gap-2 ${!hasContradictions ? 'text-green-800' : 'text-red-800'}`}>{!hasContradictions ? <Check className='h-5 w-5' /> : <AlertCircle className='h-5 w-5' />} 2. Contradiction Analysis</h4><p className='text-slate-800 leading-relaxed'>{String(analysisText)}</p></div></div>)}</div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Bulk Synthesis Modal (Pop-up before export)
+interface BulkSynthesisModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  results: any[] | null;
+  type: 'sub' | 'main';
+}
+
+const BulkSynthesisModal: React.FC<BulkSynthesisModalProps> = ({ isOpen, onClose, results, type }) => {
+  if (!isOpen || !results) return null;
+
+  const handleExport = () => {
+    let htmlContent = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${type === 'sub' ? 'Sub-Theme' : 'Main Category'} Synthesis</title><style>body{font-family:sans-serif;margin:40px} h1{color:#047857} .contradiction{background:#fef2f2;padding:10px;border:1px solid #fca5a5}</style></head><body><h1>${type === 'sub' ? 'Sub-Theme' : 'Main Category'} Synthesis</h1>`;
+    
+    results.forEach(s => {
+       const sum = Array.isArray(s.result.summary) ? s.result.summary : [s.result.summary];
+       if (type === 'sub') {
+           htmlContent += `<h2>${s.category}</h2><h3>${s.theme}</h3><ul>${sum.map((l:string)=>`<li>${l}</li>`).join('')}</ul><div class="contradiction"><strong>Contradictions:</strong> ${s.result.contradictionAnalysis}</div>`;
+       } else {
+           htmlContent += `<h2>${s.category}</h2><ul>${sum.map((l:string)=>`<li>${l}</li>`).join('')}</ul><div class="contradiction"><strong>Contradictions:</strong> ${s.result.contradictionAnalysis}</div><hr/>`;
+       }
+    });
+
+    htmlContent += '</body></html>';
+    
+    const blob = new Blob([htmlContent], { type: 'text/html' });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `synthesis_${type}.html`;
+    document.body.appendChild(link);
+    link.click();
+    setTimeout(() => document.body.removeChild(link), 100);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl transform transition-all duration-300 scale-100 opacity-100 flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <h3 className="text-xl font-bold text-emerald-700 flex items-center gap-2">
+            <Zap className='h-6 w-6 text-yellow-500' /> 
+            {type === 'sub' ? 'Synthesized Sub-Themes' : 'Synthesized Main Categories'}
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-6">
+            {results.map((item, idx) => (
+                <div key={idx} className="border-b border-slate-100 pb-6 last:border-0">
+                    <h4 className="text-lg font-bold text-slate-800">{item.category} {type === 'sub' && <span className="text-slate-500 font-normal">/ {item.theme}</span>}</h4>
+                    
+                    <div className="mt-2 bg-blue-50 p-3 rounded text-sm text-slate-800">
+                        <ul className="list-disc pl-5 space-y-1">
+                            {(Array.isArray(item.result.summary) ? item.result.summary : [item.result.summary]).map((line: string, i: number) => (
+                                <li key={i}>{line}</li>
+                            ))}
+                        </ul>
+                    </div>
+                    
+                    {item.result.contradictionAnalysis && !item.result.contradictionAnalysis.toLowerCase().includes("no clear contradictions") && (
+                        <div className="mt-2 bg-red-50 p-3 rounded text-sm text-red-800 border border-red-100 flex gap-2">
+                            <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                            <div>
+                                <span className="font-bold">Contradictions:</span> {item.result.contradictionAnalysis}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Close</button>
+            <button onClick={handleExport} className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 font-bold flex items-center gap-2">
+                <Download className="h-4 w-4" /> Export HTML
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Manual Fix Modal
+const ManualFixModal = ({ isOpen, text, onSave, onCancel }: { isOpen: boolean, text: string, onSave: (newText: string) => void, onCancel: () => void }) => {
+  const [fixedText, setFixedText] = useState(text);
+  useEffect(() => { setFixedText(text); }, [text]);
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-80 flex items-center justify-center z-[60] p-6">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 border-l-4 border-amber-500 flex flex-col h-[80vh]">
+        <div className="flex justify-between items-start mb-4">
+            <div>
+                <h2 className="text-xl font-bold text-amber-600 flex items-center gap-2"><Wrench className="h-6 w-6"/> Data Repair Required</h2>
+                <p className="text-slate-600 text-sm mt-1">The AI couldn't parse this batch, likely due to encoding errors (Mojibake) or garbled text in the citations below. Please edit the text to fix obvious errors, then click "Retry Batch".</p>
+            </div>
+            <button onClick={onCancel} className="text-slate-400 hover:text-slate-600"><X className="h-5 w-5" /></button>
+        </div>
+        <div className="flex-1 border border-slate-300 rounded overflow-hidden relative">
+            <div className="absolute top-0 right-0 bg-slate-100 px-2 py-1 text-[10px] text-slate-500 font-bold border-b border-l rounded-bl font-mono">RAW INPUT</div>
+            <textarea 
+               className="w-full h-full p-4 font-mono text-xs bg-slate-50 text-slate-700 resize-none focus:ring-0 outline-none" 
+               value={fixedText} 
+               onChange={(e) => setFixedText(e.target.value)} 
+               spellCheck={false}
+            />
+        </div>
+        <div className="flex gap-3 justify-end mt-4">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded">Stop Extraction</button>
+          <button onClick={() => onSave(fixedText)} className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 flex items-center gap-2 font-bold"><RefreshCw className="h-4 w-4"/> Retry Batch</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const QuotaModal = ({ isOpen, onClose, exportFn }: { isOpen: boolean, onClose: () => void, exportFn: () => void }) => {
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-80 flex items-center justify-center z-[60] p-6">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 border-l-4 border-red-500">
+        <h2 className="text-2xl font-bold text-red-600 mb-4 flex items-center gap-2"><AlertCircle className="h-6 w-6" /> Daily Quota Exceeded</h2>
+        <p className="text-slate-700 mb-4">Google's API has blocked further requests. This usually means you have hit the <strong>free tier daily limit</strong> for the selected model.</p>
+        <div className="bg-slate-100 p-4 rounded mb-4 text-sm text-slate-600">
+          <p className="font-semibold mb-2">Recommended Actions:</p>
+          <ul className="list-disc pl-5 space-y-1"><li><strong>Switch Models:</strong> Use 'Gemma 3' (higher limits) for sorting.</li><li><strong>Export Now:</strong> Save your JSON state and continue tomorrow.</li><li><strong>Wait:</strong> Quotas typically reset at midnight Pacific Time.</li></ul>
+        </div>
+        <div className="flex gap-3 justify-end"><button onClick={onClose} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded">Close</button><button onClick={() => { exportFn(); onClose(); }} className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 flex items-center gap-2"><Download className="h-4 w-4" /> Export Progress</button></div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Offered on load when an autosaved session exists
+const RestoreSessionModal = ({ session, onRestore, onDiscard }: { session: SavedSession | null, onRestore: () => void, onDiscard: () => void }) => {
+  if (!session) return null;
+  const checkpoint = session.runCheckpoint;
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-[60] p-6">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 border-l-4 border-emerald-500">
+        <h2 className="text-2xl font-bold text-emerald-700 mb-4 flex items-center gap-2"><RotateCcw className="h-6 w-6" /> Restore Previous Session?</h2>
+        <p className="text-slate-700 mb-4">Your last session was autosaved in this browser on <strong>{new Date(session.savedAt).toLocaleString()}</strong>.</p>
+        <ul className="bg-slate-100 p-4 rounded mb-4 text-sm text-slate-600 list-disc pl-8 space-y-1">
+          {session.reviewTopic && <li>Topic: <strong>{session.reviewTopic}</strong></li>}
+          <li>{session.papers.length} papers in {new Set(session.papers.map(p => p.category)).size} categories</li>
+          {session.lockedItems.length > 0 && <li>{session.lockedItems.length} locked sections</li>}
+          {session.chatHistory.some(m => m.role === 'user') && <li>Chat history</li>}
+          {checkpoint && <li className="text-amber-700 font-medium">Interrupted extraction: {checkpoint.nextBatch < checkpoint.batches.length ? `${checkpoint.nextBatch} of ${checkpoint.batches.length} batches done` : 'final taxonomy audit not run'}</li>}
+        </ul>
+        <p className="text-xs text-slate-500 mb-4">Starting fresh deletes the autosave. Export it first from Settings if you may need it later.</p>
+        <div className="flex gap-3 justify-end"><button onClick={onDiscard} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded">Start Fresh</button><button onClick={onRestore} className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 flex items-center gap-2"><RotateCcw className="h-4 w-4" /> Restore</button></div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Summary of a project file before it is loaded, with every corrected or dropped field
+const ProjectImportModal = ({ imported, isBusy, onReplace, onImportAsNew, onMerge, onCancel }: { imported: ProjectFileImport | null, isBusy: boolean, onReplace: () => void, onImportAsNew: () => void, onMerge: () => void, onCancel: () => void }) => {
+  if (!imported) return null;
+  const { content, problems } = imported;
+  const errors = problems.filter(p => p.severity === 'error');
+  const warnings = problems.filter(p => p.severity === 'warning');
+  const contents = [
+    `${content.papers.length} papers in ${new Set(content.papers.map(p => p.category)).size} categories`,
+    content.lockedItems.length > 0 && `${content.lockedItems.length} locked sections`,
+    content.rejectedSuggestions.length > 0 && `${content.rejectedSuggestions.length} rejected suggestions`,
+    (content.synthesis || content.bulkSynthesis) && `syntheses (${(content.synthesis ? 1 : 0) + (content.bulkSynthesis?.results.length || 0)})`,
+    content.chatHistory.some(m => m.role === 'user') && 'chat history',
+    imported.content.customModels.length > 0 && `${imported.content.customModels.length} custom models (re-enter their API keys)`,
+    content.runCheckpoint && 'an interrupted extraction run'
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><Upload className='h-6 w-6' /> Import Project</h3>
+            <p className="text-xs text-slate-500 mt-1">{imported.fileName} · "{imported.projectName}" · format version {imported.sourceVersion}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-sm text-slate-700">Contains {contents.join(', ')}.</p>
+          {imported.sourceVersion < PROJECT_FILE_VERSION && (
+            <p className="text-xs text-blue-700 bg-blue-50 p-2 rounded border border-blue-100 flex items-center gap-1"><Info className="h-3 w-3 shrink-0" /> Upgraded from format version {imported.sourceVersion}. Export again to save it in the current format (version {PROJECT_FILE_VERSION}).</p>
+          )}
+          {problems.length === 0 ? (
+            <p className="text-xs text-green-700 bg-green-50 p-2 rounded border border-green-100 flex items-center gap-1"><Check className="h-3 w-3 shrink-0" /> Every field passed validation.</p>
+          ) : (
+            <div>
+              <p className="text-xs font-bold text-slate-600 mb-2">{errors.length} dropped · {warnings.length} corrected</p>
+              <ul className="max-h-64 overflow-y-auto text-xs border border-slate-200 rounded divide-y divide-slate-100">
+                {[...errors, ...warnings].slice(0, 300).map((problem, i) => (
+                  <li key={i} className="p-2 flex gap-2">
+                    <span className={`shrink-0 px-1.5 rounded font-bold uppercase text-[10px] ${problem.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>{problem.severity === 'error' ? 'Dropped' : 'Fixed'}</span>
+                    <code className="shrink-0 text-slate-500">{problem.field}</code>
+                    <span className="text-slate-700">{problem.message}</span>
+                  </li>
+                ))}
+              </ul>
+              {problems.length > 300 && <p className="text-[10px] text-slate-400 mt-1">Showing the first 300 of {problems.length} problems.</p>}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Cancel</button>
+          <button onClick={onMerge} disabled={isBusy} className="px-4 py-2 bg-blue-100 text-blue-700 rounded font-bold hover:bg-blue-200 disabled:opacity-50 flex items-center gap-2" title="Combine with the open project, e.g. a teammate's copy"><ArrowLeftRight className="h-4 w-4" /> Merge into Current</button>
+          <button onClick={onImportAsNew} disabled={isBusy} className="px-4 py-2 bg-blue-100 text-blue-700 rounded font-bold hover:bg-blue-200 disabled:opacity-50 flex items-center gap-2"><Plus className="h-4 w-4" /> Import as New Project</button>
+          <button onClick={onReplace} disabled={isBusy} className="px-4 py-2 bg-blue-600 text-white rounded font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"><Upload className="h-4 w-4" /> Replace Current Project</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Save, compare and restore taxonomy snapshots
+interface TaxonomySnapshotsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshots: TaxonomySnapshot[];
+  papers: Paper[];
+  onSave: (name: string) => void;
+  onRestore: (snapshotId: string) => void;
+  onDelete: (snapshotId: string) => void;
+}
+
+const TaxonomySnapshotsModal: React.FC<TaxonomySnapshotsModalProps> = ({ isOpen, onClose, snapshots, papers, onSave, onRestore, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState('current');
+  if (!isOpen) return null;
+
+  const current: TaxonomySnapshot = takeTaxonomySnapshot('Current workspace', papers);
+  const findSnapshot = (id: string) => id === 'current' ? current : snapshots.find(s => s.id === id);
+  const fromSnap = compareFrom ? findSnapshot(compareFrom) : undefined;
+  const toSnap = findSnapshot(compareTo);
+  const diff = fromSnap && toSnap ? diffTaxonomy(fromSnap.papers, toSnap.papers) : null;
+  const isEmptyDiff = diff && Object.values(diff).every(list => list.length === 0);
+  const countSections = (snap: TaxonomySnapshot) => new Set(snap.papers.map(sectionLabel)).size;
+
+  const submitNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(newName.trim() || `Snapshot ${new Date().toLocaleString()}`);
+    setNewName('');
+  };
+
+  const renderList = (title: string, items: string[], tone: string) => items.length > 0 && (
+    <div>
+      <p className={`text-xs font-bold uppercase mb-1 ${tone}`}>{title} ({items.length})</p>
+      <ul className="text-xs text-slate-700 space-y-0.5 pl-3 list-disc">{items.map(item => <li key={item}>{item}</li>)}</ul>
+    </div>
+  );
+  const renderRenames = (title: string, items: { from: string, to: string }[]) => items.length > 0 && (
+    <div>
+      <p className="text-xs font-bold uppercase mb-1 text-blue-700">{title} ({items.length})</p>
+      <ul className="text-xs text-slate-700 space-y-0.5">{items.map(r => <li key={r.from} className="flex items-center gap-1"><span className="line-through text-slate-400">{r.from}</span><ArrowRight className="h-3 w-3 shrink-0" /><span>{r.to}</span></li>)}</ul>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-emerald-700 flex items-center gap-2"><Camera className='h-6 w-6' /> Taxonomy Snapshots</h3>
+            <p className="text-xs text-slate-500 mt-1">Save the current categories, sub-themes and paper assignments, compare versions and go back to an earlier one.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto grid md:grid-cols-[18rem_1fr] gap-6">
+          <div className="space-y-3">
+            <form onSubmit={submitNew} className="flex gap-2">
+              <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="e.g. After round 2 of merges" className="flex-1 min-w-0 p-2 text-sm border border-slate-300 rounded" />
+              <button type="submit" disabled={papers.length === 0} className="px-3 py-2 bg-emerald-600 text-white rounded text-sm font-bold hover:bg-emerald-700 disabled:opacity-50">Save</button>
+            </form>
+            {snapshots.length === 0 && <p className="text-xs text-slate-400 italic">No snapshots yet.</p>}
+            <ul className="space-y-2">
+              {snapshots.slice().reverse().map(snap => (
+                <li key={snap.id} className={`p-2 rounded border ${compareFrom === snap.id ? 'border-blue-300 bg-blue-50' : 'border-slate-200'}`}>
+                  <p className="text-sm font-bold text-slate-800 truncate">{snap.name}</p>
+                  <p className="text-[11px] text-slate-500">{new Date(snap.createdAt).toLocaleString()} · {snap.papers.length} papers · {countSections(snap)} sub-themes</p>
+                  <div className="flex gap-1 mt-1">
+                    <button onClick={() => setCompareFrom(snap.id)} className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded font-bold hover:bg-blue-200 flex items-center gap-1"><GitCompare className="h-3 w-3" /> Compare</button>
+                    <button onClick={() => onRestore(snap.id)} className="px-2 py-0.5 text-xs bg-emerald-100 text-emerald-700 rounded font-bold hover:bg-emerald-200 flex items-center gap-1"><RotateCcw className="h-3 w-3" /> Restore</button>
+                    <button onClick={() => { onDelete(snap.id); if (compareFrom === snap.id) setCompareFrom(null); if (compareTo === snap.id) setCompareTo('current'); }} className="ml-auto p-1 text-slate-400 hover:text-red-600" title="Delete snapshot"><Trash2 className="h-3 w-3" /></button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-3">
+            {!fromSnap ? (
+              <p className="text-sm text-slate-400 italic">Click <b>Compare</b> on a snapshot to see what changed since then.</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-bold text-slate-700 truncate">{fromSnap.name}</span>
+                  <ArrowRight className="h-4 w-4 text-slate-400 shrink-0" />
+                  <select value={compareTo} onChange={e => setCompareTo(e.target.value)} className="p-1 text-sm border border-slate-300 rounded bg-white">
+                    <option value="current">Current workspace</option>
+                    {snapshots.filter(s => s.id !== fromSnap.id).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                {isEmptyDiff && <p className="text-xs text-green-700 bg-green-50 p-2 rounded border border-green-100 flex items-center gap-1"><Check className="h-3 w-3" /> The structure and paper assignments are identical.</p>}
+                {diff && (
+                  <div className="space-y-3">
+                    {renderRenames('Renamed categories', diff.renamedCategories)}
+                    {renderList('Added categories', diff.addedCategories, 'text-green-700')}
+                    {renderList('Removed categories', diff.removedCategories, 'text-red-700')}
+                    {renderRenames('Renamed or relocated sub-themes', diff.renamedSections)}
+                    {renderList('Added sub-themes', diff.addedSections, 'text-green-700')}
+                    {renderList('Removed sub-themes', diff.removedSections, 'text-red-700')}
+                    {diff.moves.length > 0 && (
+                      <div>
+                        <p className="text-xs font-bold uppercase mb-1 text-amber-700">Papers moved between sub-themes ({diff.moves.reduce((n, m) => n + m.titles.length, 0)})</p>
+                        <div className="space-y-1">
+                          {diff.moves.map(m => (
+                            <details key={`${m.from}|||${m.to}`} className="text-xs border border-slate-100 rounded p-1">
+                              <summary className="cursor-pointer text-slate-700"><b>{m.titles.length}</b> {m.from} <ArrowRight className="h-3 w-3 inline" /> {m.to}</summary>
+                              <ul className="pl-4 mt-1 list-disc text-slate-500">{m.titles.map((t, i) => <li key={i}>{t}</li>)}</ul>
+                            </details>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {renderList('Papers only in the newer version', diff.addedPapers, 'text-slate-500')}
+                    {renderList('Papers only in the older version', diff.removedPapers, 'text-slate-500')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: The outline that accepting a set of suggestions would produce, before anything is applied
+interface SuggestionSetPreviewModalProps {
+  papers: Paper[];
+  preview: SuggestionSetResult;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const SuggestionSetPreviewModal: React.FC<SuggestionSetPreviewModalProps> = ({ papers, preview, onApply, onClose }) => {
+  const diff = diffTaxonomy(takeTaxonomySnapshot('', papers).papers, takeTaxonomySnapshot('', preview.papers).papers);
+  const oldSections = new Set(papers.map(sectionLabel));
+  const outline: Record<string, Record<string, number>> = {};
+  preview.papers.forEach(p => {
+    if (!outline[p.category]) outline[p.category] = {};
+    outline[p.category][p.theme] = (outline[p.category][p.theme] || 0) + 1;
+  });
+  const gone = [...diff.removedSections, ...diff.renamedSections.map(r => r.from)];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-700 flex items-center gap-2"><Layers className='h-6 w-6' /> Preview Suggestion Set</h3>
+            <p className="text-xs text-slate-500 mt-1">The outline after accepting the {preview.applied.length + preview.skipped.length} selected suggestions in list order. Nothing has been changed yet.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto grid md:grid-cols-2 gap-6 text-xs">
+          <div className="space-y-3">
+            <div>
+              <p className="font-bold uppercase mb-1 text-green-700">Applied in order ({preview.applied.length})</p>
+              <ol className="list-decimal pl-4 space-y-0.5 text-slate-700">{preview.applied.map(s => <li key={s.id}>{getSuggestionSignature(s)}</li>)}</ol>
+            </div>
+            {preview.skipped.length > 0 && (
+              <div>
+                <p className="font-bold uppercase mb-1 text-amber-700">Skipped as stale ({preview.skipped.length})</p>
+                <ul className="list-disc pl-4 space-y-0.5 text-slate-700">{preview.skipped.map(({ suggestion, reason }) => <li key={suggestion.id}>{getSuggestionSignature(suggestion)} <span className="text-amber-700">({reason})</span></li>)}</ul>
+              </div>
+            )}
+            {gone.length > 0 && (
+              <div>
+                <p className="font-bold uppercase mb-1 text-red-700">Sub-themes that disappear ({gone.length})</p>
+                <ul className="list-disc pl-4 space-y-0.5 text-slate-400 line-through">{gone.map(label => <li key={label}>{label}</li>)}</ul>
+              </div>
+            )}
+            <p className="text-slate-500">{diff.moves.reduce((n, m) => n + m.titles.length, 0)} papers change sub-theme.</p>
+          </div>
+          <div>
+            <p className="font-bold uppercase mb-1 text-slate-600">Resulting outline</p>
+            <ul className="space-y-2">
+              {Object.keys(outline).sort().map(cat => (
+                <li key={cat}>
+                  <p className="font-bold text-slate-800 flex items-center gap-1"><FolderOpen className="h-3 w-3 text-emerald-600" /> {cat}</p>
+                  <ul className="pl-5 space-y-0.5">
+                    {Object.keys(outline[cat]).sort().map(theme => (
+                      <li key={theme} className="text-slate-700 flex items-center gap-1">
+                        {theme} <span className="text-slate-400">({outline[cat][theme]})</span>
+                        {!oldSections.has(sectionLabel({ category: cat, theme })) && <span className="bg-green-100 text-green-700 text-[10px] px-1 rounded">new</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <div className="p-4 border-t border-slate-200 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 rounded font-bold hover:bg-slate-100">Back</button>
+          <button onClick={onApply} disabled={preview.applied.length === 0} className="px-4 py-2 bg-green-600 text-white rounded font-bold hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"><Check className="h-4 w-4" /> Accept {preview.applied.length} Suggestions</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Type, paste or upload a codebook and choose how strictly extraction follows it
+interface CodebookModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  codebook: Codebook | null;
+  onSave: (codebook: Codebook | null) => void;
+}
+
+const CodebookModal: React.FC<CodebookModalProps> = ({ isOpen, onClose, codebook, onSave }) => {
+  const [text, setText] = useState(() => formatCodebook(codebook?.entries || []));
+  const [mode, setMode] = useState<CodebookMode>(codebook?.mode || 'strict');
+  const fileRef = useRef<HTMLInputElement>(null);
+  if (!isOpen) return null;
+
+  const { entries, problems } = parseCodebook(text);
+  const categoryCount = new Set(entries.map(e => e.category)).size;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    const reader = new FileReader();
+    reader.onload = (evt) => setText(cleanRawText(evt.target?.result as string));
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-emerald-700 flex items-center gap-2"><BookCheck className='h-6 w-6' /> Codebook</h3>
+            <p className="text-xs text-slate-500 mt-1">A pre-registered coding scheme for extraction. One sub-theme per line: <code>Category | Sub-Theme | Definition | Example; Example</code>. CSV and JSON files with those columns work too.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileRef.current?.click()} className="px-3 py-1.5 border border-slate-300 text-slate-600 rounded text-xs font-bold hover:bg-slate-100 flex items-center gap-1"><Upload className="h-3 w-3" /> Upload File</button>
+            <input ref={fileRef} type="file" accept=".txt,.csv,.tsv,.json" onChange={handleFile} className="hidden" />
+            <span className="text-xs text-slate-500">{entries.length} sub-themes in {categoryCount} categories</span>
+          </div>
+          <textarea value={text} onChange={e => setText(e.target.value)} rows={12} placeholder={"Phenology | Flowering Time | Shifts in the timing of flowering | earlier bloom; delayed anthesis\nPhenology | Leaf-out | Timing of spring leaf emergence"} className="w-full p-2 text-xs font-mono border border-slate-300 rounded" />
+          {problems.length > 0 && (
+            <ul className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2 space-y-0.5">{problems.map((p, i) => <li key={i}>{p}</li>)}</ul>
+          )}
+          <div className="space-y-1">
+            <label className="flex items-start gap-2 cursor-pointer text-xs text-slate-700">
+              <input type="radio" checked={mode === 'strict'} onChange={() => setMode('strict')} className="mt-0.5" />
+              <span><b>Strict:</b> every paper is classified into a codebook entry, or filed under "{CODEBOOK_OTHER}".</span>
+            </label>
+            <label className="flex items-start gap-2 cursor-pointer text-xs text-slate-700">
+              <input type="radio" checked={mode === 'seeded'} onChange={() => setMode('seeded')} className="mt-0.5" />
+              <span><b>Seeded:</b> the AI may propose new sub-themes when nothing fits. You approve or reject them in the List view.</span>
+            </label>
+          </div>
+        </div>
+        <div className="p-4 border-t border-slate-200 flex justify-between shrink-0">
+          <button onClick={() => { onSave(null); onClose(); }} disabled={!codebook} className="px-4 py-2 text-red-600 rounded font-bold hover:bg-red-50 disabled:opacity-50">Remove Codebook</button>
+          <button onClick={() => { onSave({ mode, entries }); onClose(); }} disabled={entries.length === 0} className="px-4 py-2 bg-emerald-600 text-white rounded font-bold hover:bg-emerald-700 disabled:opacity-50">Use Codebook</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Chooses an existing sub-theme, grouped by main category
+const SectionPicker = ({ taxonomy, subTaxonomy = {}, onPick, label = 'Move to…', disabled = false }: { taxonomy: Taxonomy, subTaxonomy?: SubTaxonomy, onPick: (category: string, theme: string, subSubTheme?: string) => void, label?: string, disabled?: boolean }) => (
+  <select value="" disabled={disabled} onChange={e => { const [category, theme, subSubTheme] = e.target.value.split('|||'); if (category) onPick(category, theme, subSubTheme); }} className="p-1 text-xs border border-slate-300 rounded bg-white max-w-[16rem] disabled:opacity-50">
+    <option value="">{label}</option>
+    {Object.keys(taxonomy).sort().map(category => (
+      <optgroup key={category} label={category}>
+        {taxonomy[category].slice().sort().flatMap(theme => [
+          <option key={theme} value={`${category}|||${theme}`}>{theme}</option>,
+          ...(subTaxonomy[`${category} ||| ${theme}`] || []).slice().sort().map(sub => <option key={`${theme}|||${sub}`} value={`${category}|||${theme}|||${sub}`}>{'\u00a0\u00a0\u00a0'}› {sub}</option>)
+        ])}
+      </optgroup>
+    ))}
+  </select>
+);
+
+// NEW: Dropdown log of the undo/redo history
+const EditHistoryLog = ({ history, onClose }: { history: EditHistory, onClose: () => void }) => (
+  <div className="absolute right-0 top-full mt-1 w-96 bg-white border border-slate-200 rounded-lg shadow-xl z-20">
+    <div className="px-3 py-2 border-b border-slate-100 flex justify-between items-center">
+      <span className="text-xs font-bold text-slate-600 flex items-center gap-1"><History className="h-3 w-3" /> Edit History</span>
+      <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="h-3 w-3" /></button>
+    </div>
+    <div className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+      {history.undo.length === 0 && history.redo.length === 0 && <p className="p-3 text-xs text-slate-400 italic">No edits yet. Renames, drags, accepted suggestions, normalization, audit fixes and merges will appear here.</p>}
+      {history.redo.slice().reverse().map(entry => (
+        <div key={entry.id} className="px-3 py-2 opacity-50">
+          <p className="text-xs font-medium text-slate-600 line-through">{entry.label}</p>
+          <p className="text-[10px] text-slate-400">Undone · {entry.summary}</p>
+        </div>
+      ))}
+      {history.undo.slice().reverse().map((entry, i) => (
+        <div key={entry.id} className={`px-3 py-2 ${i === 0 ? 'bg-emerald-50' : ''}`}>
+          <p className="text-xs font-medium text-slate-800">{entry.label}</p>
+          <p className="text-[10px] text-slate-500">{new Date(entry.at).toLocaleTimeString()} · {entry.summary}</p>
+        </div>
+      ))}
+    </div>
+    <p className="px-3 py-2 border-t border-slate-100 text-[10px] text-slate-400">Ctrl/⌘+Z to undo, Ctrl/⌘+Shift+Z or Ctrl+Y to redo. Starting an extraction run begins a new history.</p>
+  </div>
+);
+
+// NEW: Side-by-side conflict resolution for merging another project file
+const ProjectMergeModal = ({ merge, onApply, onCancel }: { merge: ProjectMerge | null, onApply: (choices: Record<string, 'local' | 'incoming'>) => void, onCancel: () => void }) => {
+  const [choices, setChoices] = useState<Record<string, 'local' | 'incoming'>>({});
+  if (!merge) return null;
+
+  const byPaper = new Map<string, MergeConflict[]>();
+  merge.conflicts.forEach(c => byPaper.set(c.localId, [...(byPaper.get(c.localId) || []), c]));
+  const chooseAll = (side: 'local' | 'incoming') => setChoices(Object.fromEntries(merge.conflicts.map(c => [c.id, side])));
+  const fieldLabel = (field: MergeField) => MERGE_FIELDS.find(f => f.field === field)?.label;
+  const cell = (conflict: MergeConflict, side: 'local' | 'incoming') => {
+    const selected = (choices[conflict.id] || 'local') === side;
+    return (
+      <button onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))} className={`flex-1 text-left p-2 rounded border text-xs ${selected ? (side === 'local' ? 'border-emerald-400 bg-emerald-50 text-emerald-900' : 'border-blue-400 bg-blue-50 text-blue-900') : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}>
+        {selected && <Check className="h-3 w-3 inline mr-1" />}{side === 'local' ? conflict.local : conflict.incoming}
+      </button>
+    );
+  };
+
   return (
     <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl transform transition-all duration-300 scale-100 opacity-100 flex flex-col max-h-[90vh]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh]">
         <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
-          <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><Zap className='h-6 w-6 text-yellow-500' /> Synthesis & Contradiction Analysis</h3>
-          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+          <div>
+            <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><ArrowLeftRight className='h-6 w-6' /> Merge "{merge.incoming.projectName}"</h3>
+            <p className="text-xs text-slate-500 mt-1">{merge.matched.length} papers matched · {merge.added.length} new papers will be added · {merge.filled} empty fields filled in · {merge.conflicts.length} conflicts</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-4">
+          {merge.conflicts.length === 0 ? (
+            <p className="text-xs text-green-700 bg-green-50 p-2 rounded border border-green-100 flex items-center gap-1"><Check className="h-3 w-3 shrink-0" /> No conflicting edits. Merging adds the new papers and fills in empty fields.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-bold text-slate-600 flex-1">Choose which value to keep for each conflict. Unchosen conflicts keep the current workspace value.</span>
+                <button onClick={() => chooseAll('local')} className="px-2 py-1 rounded bg-emerald-100 text-emerald-700 font-bold hover:bg-emerald-200">Keep all mine</button>
+                <button onClick={() => chooseAll('incoming')} className="px-2 py-1 rounded bg-blue-100 text-blue-700 font-bold hover:bg-blue-200">Take all theirs</button>
+              </div>
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-[10px] font-bold uppercase text-slate-400 px-1">
+                <span>Field</span><span>This workspace</span><span>{merge.incoming.fileName}</span>
+              </div>
+              {Array.from(byPaper.values()).map(paperConflicts => (
+                <div key={paperConflicts[0].localId} className="border border-slate-200 rounded p-3 space-y-2">
+                  <p className="text-sm font-bold text-slate-800">{paperConflicts[0].title}</p>
+                  {paperConflicts.map(conflict => (
+                    <div key={conflict.id} className="grid grid-cols-[8rem_1fr] gap-2 items-stretch">
+                      <span className="text-xs font-medium text-slate-500 pt-2">{fieldLabel(conflict.field)}</span>
+                      <div className="flex gap-2">{cell(conflict, 'local')}{cell(conflict, 'incoming')}</div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Cancel</button>
+          <button onClick={() => onApply(choices)} className="px-4 py-2 bg-blue-600 text-white rounded font-bold hover:bg-blue-700 flex items-center gap-2"><Check className="h-4 w-4" /> Merge</button>
         </div>
-        <div className="p-6 overflow-y-auto">
-          <p className='text-sm text-slate-600 mb-4'><span className='font-bold text-slate-700'>Section:</span> {category} {theme ? `/ ${theme}` : '(Main Category Summary)'}</p>
-          {isSynthesizing ? (<div className="flex flex-col items-center justify-center h-40 bg-slate-50 rounded-lg p-4"><Loader2 className="h-8 w-8 text-blue-500 animate-spin" /><p className='mt-3 text-sm text-blue-600 font-medium'>Generating summary points...</p>{retryStatus && <p className="text-xs text-amber-600 mt-1">{retryStatus}</p>}</div>) : result && (<div className='space-y-6'><div className="bg-blue-50 p-4 rounded-lg border border-blue-200"><h4 className='font-bold text-lg text-blue-800 mb-2'>1. Summary Points & Citations</h4><div className='text-slate-800 leading-relaxed whitespace-pre-wrap'>{Array.isArray(summaryContent) ? (<ul className="list-disc pl-5 space-y-2">{summaryContent.map((line, idx) => (<li key={idx} className="pl-1">{typeof line === 'string' ? line : JSON.stringify(line)}</li>))}</ul>) : String(summaryContent)}</div>{result.modelUsed && (<div className="mt-4 pt-2 border-t border-blue-200 text-xs text-blue-400 flex items-center gap-1"><Cpu className="h-3 w-3" /> Generated with: {result.modelUsed}</div>)}</div><div className={`p-4 rounded-lg border ${!hasContradictions ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}><h4 className={`font-bold text-lg mb-2 flex items-center gap-2 ${!hasContradictions ? 'text-green-800' : 'text-red-800'}`}>{!hasContradictions ? <Check className='h-5 w-5' /> : <AlertCircle className='h-5 w-5' />} 2. Contradiction Analysis</h4><p className='text-slate-800 leading-relaxed'>{String(analysisText)}</p></div></div>)}</div>
       </div>
     </div>
   );
 };
 
-// NEW: Bulk Synthesis Modal (Pop-up before export)
-interface BulkSynthesisModalProps {
+// NEW: Create, rename, duplicate, archive and delete review projects
+interface ProjectManagerModalProps {
   isOpen: boolean;
   onClose: () => void;
-  results: any[] | null;
-  type: 'sub' | 'main';
+  index: ProjectIndex;
+  isBusy: boolean; // A run is in progress, so the workspace cannot be switched
+  onOpen: (projectId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (projectId: string, name: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onSetArchived: (projectId: string, archived: boolean) => void;
+  onDelete: (projectId: string) => void;
 }
 
-const BulkSynthesisModal: React.FC<BulkSynthesisModalProps> = ({ isOpen, onClose, results, type }) => {
-  if (!isOpen || !results) return null;
+const ProjectManagerModal: React.FC<ProjectManagerModalProps> = ({ isOpen, onClose, index, isBusy, onOpen, onCreate, onRename, onDuplicate, onSetArchived, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string, value: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  if (!isOpen) return null;
 
-  const handleExport = () => {
-    let htmlContent = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${type === 'sub' ? 'Sub-Theme' : 'Main Category'} Synthesis</title><style>body{font-family:sans-serif;margin:40px} h1{color:#047857} .contradiction{background:#fef2f2;padding:10px;border:1px solid #fca5a5}</style></head><body><h1>${type === 'sub' ? 'Sub-Theme' : 'Main Category'} Synthesis</h1>`;
-    
-    results.forEach(s => {
-       const sum = Array.isArray(s.result.summary) ? s.result.summary : [s.result.summary];
-       if (type === 'sub') {
-           htmlContent += `<h2>${s.category}</h2><h3>${s.theme}</h3><ul>${sum.map((l:string)=>`<li>${l}</li>`).join('')}</ul><div class="contradiction"><strong>Contradictions:</strong> ${s.result.contradictionAnalysis}</div>`;
-       } else {
-           htmlContent += `<h2>${s.category}</h2><ul>${sum.map((l:string)=>`<li>${l}</li>`).join('')}</ul><div class="contradiction"><strong>Contradictions:</strong> ${s.result.contradictionAnalysis}</div><hr/>`;
-       }
-    });
+  const activeProjects = index.projects.filter(p => !p.archived);
+  const archivedProjects = index.projects.filter(p => p.archived);
 
-    htmlContent += '</body></html>';
-    
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = `synthesis_${type}.html`;
-    document.body.appendChild(link);
-    link.click();
-    setTimeout(() => document.body.removeChild(link), 100);
+  const submitNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  const saveRename = () => {
+    if (renaming && renaming.value.trim()) onRename(renaming.id, renaming.value.trim());
+    setRenaming(null);
+  };
+
+  const renderRow = (project: ProjectMeta) => {
+    const isActive = project.id === index.activeId;
+    return (
+      <li key={project.id} className={`p-3 rounded border flex items-center gap-3 ${isActive ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200 bg-white'}`}>
+        <div className="flex-1 min-w-0">
+          {renaming?.id === project.id ? (
+            <input autoFocus value={renaming.value} onChange={e => setRenaming({ id: project.id, value: e.target.value })} onBlur={saveRename} onKeyDown={e => { if (e.key === 'Enter') saveRename(); if (e.key === 'Escape') setRenaming(null); }} className="w-full p-1 text-sm border rounded" />
+          ) : (
+            <p className="font-bold text-sm text-slate-800 truncate">{project.name}{isActive && <span className="ml-2 text-[10px] uppercase text-emerald-600">Open</span>}</p>
+          )}
+          <p className="text-[11px] text-slate-500 truncate">{project.paperCount} papers · updated {new Date(project.updatedAt).toLocaleString()}{project.reviewTopic && ` · ${project.reviewTopic}`}</p>
+        </div>
+        {confirmDeleteId === project.id ? (
+          <div className="flex items-center gap-1 text-xs">
+            <span className="text-red-600 font-medium">Delete permanently?</span>
+            <button onClick={() => { onDelete(project.id); setConfirmDeleteId(null); }} className="px-2 py-1 bg-red-600 text-white rounded font-bold hover:bg-red-700">Delete</button>
+            <button onClick={() => setConfirmDeleteId(null)} className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded">Keep</button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 shrink-0">
+            {!isActive && <button onClick={() => onOpen(project.id)} disabled={isBusy} className="px-2 py-1 text-xs bg-emerald-600 text-white rounded font-bold hover:bg-emerald-700 disabled:opacity-50">Open</button>}
+            <button onClick={() => setRenaming({ id: project.id, value: project.name })} className="p-1.5 text-slate-400 hover:text-blue-600 rounded hover:bg-slate-100" title="Rename"><Edit2 className="h-4 w-4" /></button>
+            <button onClick={() => onDuplicate(project.id)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded hover:bg-slate-100" title="Duplicate"><Copy className="h-4 w-4" /></button>
+            {/* The open project cannot be archived or deleted; switch to another one first */}
+            {!isActive && <button onClick={() => onSetArchived(project.id, !project.archived)} className="p-1.5 text-slate-400 hover:text-amber-600 rounded hover:bg-slate-100" title={project.archived ? 'Unarchive' : 'Archive'}>{project.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}</button>}
+            {!isActive && <button onClick={() => setConfirmDeleteId(project.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded hover:bg-slate-100" title="Delete"><Trash2 className="h-4 w-4" /></button>}
+          </div>
+        )}
+      </li>
+    );
   };
 
   return (
     <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl transform transition-all duration-300 scale-100 opacity-100 flex flex-col max-h-[90vh]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]">
         <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
-          <h3 className="text-xl font-bold text-emerald-700 flex items-center gap-2">
-            <Zap className='h-6 w-6 text-yellow-500' /> 
-            {type === 'sub' ? 'Synthesized Sub-Themes' : 'Synthesized Main Categories'}
-          </h3>
+          <div>
+            <h3 className="text-xl font-bold text-emerald-700 flex items-center gap-2"><FolderOpen className='h-6 w-6' /> Projects</h3>
+            <p className="text-xs text-slate-500 mt-1">Each project keeps its own topic, model settings, papers and taxonomy in this browser.</p>
+          </div>
           <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
         </div>
-        <div className="p-6 overflow-y-auto space-y-6">
-            {results.map((item, idx) => (
-                <div key={idx} className="border-b border-slate-100 pb-6 last:border-0">
-                    <h4 className="text-lg font-bold text-slate-800">{item.category} {type === 'sub' && <span className="text-slate-500 font-normal">/ {item.theme}</span>}</h4>
-                    
-                    <div className="mt-2 bg-blue-50 p-3 rounded text-sm text-slate-800">
-                        <ul className="list-disc pl-5 space-y-1">
-                            {(Array.isArray(item.result.summary) ? item.result.summary : [item.result.summary]).map((line: string, i: number) => (
-                                <li key={i}>{line}</li>
-                            ))}
-                        </ul>
-                    </div>
-                    
-                    {item.result.contradictionAnalysis && !item.result.contradictionAnalysis.toLowerCase().includes("no clear contradictions") && (
-                        <div className="mt-2 bg-red-50 p-3 rounded text-sm text-red-800 border border-red-100 flex gap-2">
-                            <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
-                            <div>
-                                <span className="font-bold">Contradictions:</span> {item.result.contradictionAnalysis}
-                            </div>
-                        </div>
-                    )}
-                </div>
-            ))}
+        <div className="p-6 overflow-y-auto space-y-4">
+          <form onSubmit={submitNew} className="flex gap-2">
+            <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="New project name, e.g. Fire ecology review" className="flex-1 p-2 text-sm border border-slate-300 rounded" />
+            <button type="submit" disabled={!newName.trim() || isBusy} className="px-3 py-2 bg-emerald-600 text-white rounded text-sm font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-1"><Plus className="h-4 w-4" /> Create</button>
+          </form>
+          {isBusy && <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">Projects cannot be switched while extraction or synthesis is running.</p>}
+          <ul className="space-y-2">{activeProjects.map(renderRow)}</ul>
+          {archivedProjects.length > 0 && (
+            <div>
+              <button onClick={() => setShowArchived(v => !v)} className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">{showArchived ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />} Archived ({archivedProjects.length})</button>
+              {showArchived && <ul className="space-y-2 mt-2 opacity-75">{archivedProjects.map(renderRow)}</ul>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Form for registering a model served by another provider (OpenAI-compatible endpoint or local Ollama)
+const CustomModelForm = ({ onAdd, onCancel }: { onAdd: (model: ModelConfig) => void, onCancel: () => void }) => {
+  const [backend, setBackend] = useState<Exclude<ProviderBackend, 'gemini'>>('ollama');
+  const [baseUrl, setBaseUrl] = useState(PROVIDER_DEFAULTS.ollama.baseUrl);
+  const [modelName, setModelName] = useState('');
+  const [authStyle, setAuthStyle] = useState<AuthStyle>(PROVIDER_DEFAULTS.ollama.authStyle);
+  const [key, setKey] = useState('');
+  const [supportsJsonMode, setSupportsJsonMode] = useState(true);
+  const [supportsSystemPrompt, setSupportsSystemPrompt] = useState(true);
+  const [maxConcurrency, setMaxConcurrency] = useState(1);
+
+  const changeBackend = (next: Exclude<ProviderBackend, 'gemini'>) => {
+    setBackend(next);
+    setBaseUrl(PROVIDER_DEFAULTS[next].baseUrl);
+    setAuthStyle(PROVIDER_DEFAULTS[next].authStyle);
+  };
+
+  const handleAdd = () => {
+    const name = modelName.trim();
+    if (!name || !baseUrl.trim()) return;
+    onAdd({
+      id: `custom:${backend}:${baseUrl.trim()}:${name}`,
+      model: name,
+      name: `${name} (${backend === 'ollama' ? 'Ollama' : 'OpenAI-compatible'})`,
+      desc: `Custom model served from ${baseUrl.trim()}.`,
+      type: 'custom',
+      backend,
+      baseUrl: baseUrl.trim(),
+      authStyle,
+      supportsJsonMode,
+      supportsSystemPrompt,
+      batchTokenBudget: 6000,
+      maxConcurrency: Math.max(1, Math.min(8, Math.round(maxConcurrency) || 1)),
+      apiKey: authStyle === 'bearer' ? key.trim() : undefined
+    });
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white border border-slate-200 rounded space-y-2">
+      <select value={backend} onChange={e => changeBackend(e.target.value as Exclude<ProviderBackend, 'gemini'>)} className="w-full p-1.5 text-xs border rounded bg-white">
+        {(Object.keys(PROVIDER_DEFAULTS) as Exclude<ProviderBackend, 'gemini'>[]).map(b => <option key={b} value={b}>{PROVIDER_DEFAULTS[b].label}</option>)}
+      </select>
+      <input value={baseUrl} onChange={e => setBaseUrl(e.target.value)} placeholder="Base URL" className="w-full p-1.5 text-xs border rounded" />
+      <input value={modelName} onChange={e => setModelName(e.target.value)} placeholder={backend === 'ollama' ? 'Model name, e.g. llama3.1:8b' : 'Model name, e.g. gpt-4o-mini'} className="w-full p-1.5 text-xs border rounded" />
+      <select value={authStyle} onChange={e => setAuthStyle(e.target.value as AuthStyle)} className="w-full p-1.5 text-xs border rounded bg-white">
+        <option value="bearer">Bearer token (Authorization header)</option>
+        <option value="none">No authentication</option>
+      </select>
+      {authStyle === 'bearer' && <input type="password" value={key} onChange={e => setKey(e.target.value)} placeholder="API Key" className="w-full p-1.5 text-xs border rounded" />}
+      <label className="flex items-center gap-2 text-xs text-slate-600"><input type="checkbox" checked={supportsJsonMode} onChange={() => setSupportsJsonMode(!supportsJsonMode)} /> Supports JSON mode</label>
+      <label className="flex items-center gap-2 text-xs text-slate-600">Parallel requests <input type="number" min={1} max={8} value={maxConcurrency} onChange={e => setMaxConcurrency(Number(e.target.value))} className="w-14 p-1 text-xs border rounded" /></label>
+      <label className="flex items-center gap-2 text-xs text-slate-600"><input type="checkbox" checked={supportsSystemPrompt} onChange={() => setSupportsSystemPrompt(!supportsSystemPrompt)} /> Supports system prompts</label>
+      <div className="flex gap-2 justify-end">
+        <button onClick={onCancel} className="px-2 py-1 text-xs text-slate-500 hover:bg-slate-100 rounded">Cancel</button>
+        <button onClick={handleAdd} disabled={!modelName.trim() || !baseUrl.trim()} className="px-2 py-1 text-xs bg-blue-600 text-white rounded font-bold hover:bg-blue-700 disabled:opacity-50">Add Model</button>
+      </div>
+    </div>
+  );
+};
+
+// NEW: Run Estimate Modal (requests, tokens and quota before a multi-request run)
+const RunEstimateModal = ({ estimate, onConfirm, onCancel }: { estimate: RunEstimate | null, onConfirm: () => void, onCancel: () => void }) => {
+  if (!estimate) return null;
+  const remaining = estimate.dailyLimit !== undefined ? Math.max(0, estimate.dailyLimit - estimate.usedToday) : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><BarChart2 className='h-6 w-6' /> {estimate.title}: Run Estimate</h3>
+            <p className="text-xs text-slate-500 mt-1">{estimate.modelName}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-blue-50 border border-blue-100 rounded p-3"><p className="text-2xl font-bold text-blue-700">{estimate.calls.length}</p><p className="text-[10px] uppercase font-bold text-blue-500">Requests</p></div>
+            <div className="bg-slate-50 border border-slate-100 rounded p-3"><p className="text-2xl font-bold text-slate-700">~{estimate.inputTokens.toLocaleString()}</p><p className="text-[10px] uppercase font-bold text-slate-500">Input Tokens</p></div>
+            <div className="bg-slate-50 border border-slate-100 rounded p-3"><p className="text-2xl font-bold text-slate-700">~{estimate.outputTokens.toLocaleString()}</p><p className="text-[10px] uppercase font-bold text-slate-500">Output Tokens</p></div>
+          </div>
+          {estimate.fitsDailyLimit ? (
+            <p className="text-xs text-green-700 bg-green-50 p-2 rounded border border-green-100 flex items-center gap-1"><Check className="h-3 w-3 shrink-0" /> Fits within today's limit{remaining !== undefined && ` (${remaining.toLocaleString()} of ~${estimate.dailyLimit?.toLocaleString()} requests left)`}.</p>
+          ) : (
+            <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 flex items-center gap-1"><AlertCircle className="h-3 w-3 shrink-0" /> This run needs {estimate.calls.length} requests but only ~{remaining} of ~{estimate.dailyLimit} are left today on the free tier. It will probably stop part-way with a quota error; consider switching models or splitting the run.</p>
+          )}
+          {estimate.estimatedCost !== undefined && (
+            <p className="text-xs text-slate-500">Free tier: no charge. Paid tier: ≈ ${estimate.estimatedCost < 0.01 ? '<0.01' : estimate.estimatedCost.toFixed(2)} USD.</p>
+          )}
+          <table className="w-full text-xs border border-slate-200">
+            <thead className="bg-slate-100 text-slate-600 text-left">
+              <tr><th className="p-2">Request</th><th className="p-2 text-right">Input</th><th className="p-2 text-right">Output</th></tr>
+            </thead>
+            <tbody>
+              {estimate.calls.map((c, i) => (
+                <tr key={i} className="border-t border-slate-100">
+                  <td className="p-2 text-slate-700">{c.label}</td>
+                  <td className="p-2 text-right text-slate-600">~{c.inputTokens.toLocaleString()}</td>
+                  <td className="p-2 text-right text-slate-600">~{c.outputTokens.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400">Token counts assume ~4 characters per token. Responses already in the response cache cost nothing.</p>
         </div>
         <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
-            <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Close</button>
-            <button onClick={handleExport} className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 font-bold flex items-center gap-2">
-                <Download className="h-4 w-4" /> Export HTML
-            </button>
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Cancel</button>
+          <button onClick={onConfirm} className={`px-4 py-2 text-white rounded font-bold flex items-center gap-2 ${estimate.fitsDailyLimit ? 'bg-blue-600 hover:bg-blue-700' : 'bg-amber-500 hover:bg-amber-600'}`}><Play className="h-4 w-4" /> {estimate.fitsDailyLimit ? 'Start' : 'Run Anyway'}</button>
         </div>
       </div>
     </div>
   );
 };
 
-// NEW: Manual Fix Modal
-const ManualFixModal = ({ isOpen, text, onSave, onCancel }: { isOpen: boolean, text: string, onSave: (newText: string) => void, onCancel: () => void }) => {
-  const [fixedText, setFixedText] = useState(text);
-  useEffect(() => { setFixedText(text); }, [text]);
-  if (!isOpen) return null;
+// NEW: Import Preview Modal (shown before any API call is made)
+const ImportPreviewModal = ({ preview, onConfirm, onCancel }: { preview: ImportedRecordSet | null, onConfirm: () => void, onCancel: () => void }) => {
+  if (!preview) return null;
+  const { records } = preview;
+  const withAbstract = records.filter(r => r.abstract).length;
+  const withYear = records.filter(r => r.year).length;
+  const withDoi = records.filter(r => r.doi).length;
+  const previewRows = records.slice(0, 100);
+
   return (
-    <div className="fixed inset-0 bg-slate-900 bg-opacity-80 flex items-center justify-center z-[60] p-6">
-      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 border-l-4 border-amber-500 flex flex-col h-[80vh]">
-        <div className="flex justify-between items-start mb-4">
-            <div>
-                <h2 className="text-xl font-bold text-amber-600 flex items-center gap-2"><Wrench className="h-6 w-6"/> Data Repair Required</h2>
-                <p className="text-slate-600 text-sm mt-1">The AI couldn't parse this batch, likely due to encoding errors (Mojibake) or garbled text in the citations below. Please edit the text to fix obvious errors, then click "Retry Batch".</p>
-            </div>
-            <button onClick={onCancel} className="text-slate-400 hover:text-slate-600"><X className="h-5 w-5" /></button>
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-blue-700 flex items-center gap-2"><FileText className='h-6 w-6' /> Import Preview</h3>
+            <p className="text-xs text-slate-500 mt-1">{preview.fileName} · {IMPORT_FORMAT_LABELS[preview.format]}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100 transition-colors"><X className='h-5 w-5' /></button>
         </div>
-        <div className="flex-1 border border-slate-300 rounded overflow-hidden relative">
-            <div className="absolute top-0 right-0 bg-slate-100 px-2 py-1 text-[10px] text-slate-500 font-bold border-b border-l rounded-bl font-mono">RAW INPUT</div>
-            <textarea 
-               className="w-full h-full p-4 font-mono text-xs bg-slate-50 text-slate-700 resize-none focus:ring-0 outline-none" 
-               value={fixedText} 
-               onChange={(e) => setFixedText(e.target.value)} 
-               spellCheck={false}
-            />
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-4 gap-3 text-center">
+            <div className="bg-blue-50 border border-blue-100 rounded p-3"><p className="text-2xl font-bold text-blue-700">{records.length}</p><p className="text-[10px] uppercase font-bold text-blue-500">Records Recognized</p></div>
+            <div className={`border rounded p-3 ${withAbstract < records.length ? 'bg-amber-50 border-amber-100' : 'bg-green-50 border-green-100'}`}><p className="text-2xl font-bold text-slate-700">{withAbstract}</p><p className="text-[10px] uppercase font-bold text-slate-500">With Abstract</p></div>
+            <div className="bg-slate-50 border border-slate-100 rounded p-3"><p className="text-2xl font-bold text-slate-700">{withYear}</p><p className="text-[10px] uppercase font-bold text-slate-500">With Year</p></div>
+            <div className="bg-slate-50 border border-slate-100 rounded p-3"><p className="text-2xl font-bold text-slate-700">{withDoi}</p><p className="text-[10px] uppercase font-bold text-slate-500">With DOI</p></div>
+          </div>
+          {withAbstract < records.length && (
+            <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 flex items-center gap-1"><AlertCircle className="h-3 w-3 shrink-0" /> {records.length - withAbstract} records have no abstract and will be classified from their title only.</p>
+          )}
+          <table className="w-full text-xs border border-slate-200">
+            <thead className="bg-slate-100 text-slate-600 text-left">
+              <tr><th className="p-2">#</th><th className="p-2">Title</th><th className="p-2">Authors</th><th className="p-2">Year</th><th className="p-2">Source</th><th className="p-2">Abstract</th></tr>
+            </thead>
+            <tbody>
+              {previewRows.map((r, i) => (
+                <tr key={r.id} className="border-t border-slate-100 align-top">
+                  <td className="p-2 text-slate-400">{i + 1}</td>
+                  <td className="p-2 text-slate-800 font-medium">{r.title}</td>
+                  <td className="p-2 text-slate-600">{r.authors.length > 2 ? `${r.authors[0]} et al.` : r.authors.join('; ') || '—'}</td>
+                  <td className="p-2 text-slate-600">{r.year || '—'}</td>
+                  <td className="p-2 text-slate-600">{r.journal || '—'}</td>
+                  <td className="p-2">{r.abstract ? <Check className="h-3 w-3 text-green-600" /> : <X className="h-3 w-3 text-amber-500" />}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {records.length > previewRows.length && <p className="text-xs text-slate-400 text-center">Showing the first {previewRows.length} of {records.length} records.</p>}
         </div>
-        <div className="flex gap-3 justify-end mt-4">
-          <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded">Stop Extraction</button>
-          <button onClick={() => onSave(fixedText)} className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 flex items-center gap-2 font-bold"><RefreshCw className="h-4 w-4"/> Retry Batch</button>
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded font-medium">Cancel</button>
+          <button onClick={onConfirm} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 font-bold flex items-center gap-2"><Check className="h-4 w-4" /> Use {records.length} Records</button>
         </div>
       </div>
     </div>
   );
 };
 
-const QuotaModal = ({ isOpen, onClose, exportFn }: { isOpen: boolean, onClose: () => void, exportFn: () => void }) => {
-  if (!isOpen) return null;
+// NEW: Extraction Coverage Panel
+interface CoverageReportPanelProps {
+  report: CoverageReport;
+  isProcessing: boolean;
+  onRerunMissing: () => void;
+  onRemovePaper: (paperId: string) => void;
+  onKeepPaper: (paperId: string) => void;
+  onClose: () => void;
+}
+
+const CoverageReportPanel: React.FC<CoverageReportPanelProps> = ({ report, isProcessing, onRerunMissing, onRemovePaper, onKeepPaper, onClose }) => {
+  const [expanded, setExpanded] = useState(false);
+  const covered = report.processed - report.missing.length;
+  const notRun = report.totalRecords - report.processed;
+  const hasIssues = report.missing.length > 0 || report.unmatched.length > 0 || notRun > 0;
+
   return (
-    <div className="fixed inset-0 bg-slate-900 bg-opacity-80 flex items-center justify-center z-[60] p-6">
-      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 border-l-4 border-red-500">
-        <h2 className="text-2xl font-bold text-red-600 mb-4 flex items-center gap-2"><AlertCircle className="h-6 w-6" /> Daily Quota Exceeded</h2>
-        <p className="text-slate-700 mb-4">Google's API has blocked further requests. This usually means you have hit the <strong>free tier daily limit</strong> for the selected model.</p>
-        <div className="bg-slate-100 p-4 rounded mb-4 text-sm text-slate-600">
-          <p className="font-semibold mb-2">Recommended Actions:</p>
-          <ul className="list-disc pl-5 space-y-1"><li><strong>Switch Models:</strong> Use 'Gemma 3' (higher limits) for sorting.</li><li><strong>Export Now:</strong> Save your JSON state and continue tomorrow.</li><li><strong>Wait:</strong> Quotas typically reset at midnight Pacific Time.</li></ul>
+    <div className={`p-4 rounded-lg shadow-md border mb-4 ${hasIssues ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className={`font-bold text-sm flex items-center gap-2 ${hasIssues ? 'text-amber-800' : 'text-green-800'}`}>
+            {hasIssues ? <AlertCircle className="h-4 w-4" /> : <Check className="h-4 w-4" />} Extraction Coverage
+          </h3>
+          <p className="text-xs text-slate-700 mt-1">
+            {covered} of {report.totalRecords} input papers produced at least one entry.
+            {report.missing.length > 0 && <> <strong>{report.missing.length} missing.</strong></>}
+            {notRun > 0 && !isProcessing && <> <strong>{notRun} not processed</strong> because the run did not finish; use Resume to continue it.</>}
+            {report.unmatched.length > 0 && <> <strong>{report.unmatched.length} extracted entries</strong> could not be matched to any input paper.</>}
+          </p>
         </div>
-        <div className="flex gap-3 justify-end"><button onClick={onClose} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded">Close</button><button onClick={() => { exportFn(); onClose(); }} className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 flex items-center gap-2"><Download className="h-4 w-4" /> Export Progress</button></div>
+        <div className="flex items-center gap-2 ml-4">
+          {hasIssues && <button onClick={() => setExpanded(e => !e)} className="text-xs text-blue-600 hover:underline">{expanded ? 'Hide' : 'Details'}</button>}
+          {report.missing.length > 0 && (
+            <button onClick={onRerunMissing} disabled={isProcessing} className="flex items-center gap-1 px-2 py-1 bg-amber-500 text-white rounded text-xs font-bold hover:bg-amber-600 disabled:opacity-50"><RefreshCw className="h-3 w-3" /> Re-run {report.missing.length} Missing</button>
+          )}
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="h-4 w-4" /></button>
+        </div>
+      </div>
+      {expanded && hasIssues && (
+        <div className="mt-3 grid grid-cols-1 lg:grid-cols-2 gap-4 text-xs">
+          <div>
+            <p className="font-bold text-slate-600 uppercase text-[10px] mb-1">Missing (never extracted)</p>
+            {report.missing.length === 0 ? <p className="text-slate-400 italic">None</p> : (
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {report.missing.map(r => <li key={r.id} className="bg-white p-1.5 rounded border border-amber-100 text-slate-700">{r.label}</li>)}
+              </ul>
+            )}
+          </div>
+          <div>
+            <p className="font-bold text-slate-600 uppercase text-[10px] mb-1">Unmatched (possibly hallucinated)</p>
+            {report.unmatched.length === 0 ? <p className="text-slate-400 italic">None</p> : (
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {report.unmatched.map(u => (
+                  <li key={u.paperId} className="bg-white p-1.5 rounded border border-red-100 text-slate-700 flex justify-between items-center gap-2">
+                    <span><span className="text-slate-400">Batch {u.batch}:</span> {u.title || '(untitled)'}</span>
+                    <span className="flex gap-1 shrink-0">
+                      <button onClick={() => onKeepPaper(u.paperId)} className="p-1 bg-green-100 text-green-700 rounded hover:bg-green-200" title="Keep this entry"><Check className="h-3 w-3" /></button>
+                      <button onClick={() => onRemovePaper(u.paperId)} className="p-1 bg-red-100 text-red-700 rounded hover:bg-red-200" title="Remove this entry from the workspace"><Trash2 className="h-3 w-3" /></button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// NEW: Validation Summary Panel (one row per AI response that was checked)
+const ValidationSummaryPanel = ({ reports, onClose }: { reports: ValidationReport[], onClose: () => void }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const totalCoerced = reports.reduce((sum, r) => sum + r.coerced.length, 0);
+  const totalRejected = reports.reduce((sum, r) => sum + r.rejected.length, 0);
+  const hasIssues = totalRejected > 0;
+
+  return (
+    <div className={`p-4 rounded-lg shadow-md border mb-4 ${hasIssues ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-200'}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className={`font-bold text-sm flex items-center gap-2 ${hasIssues ? 'text-amber-800' : 'text-slate-700'}`}>
+            <ShieldCheck className="h-4 w-4" /> Response Validation
+          </h3>
+          <p className="text-xs text-slate-600 mt-1">
+            Checked {reports.length} AI {reports.length === 1 ? 'response' : 'responses'}: {totalCoerced} {totalCoerced === 1 ? 'value' : 'values'} corrected, <strong>{totalRejected} rejected</strong>.
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-4"><X className="h-4 w-4" /></button>
+      </div>
+      <ul className="mt-3 space-y-1 text-xs max-h-64 overflow-y-auto">
+        {reports.map(r => {
+          const issues = r.coerced.length + r.rejected.length;
+          return (
+            <li key={r.id} className="bg-white rounded border border-slate-100">
+              <button onClick={() => setExpandedId(expandedId === r.id ? null : r.id)} disabled={issues === 0} className="w-full flex justify-between items-center p-1.5 text-left disabled:cursor-default">
+                <span className="font-medium text-slate-700">{r.label}</span>
+                <span className="flex gap-2">
+                  <span className="text-green-700">{r.accepted} accepted</span>
+                  {r.coerced.length > 0 && <span className="text-blue-700">{r.coerced.length} corrected</span>}
+                  {r.rejected.length > 0 && <span className="text-red-700 font-bold">{r.rejected.length} rejected</span>}
+                  {issues > 0 && (expandedId === r.id ? <ChevronDown className="h-3 w-3 text-slate-400" /> : <ChevronRight className="h-3 w-3 text-slate-400" />)}
+                </span>
+              </button>
+              {expandedId === r.id && (
+                <ul className="px-3 pb-2 space-y-0.5">
+                  {r.rejected.map((issue, i) => <li key={`r${i}`} className="text-red-700"><X className="h-3 w-3 inline mr-1" /><strong>{issue.item}:</strong> {issue.reason}</li>)}
+                  {r.coerced.map((issue, i) => <li key={`c${i}`} className="text-blue-700"><RefreshCw className="h-3 w-3 inline mr-1" /><strong>{issue.item}:</strong> {issue.reason}</li>)}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+// NEW: Duplicate Review Panel
+interface DuplicateReviewPanelProps {
+  pairs: DuplicatePair[];
+  papers: Paper[];
+  onMerge: (pair: DuplicatePair) => void;
+  onMarkDistinct: (pair: DuplicatePair) => void;
+  onMergeAll: () => void;
+  onClose: () => void;
+}
+
+const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({ pairs, papers, onMerge, onMarkDistinct, onMergeAll, onClose }) => {
+  const byId = new Map(papers.map(p => [p.id, p]));
+  const livePairs = pairs.filter(pair => byId.has(pair.aId) && byId.has(pair.bId));
+
+  const renderEntry = (p: Paper) => (
+    <div className="flex-1 bg-slate-50 p-2 rounded border border-slate-100 text-xs space-y-0.5 min-w-0">
+      <p className="font-bold text-slate-800">{p.title}</p>
+      <p className="text-slate-500">{p.shortCitation}{p.doi && <> · {p.doi}</>}</p>
+      <p className="text-slate-600"><FolderOpen className="h-3 w-3 inline mr-1" />{p.category} / {p.theme}</p>
+      <p className="text-slate-600">D: {p.driver} → R: {p.response} <span className="text-slate-400">({p.effectDirection})</span></p>
+      <p className="text-slate-500 italic">{p.keyFinding}</p>
+    </div>
+  );
+
+  if (livePairs.length === 0) {
+    return (
+      <div className="p-4 rounded-lg shadow-md border mb-4 bg-green-50 border-green-200 flex justify-between items-center">
+        <p className="text-sm text-green-700 flex items-center gap-2"><Check className="h-4 w-4" /> No duplicate papers found.</p>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="h-4 w-4" /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-lg shadow-md border mb-4 bg-amber-50 border-amber-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-bold text-sm flex items-center gap-2 text-slate-800"><Copy className="h-4 w-4" /> Possible Duplicates ({livePairs.length})</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={onMergeAll} className="flex items-center gap-1 px-2 py-1 bg-green-600 text-white rounded text-xs font-bold hover:bg-green-700"><Check className="h-3 w-3" /> Merge All</button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="h-4 w-4" /></button>
+        </div>
+      </div>
+      <div className="space-y-3 max-h-[400px] overflow-y-auto">
+        {livePairs.map(pair => (
+          <div key={pair.key} className="bg-white p-3 rounded border border-slate-200 shadow-sm">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-[10px] font-bold uppercase text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">{pair.reason}</span>
+              <div className="flex gap-2">
+                <button onClick={() => onMerge(pair)} className="p-2 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors" title="Merge (keeps the better-extracted fields)"><Check className="h-4 w-4" /></button>
+                <button onClick={() => onMarkDistinct(pair)} className="p-2 bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors" title="Not a duplicate (don't flag again)"><X className="h-4 w-4" /></button>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {renderEntry(byId.get(pair.aId)!)}
+              {renderEntry(byId.get(pair.bId)!)}
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -1059,18 +4758,20 @@ interface FlowDiagramProps {
   setIsResponseGrouped: (val: (prev: boolean) => boolean) => void;
   isTermsNormalized: boolean;
   // New props for the button:
-  handleOptimizeTerms: () => Promise<void>;
+  handleOptimizeTerms: (cacheMode?: CacheMode) => Promise<void>;
   isConsolidating: boolean;
   apiKey: string;
+  // Owned by App so the custom order is saved with the project
+  customOrder: SankeyOrder;
+  setCustomOrder: React.Dispatch<React.SetStateAction<SankeyOrder>>;
 }
 
-const FlowDiagram: React.FC<FlowDiagramProps> = ({ papers, onFilter, isDriverGrouped, isResponseGrouped, setIsDriverGrouped, setIsResponseGrouped, isTermsNormalized, handleOptimizeTerms, isConsolidating, apiKey }) => {
+const FlowDiagram: React.FC<FlowDiagramProps> = ({ papers, onFilter, isDriverGrouped, isResponseGrouped, setIsDriverGrouped, setIsResponseGrouped, isTermsNormalized, handleOptimizeTerms, isConsolidating, apiKey, customOrder, setCustomOrder }) => {
   const [zoom, setZoom] = useState(1);
   const [driverFilter, setDriverFilter] = useState('');
   const [responseFilter, setResponseFilter] = useState('');
   const svgRef = useRef<SVGSVGElement>(null);
   const [dragging, setDragging] = useState<{ type: 'driver'|'response', name: string, startY: number } | null>(null);
-  const [customOrder, setCustomOrder] = useState<{ drivers: string[], responses: string[] }>({ drivers: [], responses: [] });
 
   const data = useMemo(() => {
     const drivers: Record<string, number> = {}; const responses: Record<string, number> = {}; const links: Record<string, { count: number, papers: Paper[], effectCounts: Record<string, number> }> = {};
@@ -1120,9 +4821,9 @@ const FlowDiagram: React.FC<FlowDiagramProps> = ({ papers, onFilter, isDriverGro
         <div className="flex items-center gap-2">
            {/* GROUP TERMS BUTTON (LOCAL) */}
             <button 
-              onClick={handleOptimizeTerms}
+              onClick={(e) => handleOptimizeTerms(e.shiftKey ? 'refresh' : 'use')}
               disabled={papers.length === 0 || isConsolidating || !apiKey || isTermsNormalized}
-              title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms."}
+              title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms. Shift-click to ask the AI again instead of reusing a cached reply."}
               className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold transition-colors border
                 ${papers.length === 0 || isConsolidating || !apiKey
                   ? 'text-slate-400 border-slate-100 cursor-not-allowed' 
@@ -1177,7 +4878,7 @@ interface TemporalChartProps {
   setIsResponseGrouped: (val: (prev: boolean) => boolean) => void;
   isTermsNormalized: boolean;
   // New props for the button:
-  handleOptimizeTerms: () => Promise<void>;
+  handleOptimizeTerms: (cacheMode?: CacheMode) => Promise<void>;
   isConsolidating: boolean;
   apiKey: string;
 }
@@ -1230,9 +4931,9 @@ const TemporalChart: React.FC<TemporalChartProps> = ({ papers, isDriverGrouped,
             <div className="flex items-center gap-3">
                 {/* GROUP TERMS BUTTON (LOCAL) */}
                 <button 
-                  onClick={handleOptimizeTerms}
+                  onClick={(e) => handleOptimizeTerms(e.shiftKey ? 'refresh' : 'use')}
                   disabled={papers.length === 0 || isConsolidating || !apiKey || isTermsNormalized}
-                  title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms."}
+                  title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms. Shift-click to ask the AI again instead of reusing a cached reply."}
                   className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold transition-colors border
                     ${papers.length === 0 || isConsolidating || !apiKey
                       ? 'text-slate-400 border-slate-100 cursor-not-allowed' 
@@ -1298,7 +4999,7 @@ interface GapHeatmapProps {
   setIsResponseGrouped: (val: (prev: boolean) => boolean) => void;
   isTermsNormalized: boolean;
   // New props for the button:
-  handleOptimizeTerms: () => Promise<void>;
+  handleOptimizeTerms: (cacheMode?: CacheMode) => Promise<void>;
   isConsolidating: boolean;
   apiKey: string;
 }
@@ -1336,9 +5037,9 @@ const GapHeatmap: React.FC<GapHeatmapProps> = ({ papers, isDriverGrouped, isResp
         <div className="flex gap-2">
             {/* GROUP TERMS BUTTON (LOCAL) */}
             <button 
-              onClick={handleOptimizeTerms}
+              onClick={(e) => handleOptimizeTerms(e.shiftKey ? 'refresh' : 'use')}
               disabled={papers.length === 0 || isConsolidating || !apiKey || isTermsNormalized}
-              title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms."}
+              title={!apiKey ? "API Key required to group terms." : papers.length === 0 ? "Add papers first." : isTermsNormalized ? "Terms are already grouped." : "Run AI analysis to group synonymous driver/response terms. Shift-click to ask the AI again instead of reusing a cached reply."}
               className={`flex items-center gap-2 px-3 py-1.5 border rounded text-xs font-bold transition-colors
                 ${papers.length === 0 || isConsolidating || !apiKey
                   ? 'text-slate-400 border-slate-100 cursor-not-allowed' 
@@ -1438,9 +5139,9 @@ const GeoSpeciesChart = ({ papers }: { papers: Paper[] }) => {
 };
 
 // --- COMPONENT: Chat Panel ---
-const ChatPanel = ({ papers, apiKey, modelId }: { papers: Paper[], apiKey: string, modelId: string }) => {
+// History is owned by App so it is autosaved with the rest of the workspace
+const ChatPanel = ({ papers, apiKey, model, history, setHistory }: { papers: Paper[], apiKey: string, model: ModelConfig, history: ChatMessage[], setHistory: React.Dispatch<React.SetStateAction<ChatMessage[]>> }) => {
   const [input, setInput] = useState('');
-  const [history, setHistory] = useState<ChatMessage[]>([{ role: 'ai', text: 'Ask me anything about the extracted papers! (e.g., "Which studies focused on fire impacts in Canada?"). Note: this is an assistance feature only, and cannot be used as a replacement for scientific review. Do not draw conclusions from this chatbot alone.', timestamp: Date.now() }]);
   const [loading, setLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -1451,7 +5152,7 @@ const ChatPanel = ({ papers, apiKey, modelId }: { papers: Paper[], apiKey: strin
     if (!input.trim() || loading) return;
     const userMsg: ChatMessage = { role: 'user', text: input, timestamp: Date.now() };
     setHistory(prev => [...prev, userMsg]); setInput(''); setLoading(true);
-    const answer = await askPaperChat(userMsg.text, papers, apiKey, modelId);
+    const answer = await askPaperChat(userMsg.text, papers, apiKey, model);
     setHistory(prev => [...prev, { role: 'ai', text: answer, timestamp: Date.now() }]);
     setLoading(false);
   };
@@ -1476,10 +5177,18 @@ const App = () => {
     console.log("GA Init"); 
   }, []);
   
-  const [apiKey, setApiKey] = useState(''); 
+  const [googleApiKey, setGoogleApiKey] = useState(''); 
   const [reviewTopic, setReviewTopic] = useState(''); 
   const [selectedModel, setSelectedModel] = useState(MODELS[0].id); 
+  const [customModels, setCustomModels] = useState<ModelConfig[]>([]);
+  const [showCustomModelForm, setShowCustomModelForm] = useState(false);
+  const [pendingRun, setPendingRun] = useState<{ estimate: RunEstimate, start: () => void } | null>(null);
+  const [useResponseCache, setUseResponseCache] = useState(true);
+  const [bypassCacheForRun, setBypassCacheForRun] = useState(false); // Next extraction run (batches and audit) skips cached replies
+  const [cacheStats, setCacheStats] = useState<{ count: number, bytes: number } | null>(null);
   const [inputText, setInputText] = useState('');
+  const [importedRecords, setImportedRecords] = useState<ImportedRecordSet | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportedRecordSet | null>(null);
   const [papers, setPapers] = useState<Paper[]>([]);
   
   const [viewMode, setViewMode] = useState<'folder'|'flow'|'timeline'|'gap_analysis'|'geo_analysis'|'chat'>('folder'); 
@@ -1499,8 +5208,17 @@ const App = () => {
   const [showRateLimitNotice, setShowRateLimitNotice] = useState(true);
   
   const stopSignal = useRef(false); 
+  // Abort controllers for the extraction run, bulk synthesis and the open synthesis modal
+  const extractionAbort = useRef<AbortController | null>(null);
+  const bulkAbort = useRef<AbortController | null>(null);
+  const synthesisAbort = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null); // NEW: Success and status messages, kept out of the red error box
   const [enableSpecies, setEnableSpecies] = useState(true); 
+  const [reviewAuditFixes, setReviewAuditFixes] = useState(false);
+  const [useThirdLevel, setUseThirdLevel] = useState(false);
+  const [codebook, setCodebook] = useState<Codebook | null>(null);
+  const [showCodebook, setShowCodebook] = useState(false);
   const [isOptimized, setIsOptimized] = useState(false); 
   
   // New States for Grouping Toggle
@@ -1510,6 +5228,10 @@ const App = () => {
   const [isTermsNormalized, setIsTermsNormalized] = useState(false);
   
   const [consolidationSuggestions, setConsolidationSuggestions] = useState<ConsolidationSuggestion[] | null>(null);
+  const [acceptedSuggestions, setAcceptedSuggestions] = useState<AcceptedSuggestion[]>([]);
+  const [consolidationRound, setConsolidationRound] = useState(0);
+  const [selectedSuggestionIds, setSelectedSuggestionIds] = useState<string[]>([]);
+  const [showSuggestionPreview, setShowSuggestionPreview] = useState(false);
   const [isConsolidationComplete, setIsConsolidationComplete] = useState(false); 
   const [rejectedSuggestions, setRejectedSuggestions] = useState<string[]>([]);
   
@@ -1517,28 +5239,286 @@ const App = () => {
   const [synthesisThemeKey, setSynthesisThemeKey] = useState('');
   const [synthesisResult, setSynthesisResult] = useState<SynthesisResult | null>(null);
 
-  const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({});
-  const [expandedThemes, setExpandedThemes] = useState<Record<string, boolean>>({});
-  const [showSettings, setShowSettings] = useState(true);
-  const [lockedItems, setLockedItems] = useState<string[]>([]); // Format: "cat:Name" or "theme:Cat|||Name"
+  const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({});
+  const [expandedThemes, setExpandedThemes] = useState<Record<string, boolean>>({});
+  const [showSettings, setShowSettings] = useState(true);
+  const [lockedItems, setLockedItems] = useState<string[]>([]); // Format: "cat:Name" or "theme:Cat|||Name"
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [taxonomySnapshots, setTaxonomySnapshots] = useState<TaxonomySnapshot[]>([]);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  const [editingItem, setEditingItem] = useState<{ id: string, type: 'cat' | 'theme' | 'sub', originalName: string, parentCat?: string, parentTheme?: string, value: string } | null>(null);
+  
+  // DRAG & DROP STATE
+  const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
+  const [selectedPaperIds, setSelectedPaperIds] = useState<string[]>([]);
+  const [openPaperId, setOpenPaperId] = useState<string | null>(null); // Paper whose detail panel is open
+  const [placements, setPlacements] = useState<Record<string, PaperPlacement>>({}); // AI best-fit suggestions by paper id
+  const [isPlacingPapers, setIsPlacingPapers] = useState(false);
+  const [dragOverTarget, setDragOverTarget] = useState<string | null>(null);
+
+  // BULK SYNTHESIS STATES
+  const [bulkModalOpen, setBulkModalOpen] = useState(false);
+  const [bulkResults, setBulkResults] = useState<any[] | null>(null);
+  const [bulkType, setBulkType] = useState<'sub' | 'main'>('sub');
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(initialChatHistory);
+  const [sankeyOrder, setSankeyOrder] = useState<SankeyOrder>({ drivers: [], responses: [] });
+  const [pendingProjectImport, setPendingProjectImport] = useState<ProjectFileImport | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<ProjectMerge | null>(null);
+  const [runCheckpoint, setRunCheckpoint] = useState<RunCheckpoint | null>(null);
+  // 'checking' until the stored session is read; autosave stays off until the user has answered the restore prompt
+  const [sessionStatus, setSessionStatus] = useState<'checking' | 'prompt' | 'ready'>('checking');
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+  const [projectIndex, setProjectIndex] = useState<ProjectIndex>(readProjectIndex);
+  const [showProjectManager, setShowProjectManager] = useState(false);
+  const activeProjectId = projectIndex.activeId;
+
+  const resultsEndRef = useRef<HTMLDivElement>(null); 
+  const activeModelId = selectedModel;
+  const allModels = [...MODELS, ...customModels];
+  const activeModel = allModels.find(m => m.id === selectedModel) || MODELS[0];
+  const apiKey = resolveApiKey(activeModel, googleApiKey);
+  const dailyUsage = useSyncExternalStore(subscribeToUsage, () => getDailyUsage(activeModel.id));
+
+  useEffect(() => {
+    setResponseCacheEnabled(useResponseCache);
+  }, [useResponseCache]);
+
+  // Cache stats are only shown in Settings, so only refresh them while it is open
+  useEffect(() => {
+    if (!showSettings) return;
+    const refresh = () => { getResponseCacheStats().then(setCacheStats); };
+    refresh();
+    return subscribeToCache(refresh);
+  }, [showSettings]);
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+    } catch (e) {
+      setError(`Could not clear the response cache: ${(e as Error).message}`);
+    }
+  };
+
+  const handleAddCustomModel = (model: ModelConfig) => {
+    setCustomModels(prev => [...prev.filter(m => m.id !== model.id), model]);
+    setSelectedModel(model.id);
+    setShowCustomModelForm(false);
+  };
+
+  const handleRemoveCustomModel = (modelId: string) => {
+    setCustomModels(prev => prev.filter(m => m.id !== modelId));
+    if (selectedModel === modelId) setSelectedModel(MODELS[0].id);
+  };
+  const [showBatchPlan, setShowBatchPlan] = useState(false);
+
+  // Preview of how the current input will be segmented and batched (no API calls)
+  const batchPlan = useMemo(() => {
+    if (!importedRecords && !inputText.trim()) return null;
+    const records = buildInputRecords(inputText, importedRecords ? importedRecords.records : null);
+    return { recordCount: records.length, batches: packRecordBatches(records, activeModel.batchTokenBudget) };
+  }, [inputText, importedRecords, activeModel.batchTokenBudget]);
+  const extractionEstimate = batchPlan ? estimateExtractionRun(batchPlan.batches, activeModel, dailyUsage) : null;
+  const fileInputRef = useRef<HTMLInputElement>(null); 
+  const recordsInputRef = useRef<HTMLInputElement>(null);
+  const [manualFixState, setManualFixState] = useState<{ isOpen: boolean, text: string, batchIndex: number } | null>(null);
+  const [coverageReport, setCoverageReport] = useState<CoverageReport | null>(null);
+  const [validationReports, setValidationReports] = useState<ValidationReport[]>([]);
+  const [duplicatePairs, setDuplicatePairs] = useState<DuplicatePair[] | null>(null);
+  const [distinctPairKeys, setDistinctPairKeys] = useState<string[]>([]);
+  // Records/batches of the current extraction run, so manual-fix resumes and re-runs use the same batches
+  // prefetched: extraction requests already started for upcoming batches (parallel models / manual-fix resume)
+  const lastSynthesisTarget = useRef<{ cat: string, theme?: string, subSubTheme?: string } | null>(null);
+  const activeRun = useRef<{ records: InputRecord[], batches: RecordBatch[], prefetched: Map<number, Promise<{ result: AnalysisResult, truncated: boolean }>>, skipAudit: boolean, cacheMode: CacheMode } | null>(null);
+  const coverageRef = useRef<CoverageReport | null>(null);
+
+  useEffect(() => {
+      writeProjectIndex(projectIndex);
+  }, [projectIndex]);
+
+  const updateProjectMeta = (projectId: string, changes: Partial<ProjectMeta>) => {
+      setProjectIndex(prev => patchProjectMeta(prev, projectId, changes));
+  };
+
+  // Only the project that was open when the tab loaded is offered for restore; switching loads directly
+  useEffect(() => {
+      readSavedSession(readProjectIndex().activeId).then(session => {
+        if (session && hasSessionContent(session)) {
+          setSavedSession(session);
+          setSessionStatus('prompt');
+        } else {
+          setSessionStatus('ready');
+        }
+      });
+  }, []);
+
+  const sessionContent = useMemo((): SessionContent => ({
+      reviewTopic, selectedModel, enableSpecies, papers, batchCount, lockedItems, rejectedSuggestions,
+      isOptimized, isTermsNormalized, isDriverGrouped, isResponseGrouped,
+      synthesis: synthesisResult ? { themeKey: synthesisThemeKey, result: synthesisResult } : null,
+      bulkSynthesis: bulkResults ? { type: bulkType, results: bulkResults } : null,
+      chatHistory, runCheckpoint, sankeyOrder, distinctPairKeys, taxonomySnapshots, reviewAuditFixes, useThirdLevel, codebook, acceptedSuggestions, consolidationRound,
+      customModels: customModels.map(m => ({ ...m, apiKey: undefined }))
+  }), [reviewTopic, selectedModel, enableSpecies, papers, batchCount, lockedItems, rejectedSuggestions, isOptimized, isTermsNormalized, isDriverGrouped, isResponseGrouped, synthesisResult, synthesisThemeKey, bulkResults, bulkType, chatHistory, runCheckpoint, sankeyOrder, distinctPairKeys, taxonomySnapshots, reviewAuditFixes, useThirdLevel, codebook, acceptedSuggestions, consolidationRound, customModels]);
+
+  const saveProject = async (projectId: string, content: SessionContent) => {
+      const savedAt = await writeSavedSession(projectId, content);
+      if (savedAt) {
+        setLastAutosave(savedAt);
+        setProjectIndex(prev => patchProjectMeta(prev, projectId, { updatedAt: savedAt, paperCount: content.papers.length, reviewTopic: content.reviewTopic }));
+      }
+  };
+
+  useEffect(() => {
+      if (sessionStatus !== 'ready') return;
+      const timer = setTimeout(() => {
+        writeSavedSession(activeProjectId, sessionContent).then(savedAt => {
+          if (!savedAt) return;
+          setLastAutosave(savedAt);
+          setProjectIndex(prev => patchProjectMeta(prev, activeProjectId, { updatedAt: savedAt, paperCount: sessionContent.papers.length, reviewTopic: sessionContent.reviewTopic }));
+        });
+      }, AUTOSAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [sessionStatus, activeProjectId, sessionContent]);
+
+  // Merging a project adds its custom models (without keys); ones already registered keep their settings and key
+  const registerImportedModels = (models: ModelConfig[]) => {
+      if (models.length === 0) return;
+      setCustomModels(prev => [...prev, ...models.filter(m => !prev.some(existing => existing.id === m.id))]);
+  };
+
+  // Opening a project replaces the custom models with its own; a key entered this session carries over to the same model
+  const replaceCustomModels = (models: ModelConfig[]) => {
+      setCustomModels(prev => models.map(m => ({ ...m, apiKey: m.apiKey ?? prev.find(existing => existing.id === m.id)?.apiKey })));
+  };
+
+  // Replaces the whole workspace with a saved project (or an empty one); transient review state is reset too
+  const applySessionContent = (content: SessionContent) => {
+      setReviewTopic(content.reviewTopic);
+      // The project's own custom models replace the current ones, so a model selected from them is not lost
+      replaceCustomModels(content.customModels);
+      setSelectedModel([...MODELS, ...content.customModels].some(m => m.id === content.selectedModel) ? content.selectedModel : MODELS[0].id);
+      setEnableSpecies(content.enableSpecies);
+      setReviewAuditFixes(content.reviewAuditFixes);
+      setUseThirdLevel(content.useThirdLevel);
+      setCodebook(content.codebook);
+      setPapers(content.papers);
+      setFilteredPapers(null);
+      setBatchCount(content.batchCount);
+      setLockedItems(content.lockedItems);
+      setRejectedSuggestions(content.rejectedSuggestions);
+      setIsOptimized(content.isOptimized);
+      setIsTermsNormalized(content.isTermsNormalized);
+      setIsDriverGrouped(content.isDriverGrouped);
+      setIsResponseGrouped(content.isResponseGrouped);
+      setSynthesisThemeKey(content.synthesis?.themeKey || '');
+      setSynthesisResult(content.synthesis?.result || null);
+      setBulkType(content.bulkSynthesis?.type || 'sub');
+      setBulkResults(content.bulkSynthesis?.results || null);
+      setChatHistory(content.chatHistory.length > 0 ? content.chatHistory : initialChatHistory());
+      setSankeyOrder(content.sankeyOrder);
+      setDistinctPairKeys(content.distinctPairKeys);
+      setTaxonomySnapshots(content.taxonomySnapshots);
+      setAcceptedSuggestions(content.acceptedSuggestions);
+      setConsolidationRound(content.consolidationRound);
+      const expanded: Record<string, boolean> = {};
+      content.papers.forEach(p => expanded[p.category] = true);
+      setExpandedCategories(expanded);
+      setConsolidationSuggestions(null);
+      setIsConsolidationComplete(false);
+      setEditHistory(EMPTY_EDIT_HISTORY);
+      setSelectedPaperIds([]);
+      setPlacements({});
+      setValidationReports([]);
+      setDuplicatePairs(null);
+      setInputText('');
+      setImportedRecords(null);
+
+      const checkpoint = content.runCheckpoint;
+      setRunCheckpoint(checkpoint);
+      activeRun.current = checkpoint ? { records: checkpoint.batches.flatMap(b => b.records), batches: checkpoint.batches, prefetched: new Map(), skipAudit: !!checkpoint.skipAudit, cacheMode: 'use' } : null;
+      coverageRef.current = checkpoint?.coverage || null;
+      setCoverageReport(checkpoint?.coverage || null);
+  };
+
+  const handleRestoreSession = () => {
+      if (savedSession) {
+        applySessionContent(savedSession);
+        setNotice(`Restored ${savedSession.papers.length} papers from your last session.`);
+      }
+      setSavedSession(null);
+      setSessionStatus('ready');
+  };
+
+  const handleDiscardSession = () => {
+      clearSavedSession(activeProjectId);
+      setSavedSession(null);
+      setSessionStatus('ready');
+  };
+
+  const isWorkspaceBusy = isProcessing || isBulkSynthesizing || isConsolidating || !!manualFixState;
+  // Each finished batch writes the run's own copy of the papers, so papers moved meanwhile would snap back
+  const isExtractionRunning = isProcessing || !!manualFixState;
+
+  const handleOpenProject = async (projectId: string, projectName?: string) => {
+      if (projectId === activeProjectId || isWorkspaceBusy || sessionStatus !== 'ready') return;
+      setSessionStatus('checking'); // Pauses autosave so the outgoing workspace is not written under the new id
+      await saveProject(activeProjectId, sessionContent);
+      const session = await readSavedSession(projectId);
+      applySessionContent(session || emptySessionContent());
+      setProjectIndex(prev => ({ ...prev, activeId: projectId }));
+      setSessionStatus('ready');
+      setNotice(`Opened project "${projectName ?? projectIndex.projects.find(p => p.id === projectId)?.name}".`);
+  };
+
+  const handleCreateProject = (name: string) => {
+      if (isWorkspaceBusy || sessionStatus !== 'ready') return; // handleOpenProject would refuse, leaving a project never opened
+      const meta = newProjectMeta(`project-${Date.now()}`, name);
+      setProjectIndex(prev => ({ ...prev, projects: [...prev.projects, meta] }));
+      handleOpenProject(meta.id, name);
+  };
+
+  const handleDuplicateProject = async (projectId: string) => {
+      const source = projectIndex.projects.find(p => p.id === projectId);
+      if (!source) return;
+      const content = projectId === activeProjectId ? sessionContent : (await readSavedSession(projectId)) || emptySessionContent();
+      const meta = { ...newProjectMeta(`project-${Date.now()}`, `${source.name} (copy)`), paperCount: content.papers.length, reviewTopic: content.reviewTopic };
+      // The interrupted run belongs to the original project
+      await writeSavedSession(meta.id, { ...content, runCheckpoint: null });
+      setProjectIndex(prev => ({ ...prev, projects: [...prev.projects, meta] }));
+  };
+
+  const handleDeleteProject = (projectId: string) => {
+      if (projectId === activeProjectId) return;
+      clearSavedSession(projectId);
+      setProjectIndex(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== projectId) }));
+  };
 
-  const [editingItem, setEditingItem] = useState<{ id: string, type: 'cat' | 'theme', originalName: string, parentCat?: string, value: string } | null>(null);
-  
-  // DRAG & DROP STATE
-  const [draggedItem, setDraggedItem] = useState<DragItem | null>(null);
-  const [dragOverTarget, setDragOverTarget] = useState<string | null>(null);
+  // Continues the saved run from its first unfinished batch (or just the final audit)
+  const handleResumeRun = () => {
+      if (!runCheckpoint) return;
+      if (!activeRun.current) {
+        activeRun.current = { records: runCheckpoint.batches.flatMap(b => b.records), batches: runCheckpoint.batches, prefetched: new Map(), skipAudit: !!runCheckpoint.skipAudit, cacheMode: 'use' };
+        coverageRef.current = runCheckpoint.coverage;
+      }
+      // Nothing finished yet: start over on the same records, since the pasted text may be gone
+      if (runCheckpoint.nextBatch === 0) handleProcessAll(0, '', activeRun.current.records, activeRun.current.skipAudit);
+      else handleProcessAll(runCheckpoint.nextBatch);
+  };
 
-  // BULK SYNTHESIS STATES
-  const [bulkModalOpen, setBulkModalOpen] = useState(false);
-  const [bulkResults, setBulkResults] = useState<any[] | null>(null);
-  const [bulkType, setBulkType] = useState<'sub' | 'main'>('sub');
+  const handleStopProcessing = () => { stopSignal.current = true; extractionAbort.current?.abort(); setRetryStatus("Stopping..."); };
 
-  const resultsEndRef = useRef<HTMLDivElement>(null); 
-  const activeModelId = selectedModel;
-  const fileInputRef = useRef<HTMLInputElement>(null); 
-  const [manualFixState, setManualFixState] = useState<{ isOpen: boolean, text: string, batchIndex: number } | null>(null);
+  const handleStopBulkSynthesis = () => { bulkAbort.current?.abort(); setRetryStatus("Stopping..."); };
+
+  const handleCloseSynthesis = () => { synthesisAbort.current?.abort(); setSynthesisModalOpen(false); };
 
-  const handleStopProcessing = () => { stopSignal.current = true; setRetryStatus("Stopping..."); };
+  // A manual-fix resume continues the same run, so it keeps the controller its prefetched batches were started with
+  const getExtractionSignal = () => {
+      if (!extractionAbort.current || extractionAbort.current.signal.aborted) extractionAbort.current = new AbortController();
+      return extractionAbort.current.signal;
+  };
   
   const toggleLock = (e: React.MouseEvent, type: 'cat' | 'theme', name: string) => {
       e.stopPropagation();
@@ -1546,39 +5526,141 @@ const App = () => {
       setLockedItems(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
   };
 
-  const startEditing = (type: 'cat' | 'theme', name: string, parentCat?: string) => {
-    const id = type === 'cat' ? `cat:${name}` : `theme:${parentCat}|||${name}`;
-    setEditingItem({ id, type, originalName: name, parentCat, value: name });
+  // The workspace as of the last render, for edits committed after an await (their closure may be stale by then)
+  const latestEditState = useRef<WorkspaceEditState | null>(null);
+  useEffect(() => {
+      latestEditState.current = { papers, lockedItems, suggestions: consolidationSuggestions, acceptedSuggestions, isTermsNormalized, codebook };
+  }, [papers, lockedItems, consolidationSuggestions, acceptedSuggestions, isTermsNormalized, codebook]);
+
+  // Applies an edit and records it for undo; callers pass only the parts of the workspace they change,
+  // or a function of the latest workspace when the edit is computed after an await
+  const commitEdit = (label: string, next: Partial<WorkspaceEditState> | ((current: WorkspaceEditState) => Partial<WorkspaceEditState>)) => {
+      const before: WorkspaceEditState = typeof next === 'function' && latestEditState.current
+        ? latestEditState.current
+        : { papers, lockedItems, suggestions: consolidationSuggestions, acceptedSuggestions, isTermsNormalized, codebook };
+      const after = { ...before, ...(typeof next === 'function' ? next(before) : next) };
+      setEditHistory(prev => pushEditHistory(prev, label, before, after));
+      applyEditState(after);
+  };
+
+  const applyEditState = (state: WorkspaceEditState) => {
+      setPapers(state.papers);
+      setLockedItems(state.lockedItems);
+      setConsolidationSuggestions(state.suggestions);
+      setAcceptedSuggestions(state.acceptedSuggestions);
+      setIsTermsNormalized(state.isTermsNormalized);
+      setCodebook(state.codebook);
+      setFilteredPapers(null);
+      setDuplicatePairs(prev => prev ? findDuplicatePairs(state.papers, distinctPairKeys) : null);
+      setExpandedCategories(prev => {
+        const next = { ...prev };
+        state.papers.forEach(p => { if (next[p.category] === undefined) next[p.category] = true; });
+        return next;
+      });
+  };
+
+  const handleUndo = () => {
+      const entry = editHistory.undo[editHistory.undo.length - 1];
+      if (!entry || isWorkspaceBusy) return;
+      applyEditState(entry.before);
+      setEditHistory({ undo: editHistory.undo.slice(0, -1), redo: [...editHistory.redo, entry] });
+      setNotice(`↩️ Undid: ${entry.label}`);
+  };
+
+  const handleRedo = () => {
+      const entry = editHistory.redo[editHistory.redo.length - 1];
+      if (!entry || isWorkspaceBusy) return;
+      applyEditState(entry.after);
+      setEditHistory({ undo: [...editHistory.undo, entry], redo: editHistory.redo.slice(0, -1) });
+      setNotice(`↪️ Redid: ${entry.label}`);
+  };
+
+  // Seeded codebooks: an approved proposal becomes a codebook entry; a rejected one files its papers under "Other"
+  const handleApproveProposal = (proposal: CodebookProposal) => {
+      if (!codebook) return;
+      commitEdit(`Approve proposed sub-theme "${proposal.category} › ${proposal.theme}"`, { codebook: { ...codebook, entries: [...codebook.entries, { category: proposal.category, theme: proposal.theme, definition: '', examples: [] }] } });
+  };
+
+  const handleRejectProposal = (proposal: CodebookProposal) => {
+      const ids = new Set(proposal.paperIds);
+      commitEdit(`Reject proposed sub-theme "${proposal.category} › ${proposal.theme}"`, { papers: papers.map(p => ids.has(p.id) ? { ...p, category: CODEBOOK_OTHER, theme: CODEBOOK_OTHER, subSubTheme: undefined } : p) });
+      setExpandedCategories(prev => ({ ...prev, [CODEBOOK_OTHER]: true }));
+  };
+
+  const handleSaveSnapshot = (name: string) => {
+      setTaxonomySnapshots(prev => [...prev, takeTaxonomySnapshot(name, papers)]);
+  };
+
+  const handleRestoreSnapshot = (snapshotId: string) => {
+      const snapshot = taxonomySnapshots.find(s => s.id === snapshotId);
+      if (!snapshot || isWorkspaceBusy) return;
+      const restored = restoreTaxonomySnapshot(papers, snapshot);
+      const placed = new Set(snapshot.papers.map(p => p.id));
+      const newer = papers.filter(p => !placed.has(p.id)).length;
+      commitEdit(`Restore snapshot "${snapshot.name}"`, { papers: restored, suggestions: null });
+      setIsOptimized(true);
+      setShowSnapshots(false);
+      setNotice(`✅ Restored snapshot "${snapshot.name}".${newer > 0 ? ` ${newer} papers added since then kept their current sections.` : ''} Use Undo to go back.`);
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep the browser's own undo
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const target = e.target as HTMLElement | null;
+        if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+        else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); handleRedo(); }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const startEditing = (type: 'cat' | 'theme' | 'sub', name: string, parentCat?: string, parentTheme?: string) => {
+    const id = type === 'cat' ? `cat:${name}` : type === 'theme' ? `theme:${parentCat}|||${name}` : `sub:${parentCat}|||${parentTheme}|||${name}`;
+    setEditingItem({ id, type, originalName: name, parentCat, parentTheme, value: name });
   };
 
   const saveEditing = () => {
     if (!editingItem) return;
-    const { type, originalName, value, parentCat } = editingItem;
+    const { type, originalName, value, parentCat, parentTheme } = editingItem;
     const trimmed = value.trim();
     if (!trimmed || trimmed === originalName) {
         setEditingItem(null);
         return;
     }
 
-    setPapers(prev => prev.map(p => {
+    const newPapers = papers.map(p => {
         if (type === 'cat' && p.category === originalName) {
             return { ...p, category: trimmed };
         }
         if (type === 'theme' && p.category === parentCat && p.theme === originalName) {
             return { ...p, theme: trimmed };
         }
-        return p;
-    }));
-    
-    // Migrate locks if necessary
-    setLockedItems(prev => {
-        const oldKey = type === 'cat' ? `cat:${originalName}` : `theme:${parentCat}|||${originalName}`;
-        const newKey = type === 'cat' ? `cat:${trimmed}` : `theme:${parentCat}|||${trimmed}`;
-        if (prev.includes(oldKey)) {
-            return [...prev.filter(k => k !== oldKey), newKey];
+        if (type === 'sub' && p.category === parentCat && p.theme === parentTheme && p.subSubTheme === originalName) {
+            return { ...p, subSubTheme: trimmed };
         }
-        return prev;
+        return p;
     });
+    
+    // Migrate locks if necessary; each level has its own key shape so a sub-sub-theme never picks up a sibling sub-theme's lock
+    const lockKeyFor = (name: string) => type === 'cat' ? `cat:${name}` : type === 'theme' ? `theme:${parentCat}|||${name}` : `sub:${parentCat}|||${parentTheme}|||${name}`;
+    const oldKey = lockKeyFor(originalName);
+    const newKey = lockKeyFor(trimmed);
+    const oldChildPrefix = type === 'cat' ? `theme:${originalName}|||` : null;
+    const newLocks = Array.from(new Set(lockedItems.map(k => {
+        if (k === oldKey) return newKey;
+        // A renamed category keeps the locks of its sub-themes
+        if (oldChildPrefix && k.startsWith(oldChildPrefix)) return `theme:${trimmed}|||${k.slice(oldChildPrefix.length)}`;
+        return k;
+    })));
+    // The flip-flop log follows the rename; sub-sub-themes are not in it
+    const newLog = type === 'cat' ? renameCategoryInLog(acceptedSuggestions, originalName, trimmed)
+      : type === 'theme' ? renameKeysInLog(acceptedSuggestions, k => k === themeKey(parentCat!, originalName) ? themeKey(parentCat!, trimmed) : k)
+      : acceptedSuggestions;
+
+    commitEdit(`Rename ${type === 'cat' ? 'category' : type === 'theme' ? 'sub-theme' : 'sub-sub-theme'} "${originalName}" to "${trimmed}"`, { papers: newPapers, lockedItems: newLocks, acceptedSuggestions: newLog });
 
     setEditingItem(null);
     setIsOptimized(true); 
@@ -1591,8 +5673,16 @@ const App = () => {
       setDraggedItem(item);
   };
 
+  // A paper drags the whole selection when it is part of it
+  const handlePaperDragStart = (e: React.DragEvent, paper: Paper) => {
+      e.stopPropagation(); // Otherwise the enclosing sub-theme starts dragging too
+      const paperIds = selectedPaperIds.includes(paper.id) ? selectedPaperIds : [paper.id];
+      handleDragStart(e, { type: 'paper', name: paper.title, paperIds });
+  };
+
   const handleDragOver = (e: React.DragEvent, targetId: string) => {
       e.preventDefault(); // Allow drop
+      e.stopPropagation(); // Highlight the innermost target, not the enclosing category
       setDragOverTarget(targetId);
   };
   
@@ -1602,17 +5692,30 @@ const App = () => {
 
   const handleDrop = (e: React.DragEvent, target: DragItem) => {
       e.preventDefault();
+      e.stopPropagation(); // A drop on a sub-theme must not also reach its category
       setDragOverTarget(null);
       
-      if (!draggedItem) return;
+      if (!draggedItem || isExtractionRunning) return;
 
       // Logic:
       // 1. Theme -> Category (Move)
       // 2. Theme -> Theme (Merge)
       // 3. Category -> Category (Merge)
+      // 4. Paper(s) -> Sub-Sub-Theme, Theme (Move) or Category (Move, keeping the sub-theme name)
+      // 5. Sub-Sub-Theme -> Theme (Move) or Sub-Sub-Theme (Merge)
+
+      if (draggedItem.type === 'paper') {
+          if (target.type === 'sub') movePapers(draggedItem.paperIds || [], target.parentCat!, target.parentTheme!, target.name);
+          else if (target.type === 'theme') movePapers(draggedItem.paperIds || [], target.parentCat!, target.name);
+          else if (target.type === 'cat') movePapers(draggedItem.paperIds || [], target.name);
+          setDraggedItem(null);
+          return;
+      }
 
       let newPapers = [...papers];
+      let newLog = acceptedSuggestions; // Keeps flip-flop detection in step with sections moved by hand
       let changeMade = false;
+      let label = '';
 
       // CASE 1: Drag Theme -> Category (Move to that category)
       if (draggedItem.type === 'theme' && target.type === 'cat') {
@@ -1624,7 +5727,10 @@ const App = () => {
               }
               return p;
           });
+          const from = themeKey(draggedItem.parentCat!, draggedItem.name);
+          newLog = renameKeysInLog(newLog, k => k === from ? themeKey(target.name, draggedItem.name) : k);
           changeMade = true;
+          label = `Move sub-theme "${draggedItem.name}" to "${target.name}"`;
       }
       // CASE 2: Drag Theme -> Theme (Merge into target theme)
       else if (draggedItem.type === 'theme' && target.type === 'theme') {
@@ -1636,7 +5742,10 @@ const App = () => {
               }
               return p;
           });
+          const from = themeKey(draggedItem.parentCat!, draggedItem.name);
+          newLog = renameKeysInLog(newLog, k => k === from ? themeKey(target.parentCat!, target.name) : k);
           changeMade = true;
+          label = `Merge sub-theme "${draggedItem.name}" into "${target.name}"`;
       }
       // CASE 3: Drag Category -> Category (Merge into target category)
       else if (draggedItem.type === 'cat' && target.type === 'cat') {
@@ -1648,36 +5757,115 @@ const App = () => {
               }
               return p;
           });
+          newLog = renameCategoryInLog(newLog, draggedItem.name, target.name);
           changeMade = true;
+          label = `Merge category "${draggedItem.name}" into "${target.name}"`;
+      }
+      // CASE 5: Drag Sub-Sub-Theme -> Theme (Move, keeping its name) or Sub-Sub-Theme (Merge)
+      else if (draggedItem.type === 'sub' && (target.type === 'theme' || target.type === 'sub')) {
+          const destCat = target.parentCat!;
+          const destTheme = target.type === 'theme' ? target.name : target.parentTheme!;
+          const destSub = target.type === 'sub' ? target.name : draggedItem.name;
+          if (destCat === draggedItem.parentCat && destTheme === draggedItem.parentTheme && destSub === draggedItem.name) return; // Dropped on self or own parent
+
+          newPapers = newPapers.map(p => {
+              if (p.category === draggedItem.parentCat && p.theme === draggedItem.parentTheme && p.subSubTheme === draggedItem.name) {
+                  return { ...p, category: destCat, theme: destTheme, subSubTheme: destSub };
+              }
+              return p;
+          });
+          changeMade = true;
+          label = target.type === 'sub' ? `Merge sub-sub-theme "${draggedItem.name}" into "${target.name}"` : `Move sub-sub-theme "${draggedItem.name}" to "${destTheme}"`;
       }
       
       if (changeMade) {
-          setPapers(newPapers);
+          commitEdit(label, { papers: newPapers, acceptedSuggestions: newLog });
           setIsOptimized(true);
       }
       setDraggedItem(null);
   };
 
-  const handleOptimizeTerms = async () => {
+  // Moves single papers; without a theme they keep their sub-theme (and sub-sub-theme) name in the new category.
+  // With a theme they land directly in it unless a sub-sub-theme is given too.
+  const movePapers = (paperIds: string[], category: string, theme?: string, subSubTheme?: string) => {
+      if (isExtractionRunning) return;
+      const ids = new Set(paperIds);
+      const moving = papers.filter(p => ids.has(p.id) && (p.category !== category || (theme !== undefined && (p.theme !== theme || p.subSubTheme !== subSubTheme))));
+      if (moving.length === 0) return;
+      const destination = [category, theme, subSubTheme].filter(Boolean).join(' › ');
+      const label = moving.length === 1 ? `Move paper "${moving[0].title}" to "${destination}"` : `Move ${moving.length} papers to "${destination}"`;
+      commitEdit(label, { papers: papers.map(p => ids.has(p.id) ? { ...p, category, theme: theme ?? p.theme, subSubTheme: theme !== undefined ? subSubTheme : p.subSubTheme } : p) });
+      setIsOptimized(true);
+      setSelectedPaperIds(prev => prev.filter(id => !ids.has(id)));
+      setPlacements(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.has(id))));
+      setExpandedThemes(prev => ({ ...prev, [`${category}-${theme ?? moving[0].theme}`]: true, ...(subSubTheme ? { [`${category}-${theme}-${subSubTheme}`]: true } : {}) }));
+  };
+
+  // Folds sub-sub-themes back into their sub-theme: one group, or every group when no scope is given
+  const handleDissolveSubSubThemes = (scope?: { cat: string, theme: string, sub: string }) => {
+      const inScope = (p: Paper) => !!p.subSubTheme && (!scope || (p.category === scope.cat && p.theme === scope.theme && p.subSubTheme === scope.sub));
+      if (!papers.some(inScope)) return;
+      commitEdit(scope ? `Dissolve sub-sub-theme "${scope.sub}"` : 'Collapse taxonomy to two levels', { papers: papers.map(p => inScope(p) ? { ...p, subSubTheme: undefined } : p) });
+      setIsOptimized(true);
+  };
+
+  const togglePaperSelection = (paperId: string) => {
+      setSelectedPaperIds(prev => prev.includes(paperId) ? prev.filter(id => id !== paperId) : [...prev, paperId]);
+  };
+
+  const handleSuggestPlacement = async (paperIds: string[]) => {
+      if (!apiKey || paperIds.length === 0 || isExtractionRunning) return;
+      setIsPlacingPapers(true);
+      setError(null); setNotice(null);
+      try {
+          const targets = papers.filter(p => paperIds.includes(p.id));
+          const result = await placePapersWithGemini(targets, currentTaxonomy, apiKey, reviewTopic, activeModel, (msg) => setRetryStatus(msg), (report) => recordValidation(report));
+          if (result.placements.length === 0) { setError("The AI did not return a usable placement. Try again or pick a sub-theme yourself."); return; }
+          setPlacements(prev => ({ ...prev, ...Object.fromEntries(result.placements.map(pl => [pl.paper_id, pl])) }));
+          const staying = result.placements.filter(pl => { const p = targets.find(t => t.id === pl.paper_id); return p && p.category === pl.main_category && p.theme === pl.sub_theme; }).length;
+          if (staying === result.placements.length) setNotice(`✅ ${staying === 1 ? 'The paper is' : 'All papers are'} already in the best-fitting sub-theme.`);
+      } catch (err) {
+          setError(`Could not find a best fit: ${(err as Error).message}`);
+      } finally {
+          setIsPlacingPapers(false);
+          setRetryStatus('');
+      }
+  };
+
+  const handleApplyPlacements = (paperIds: string[]) => {
+      const moves = paperIds.map(id => placements[id]).filter((pl): pl is PaperPlacement => !!pl);
+      if (moves.length === 0 || isExtractionRunning) return;
+      const byId = new Map(moves.map(pl => [pl.paper_id, pl]));
+      const label = moves.length === 1 ? `Move paper to AI best fit "${moves[0].main_category} › ${moves[0].sub_theme}"` : `Move ${moves.length} papers to their AI best fit`;
+      commitEdit(label, { papers: papers.map(p => { const pl = byId.get(p.id); return pl ? { ...p, category: pl.main_category, theme: pl.sub_theme, subSubTheme: undefined } : p; }) });
+      setIsOptimized(true);
+      setSelectedPaperIds(prev => prev.filter(id => !byId.has(id)));
+      setPlacements(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !byId.has(id))));
+  };
+
+  const handleOptimizeTerms = async (cacheMode: CacheMode = 'use') => {
     if (!apiKey || papers.length === 0) return;
     setIsConsolidating(true); 
     setRetryStatus("Running metadata and group normalization...");
-    setError(null);
+    setError(null); setNotice(null);
 
     try {
         const optimization = await optimizeStructureWithGemini(
             papers,
             apiKey,
             reviewTopic,
-            selectedModel,
+            activeModel,
             enableSpecies,
-            (msg) => setRetryStatus(msg)
+            (msg) => setRetryStatus(msg),
+            (report) => recordValidation(report),
+            cacheMode
         );
 
         if (optimization && optimization.moves && optimization.moves.length > 0) {
             const movesMap = new Map(optimization.moves.map(m => [m.paper_id, m]));
             
-            setPapers(prevPapers => prevPapers.map(p => {
+            // Built from the papers as they are now, so edits made while the request ran are kept
+            commitEdit(`Normalize metadata terms (${optimization.moves.length} papers)`, current => ({ isTermsNormalized: true, papers: current.papers.map(p => {
                 const move = movesMap.get(p.id);
                 if (move) {
                     return {
@@ -1698,12 +5886,12 @@ const App = () => {
                     };
                 }
                 return p;
-            }));
-            setIsTermsNormalized(true); // Only set separate normalization state
-            setError(`✅ Metadata optimization complete. Normalized ${optimization.moves.length} fields.`);
+            }) }));
+            setNotice(`✅ Metadata optimization complete. Normalized ${optimization.moves.length} fields.`);
         } else {
-            setIsTermsNormalized(true); 
-            setError("✅ Metadata optimization complete. No significant field changes suggested.");
+            // Still an edit, so undoing it re-enables Group Terms like the branch above
+            commitEdit('Normalize metadata terms (no changes)', () => ({ isTermsNormalized: true }));
+            setNotice("✅ Metadata optimization complete. No significant field changes suggested.");
         }
 
         // After initial optimization, set both toggles to grouped state to reflect the refined data immediately.
@@ -1718,47 +5906,93 @@ const App = () => {
     }
 };
 
-  const handleProcessAll = async (resumeFromIndex: number = 0, resumeText: string = '') => {
-    if (!inputText.trim() && !resumeText) { setError("Please paste your full list of papers first."); return; }
-    if (!apiKey) { setError("Please enter your Google Gemini API Key."); return; }
+  const handleImportRecords = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      e.target.value = ''; // Allow re-importing the same file
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+        const text = cleanRawText(evt.target?.result as string);
+        const format = detectImportFormat(file.name, text);
+        if (!format) { setError("Unrecognized file format. Please import a RIS, BibTeX, Web of Science tab-delimited or Scopus CSV export."); return; }
+        const records = parseImportFile(format, text);
+        if (records.length === 0) { setError(`No records with a title were found in ${file.name}.`); return; }
+        setError(null); setNotice(null);
+        setPendingImport({ fileName: file.name, format, records });
+      };
+      reader.readAsText(file);
+  };
+
+  const handleProcessAll = async (resumeFromIndex: number = 0, resumeText: string = '', rerunRecords?: InputRecord[], skipAudit: boolean = false, basePapers: Paper[] = papers) => {
+    const isResume = resumeFromIndex > 0 && !!activeRun.current;
+    if (!inputText.trim() && !resumeText && !importedRecords && !rerunRecords && !isResume) { setError("Please paste your full list of papers first."); return; }
+    if (!apiKey) { setError(activeModel.backend === 'gemini' ? "Please enter your Google Gemini API Key." : "Please add an API key to the selected custom model."); return; }
 
     trackEvent('start_extraction', { batch_size: inputText.length, model: activeModelId }); 
     setConsolidationSuggestions(null); 
     setIsConsolidationComplete(false); 
+    setEditHistory(EMPTY_EDIT_HISTORY); // Undoing older edits would drop the papers this run adds
     stopSignal.current = false;
+    const signal = getExtractionSignal();
     
-    // Clean Input
-    const rawText = resumeText || inputText;
-    const cleanedText = cleanRawText(rawText);
-    const textBatches = createBatches(cleanedText, 25000); 
+    // Segment input into paper records, then pack whole records into batches
+    if (rerunRecords) {
+      // Missing papers are asked about afresh; a cached reply for the same batch would drop them again
+      activeRun.current = { records: rerunRecords, batches: packRecordBatches(rerunRecords, activeModel.batchTokenBudget), prefetched: new Map(), skipAudit, cacheMode: skipAudit || bypassCacheForRun ? 'refresh' : 'use' };
+      // The re-run records count as unprocessed again until their batch finishes
+      coverageRef.current = { totalRecords: coverageRef.current?.totalRecords ?? rerunRecords.length, processed: Math.max(0, (coverageRef.current?.processed ?? 0) - rerunRecords.length), unmatched: coverageRef.current?.unmatched ?? [], missing: [] };
+    } else if (resumeFromIndex === 0 || !activeRun.current) {
+      setValidationReports([]);
+      const records = buildInputRecords(resumeText || inputText, importedRecords && !resumeText ? importedRecords.records : null);
+      activeRun.current = { records, batches: packRecordBatches(records, activeModel.batchTokenBudget), prefetched: new Map(), skipAudit, cacheMode: bypassCacheForRun ? 'refresh' : 'use' };
+      coverageRef.current = { totalRecords: records.length, processed: 0, missing: [], unmatched: [] };
+    }
+    const { records: inputRecords, batches: recordBatches, prefetched } = activeRun.current;
+    const runSkipsAudit = activeRun.current.skipAudit;
+    const runCacheMode = activeRun.current.cacheMode;
+    const useRecords = inputRecords.some(r => r.source);
+    const textBatches = recordBatches.map(batchText);
+    const recordMap = new Map(inputRecords.map(r => [r.id, r]));
+    setCoverageReport(coverageRef.current);
+    setRunCheckpoint({ batches: recordBatches, nextBatch: resumeFromIndex, batchCount, coverage: coverageRef.current, skipAudit: runSkipsAudit });
 
     setTotalBatches(textBatches.length); 
     setCurrentBatchIndex(resumeFromIndex); 
     setIsProcessing(true); 
-    setError(null); 
+    setError(null); setNotice(null); 
     setRetryStatus('');
     
-    let accumulatedPapers = [...papers]; 
+    let accumulatedPapers = [...basePapers]; 
     let localBatchCounter = batchCount;
     let pausedForFix = false; 
 
     try {
       for (let i = resumeFromIndex; i < textBatches.length; i++) {
-        if (stopSignal.current) { setError("🛑 Stopped."); break; }
+        if (stopSignal.current) { setNotice("🛑 Stopped."); break; }
         setCurrentBatchIndex(i + 1);
-        const taxonomy: Taxonomy = {};
-        accumulatedPapers.forEach(p => { 
-          if (!taxonomy[p.category]) taxonomy[p.category] = []; 
-          if (!taxonomy[p.category].includes(p.theme)) taxonomy[p.category].push(p.theme); 
-        });
+        // High-quota models keep up to maxConcurrency batches in flight. Each batch's prompt is built only when it
+        // is started, as an earlier one finishes, so its taxonomy hint includes every batch processed so far.
+        for (let j = i; j < Math.min(i + activeModel.maxConcurrency, textBatches.length); j++) {
+          if (prefetched.has(j)) continue;
+          const taxonomy: Taxonomy = {};
+          accumulatedPapers.forEach(p => { 
+            if (!taxonomy[p.category]) taxonomy[p.category] = []; 
+            if (!taxonomy[p.category].includes(p.theme)) taxonomy[p.category].push(p.theme); 
+          });
+          const request = analyzeWithGemini(textBatches[j], taxonomy, apiKey, reviewTopic, activeModel, enableSpecies, useRecords, useThirdLevel ? buildSubTaxonomy(accumulatedPapers) : null, codebook, (msg) => setRetryStatus(msg), (report) => recordValidation(report, `Batch ${j + 1}`), runCacheMode, signal);
+          request.catch(() => undefined); // Errors are handled when this batch's turn comes
+          prefetched.set(j, request);
+        }
 
         let result;
         let truncated = false;
         try {
-            const analysis = await analyzeWithGemini(textBatches[i], taxonomy, apiKey, reviewTopic, activeModelId, enableSpecies, (msg) => setRetryStatus(msg));
+            const analysis = await prefetched.get(i)!;
+            prefetched.delete(i);
             result = analysis.result;
             truncated = analysis.truncated;
         } catch (e: any) {
+            prefetched.delete(i);
             if (e.message.includes("malformed data") || e.message.includes("JSON")) {
                 setManualFixState({
                     isOpen: true,
@@ -1772,25 +6006,27 @@ const App = () => {
             throw e; 
         }
 
+        localBatchCounter += 1;
+        const coverage = reconcileBatch(recordBatches[i].records, result.papers);
+
         if (truncated) {
-            setError("⚠️ Note: Some data in batch " + (i + 1) + " was truncated by the AI limit. Proceeding with partial data.");
+            setError(`⚠️ Note: Some data in batch ${i + 1} was truncated by the AI limit. ${coverage.missing.length} papers from this batch are missing; see the Extraction Coverage report to re-run them.`);
         } else {
             setRetryStatus(''); 
         }
-
-        localBatchCounter += 1;
         
-        const newPapers: Paper[] = result.papers.map((p, idx) => ({
+        const newPapers: Paper[] = result.papers.map((p, idx) => withSourceMetadata({
           id: `b${localBatchCounter}-p${idx}-${Date.now()}`,
           title: p.title, 
           abstractSnippet: p.abstract_summary, 
           category: p.main_category, 
           theme: p.sub_theme,
+          subSubTheme: p.sub_sub_theme,
           driver: p.driver_variable || "Unspecified", 
           driverGroup: p.driver_variable || "Unspecified", 
           response: p.response_variable || "Unspecified", 
           responseGroup: p.response_variable || "Unspecified",
-          effectDirection: (p.effect_direction as any) || 'Unclear',
+          effectDirection: p.effect_direction,
           location: p.study_location || "Unspecified", 
           species: p.study_species || "Unspecified",
           keyFinding: p.key_finding, 
@@ -1800,11 +6036,24 @@ const App = () => {
           year: p.year, 
           journal: p.journal, 
           shortCitation: p.short_citation, 
-          modelUsed: activeModelId
-        }));
+          modelUsed: activeModelId,
+          codebookProposal: isCodebookProposal(codebook, p.main_category, p.sub_theme) || undefined
+        }, recordMap.get(coverage.sourceIds[idx] || '')?.source));
 
         accumulatedPapers = [...accumulatedPapers, ...newPapers];
         setPapers(accumulatedPapers);
+
+        coverageRef.current = {
+          totalRecords: coverageRef.current?.totalRecords ?? inputRecords.length,
+          processed: (coverageRef.current?.processed ?? 0) + recordBatches[i].records.length,
+          missing: [...(coverageRef.current?.missing || []), ...coverage.missing],
+          unmatched: [...(coverageRef.current?.unmatched || []), ...coverage.unmatchedIdx.map(idx => ({ paperId: newPapers[idx].id, title: newPapers[idx].title, batch: i + 1 }))]
+        };
+        setCoverageReport(coverageRef.current);
+
+        // Flag overlaps with papers from earlier batches / imports as soon as they appear
+        const duplicates = findDuplicatePairs(accumulatedPapers, distinctPairKeys);
+        setDuplicatePairs(duplicates.length > 0 ? duplicates : null);
         
         const newCats = new Set(newPapers.map(p => p.category));
         setExpandedCategories(prev => {
@@ -1814,11 +6063,22 @@ const App = () => {
         });
 
         setBatchCount(localBatchCounter);
-        await wait(2000);
+        setRunCheckpoint({ batches: recordBatches, nextBatch: i + 1, batchCount: localBatchCounter, coverage: coverageRef.current, skipAudit: runSkipsAudit });
       }
       
       // AUTO-AUDIT LOGIC ADDED HERE
-      if (!stopSignal.current && accumulatedPapers.length > 0) {
+      if (!stopSignal.current && runSkipsAudit) {
+        // Filling gaps after a finished run: the audit already ran then and would cost another request
+        setNotice(`✅ Done! Re-ran ${inputRecords.length} missing papers. Run Suggest Merges if you want to review the structure again.`);
+        setRunCheckpoint(null);
+      } else if (!stopSignal.current && accumulatedPapers.length > 0 && codebook) {
+        // The codebook defines the structure, so the audit must not rename or merge its sections
+        const proposals = codebook.mode === 'seeded' ? findCodebookProposals(accumulatedPapers, codebook) : [];
+        const otherCount = accumulatedPapers.filter(p => p.category === CODEBOOK_OTHER && p.theme === CODEBOOK_OTHER).length;
+        setNotice(`✅ Done! Processed ${accumulatedPapers.length} papers into the codebook.${otherCount > 0 ? ` ${otherCount} fit no entry ("${CODEBOOK_OTHER}").` : ''}${proposals.length > 0 ? ` The AI proposes ${proposals.length} new sub-themes; review them in the List view.` : ''}`);
+        setIsOptimized(true);
+        setRunCheckpoint(null);
+      } else if (!stopSignal.current && accumulatedPapers.length > 0) {
         setRetryStatus("Finalizing: Auditing Taxonomy...");
         
         // 1. Generate unique "Category ||| Theme" list
@@ -1827,13 +6087,19 @@ const App = () => {
         const taxonomyList = Array.from(uniquePairs);
 
         // 2. Call the superior structural auditor
-        const audit = await auditTaxonomyWithGemini(taxonomyList, apiKey, reviewTopic, activeModelId, (msg) => setRetryStatus(msg));
+        const audit = await auditTaxonomyWithGemini(taxonomyList, buildSubTaxonomy(accumulatedPapers), apiKey, reviewTopic, activeModel, (msg) => setRetryStatus(msg), (report) => recordValidation(report), runCacheMode, signal);
         
-        // 3. Apply fixes
+        // 3. Apply fixes (or queue them for review), skipping no-ops and fixes rejected before
+        const fixes = (audit?.fixes || []).filter(f =>
+          (f.original_category !== f.new_category || f.original_theme !== f.new_theme)
+          && !rejectedSuggestions.includes(getSuggestionSignature({ id: '', main_category: f.original_category, suggested_audit_fix: f })));
         let finalPapers = accumulatedPapers;
-        if (audit && audit.fixes && audit.fixes.length > 0) {
+        if (fixes.length > 0 && reviewAuditFixes) {
+           setConsolidationSuggestions(fixes.map((f, i) => ({ id: `audit-${i}-${Date.now()}`, main_category: f.original_category, suggested_audit_fix: f })));
+           setNotice(`✅ Done! Processed ${accumulatedPapers.length} papers. The audit proposes ${fixes.length} fixes; review them under Structuring Suggestions.`);
+        } else if (fixes.length > 0) {
            finalPapers = accumulatedPapers.map(p => { 
-             const fix = audit.fixes.find(f => f.original_category === p.category && f.original_theme === p.theme); 
+             const fix = fixes.find(f => f.original_category === p.category && f.original_theme === p.theme); 
              return fix ? { 
                ...p, 
                category: fix.new_category, 
@@ -1841,18 +6107,27 @@ const App = () => {
              } : p; 
            });
            setPapers(finalPapers); 
-           setError(`✅ Done! Processed ${accumulatedPapers.length} papers. Auto-merged ${audit.fixes.length} categories.`);
+           setEditHistory(prev => pushEditHistory(prev, `Auto-audit fixes (${fixes.length})`, { papers: accumulatedPapers, lockedItems, suggestions: null, acceptedSuggestions, isTermsNormalized, codebook }, { papers: finalPapers, lockedItems, suggestions: null, acceptedSuggestions, isTermsNormalized, codebook }));
+           setNotice(`✅ Done! Processed ${accumulatedPapers.length} papers. Auto-merged ${fixes.length} categories.`);
         } else {
-           setError(`✅ Done! Processed ${accumulatedPapers.length} papers.`);
+           setNotice(`✅ Done! Processed ${accumulatedPapers.length} papers.`);
         }
         setIsOptimized(true);
+        setRunCheckpoint(null);
       }
 
-      setInputText(''); 
+      // A stopped run keeps its input, so the remaining papers can be run again without re-importing them
+      if (!stopSignal.current) {
+        setInputText(''); 
+        setImportedRecords(null);
+      }
       setTimeout(() => resultsEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
 
     } catch (err: any) {
-      if (err instanceof QuotaExceededError) {
+      if (err instanceof CancelledError) {
+        prefetched.clear(); // Their requests were aborted too; a later run must start them again
+        setNotice(`🛑 Stopped. Papers from ${localBatchCounter - batchCount} finished batch(es) were kept.`);
+      } else if (err instanceof QuotaExceededError) {
         setQuotaErrorOpen(true);
         setError("🛑 Stopped due to Quota Limit. Please check the modal.");
       } else {
@@ -1880,21 +6155,25 @@ const App = () => {
         if (!taxonomy[p.category].includes(p.theme)) taxonomy[p.category].push(p.theme); 
       });
       
-      analyzeWithGemini(newText, taxonomy, apiKey, reviewTopic, activeModelId, enableSpecies, (msg) => setRetryStatus(msg))
+      const batchRecords = activeRun.current?.batches[resumeIndex]?.records || [];
+      const recordMap = new Map(batchRecords.map(r => [r.id, r]));
+      analyzeWithGemini(newText, taxonomy, apiKey, reviewTopic, activeModel, enableSpecies, batchRecords.some(r => r.source), useThirdLevel ? buildSubTaxonomy(papers) : null, codebook, (msg) => setRetryStatus(msg), (report) => recordValidation(report, `Batch ${resumeIndex + 1} (manual fix)`), activeRun.current?.cacheMode, getExtractionSignal())
         .then(analysis => { 
              const result = analysis.result;
+             const coverage = reconcileBatch(batchRecords, result.papers);
              
-             const newPapers = result.papers.map((p, idx) => ({
+             const newPapers = result.papers.map((p, idx) => withSourceMetadata({
                   id: `b${batchCount}-fixed-${idx}-${Date.now()}`,
                   title: p.title, 
                   abstractSnippet: p.abstract_summary, 
                   category: p.main_category, 
                   theme: p.sub_theme,
+                  subSubTheme: p.sub_sub_theme,
                   driver: p.driver_variable || "Unspecified", 
                   driverGroup: p.driver_variable || "Unspecified", 
                   response: p.response_variable || "Unspecified", 
                   responseGroup: p.response_variable || "Unspecified",
-                  effectDirection: (p.effect_direction as any) || 'Unclear',
+                  effectDirection: p.effect_direction,
                   location: p.study_location || "Unspecified", 
                   species: p.study_species || "Unspecified",
                   keyFinding: p.key_finding, 
@@ -1904,135 +6183,104 @@ const App = () => {
                   year: p.year, 
                   journal: p.journal, 
                   shortCitation: p.short_citation, 
-                  modelUsed: activeModelId
-            }));
-            setPapers(prev => [...prev, ...newPapers]);
+                  modelUsed: activeModelId,
+                  codebookProposal: isCodebookProposal(codebook, p.main_category, p.sub_theme) || undefined
+            }, recordMap.get(coverage.sourceIds[idx] || '')?.source));
+            // Recorded like the rest of the run: the history is reset, so Undo cannot restore a state without these papers
+            const nextPapers = [...papers, ...newPapers];
+            setPapers(nextPapers);
+            setEditHistory(EMPTY_EDIT_HISTORY);
+            coverageRef.current = {
+              totalRecords: coverageRef.current?.totalRecords ?? batchRecords.length,
+              processed: (coverageRef.current?.processed ?? 0) + batchRecords.length,
+              missing: [...(coverageRef.current?.missing || []), ...coverage.missing],
+              unmatched: [...(coverageRef.current?.unmatched || []), ...coverage.unmatchedIdx.map(idx => ({ paperId: newPapers[idx].id, title: newPapers[idx].title, batch: resumeIndex + 1 }))]
+            };
+            setCoverageReport(coverageRef.current);
             setBatchCount(prev => prev + 1); // Increment batch count
             
-            handleProcessAll(resumeIndex + 1); 
+            handleProcessAll(resumeIndex + 1, '', undefined, false, nextPapers); // This render's `papers` predates the fix
         })
         .catch(err => {
-             setError("Manual fix failed: " + err.message);
-             setManualFixState({ isOpen: true, text: newText, batchIndex: resumeIndex }); 
+             if (err instanceof CancelledError) {
+                 activeRun.current?.prefetched.clear();
+                 setNotice("🛑 Stopped.");
+                 setRetryStatus('');
+             } else {
+                 setError("Manual fix failed: " + err.message);
+                 setManualFixState({ isOpen: true, text: newText, batchIndex: resumeIndex }); 
+             }
              setIsProcessing(false);
         });
   };
 
-  const handleClearAll = () => { setPapers([]); setBatchCount(0); setInputText(''); setError(null); setConsolidationSuggestions(null); setIsConsolidationComplete(false); setFilteredPapers(null); setIsOptimized(false); setIsTermsNormalized(false); setRejectedSuggestions([]); setLockedItems([]); setIsDriverGrouped(false); setIsResponseGrouped(false); };
-  
-  // NEW: Accept Suggestion Handler
-  const handleAcceptSuggestion = (suggestionId: string) => {
-      const suggestion = consolidationSuggestions?.find(s => s.id === suggestionId);
-      if (!suggestion) return;
+  // Runs that would exceed the model's daily limit need an explicit confirmation first
+  const confirmRun = (estimate: RunEstimate, start: () => void) => {
+      if (estimate.fitsDailyLimit) start();
+      else setPendingRun({ estimate, start });
+  };
 
-      let newPapers = [...papers];
-      
-      // 1. Apply MERGE
-      if (suggestion.suggested_merge) {
-          const { themes_to_combine, new_theme_name } = suggestion.suggested_merge;
-          newPapers = newPapers.map(p => {
-              if (p.category === suggestion.main_category && themes_to_combine.includes(p.theme)) {
-                  return { ...p, theme: new_theme_name };
-              }
-              return p;
-          });
-      }
+  const handleStartExtraction = () => {
+      if (extractionEstimate) confirmRun(extractionEstimate, () => handleProcessAll());
+      else handleProcessAll();
+  };
 
-      // 2. Apply MOVE
-      if (suggestion.suggested_move) {
-          const { theme, current_category, target_category } = suggestion.suggested_move;
-          newPapers = newPapers.map(p => {
-              if (p.category === current_category && p.theme === theme) {
-                  return { ...p, category: target_category };
-              }
-              return p;
-          });
-      }
+  const handleRerunMissing = () => {
+      if (!coverageRef.current || coverageRef.current.missing.length === 0) return;
+      handleProcessAll(0, '', coverageRef.current.missing, true);
+  };
 
-      // 3. Apply CATEGORY MERGE (and clean up zombie suggestions)
-      if (suggestion.suggested_category_merge) {
-          const { source_category, target_category } = suggestion.suggested_category_merge;
-          newPapers = newPapers.map(p => {
-              if (p.category === source_category) {
-                  return { ...p, category: target_category };
-              }
-              return p;
-          });
+  // Removes an entry flagged as unmatched (e.g. hallucinated) from the workspace
+  const handleRemoveUnmatchedPaper = (paperId: string) => {
+      const paper = papers.find(p => p.id === paperId);
+      commitEdit(`Remove unmatched paper "${paper?.title || paperId}"`, { papers: papers.filter(p => p.id !== paperId) });
+      handleKeepUnmatchedPaper(paperId);
+  };
 
-          // UPDATE PENDING SUGGESTIONS to reflect the category merge
-          if (consolidationSuggestions) {
-             const updatedSuggestions = consolidationSuggestions.map(s => {
-                  if (s.id === suggestionId) return s; // Will be removed anyway
-
-                  // If another suggestion was inside the merged category, update it
-                  if (s.main_category === source_category) {
-                      return { ...s, main_category: target_category };
-                  }
-                  // Update moves FROM the merged category
-                  if (s.suggested_move && s.suggested_move.current_category === source_category) {
-                      return { ...s, suggested_move: { ...s.suggested_move, current_category: target_category } };
-                  }
-                  // Update moves TO the merged category
-                  if (s.suggested_move && s.suggested_move.target_category === source_category) {
-                      return { ...s, suggested_move: { ...s.suggested_move, target_category: target_category } };
-                  }
-                  return s;
-             });
-             setConsolidationSuggestions(updatedSuggestions);
-          }
-      }
+  const handleKeepUnmatchedPaper = (paperId: string) => {
+      if (!coverageRef.current) return;
+      coverageRef.current = { ...coverageRef.current, unmatched: coverageRef.current.unmatched.filter(u => u.paperId !== paperId) };
+      setCoverageReport(coverageRef.current);
+  };
 
-      // 4. Apply RENAME (and update pending suggestions)
-      if (suggestion.suggested_rename) {
-          const { current_name, new_name } = suggestion.suggested_rename;
-          
-          // Apply to papers
-          newPapers = newPapers.map(p => {
-              if (p.category === current_name) {
-                  return { ...p, category: new_name };
-              }
-              return p;
-          });
+  const recordValidation = (report: ValidationReport, label: string = report.label) => {
+      setValidationReports(prev => [...prev, { ...report, label }]);
+  };
 
-          // CRITICAL: Update other pending suggestions that reference the old name
-          if (consolidationSuggestions) {
-              const updatedSuggestions = consolidationSuggestions.map(s => {
-                  if (s.id === suggestionId) return s; // Ignore current one (will be removed)
-                  
-                  // If another suggestion is inside the renamed category, update its main_category ref
-                  if (s.main_category === current_name) {
-                      return { ...s, main_category: new_name };
-                  }
-                  
-                  // If another suggestion is a move FROM the renamed category
-                  if (s.suggested_move && s.suggested_move.current_category === current_name) {
-                      return { ...s, suggested_move: { ...s.suggested_move, current_category: new_name } };
-                  }
-
-                  // If another suggestion is a move TO the renamed category
-                  if (s.suggested_move && s.suggested_move.target_category === current_name) {
-                      return { ...s, suggested_move: { ...s.suggested_move, target_category: new_name } };
-                  }
-                  
-                  // If another suggestion is a MERGE of this category
-                  if (s.suggested_category_merge && s.suggested_category_merge.source_category === current_name) {
-                       return { ...s, suggested_category_merge: { ...s.suggested_category_merge, source_category: new_name } };
-                  }
-                  if (s.suggested_category_merge && s.suggested_category_merge.target_category === current_name) {
-                       return { ...s, suggested_category_merge: { ...s.suggested_category_merge, target_category: new_name } };
-                  }
-
-                  return s;
-              });
-              setConsolidationSuggestions(updatedSuggestions);
-          }
-      }
+  const handleFindDuplicates = () => {
+      setDuplicatePairs(findDuplicatePairs(papers, distinctPairKeys));
+  };
+
+  const handleMergeDuplicate = (pair: DuplicatePair) => {
+      commitEdit('Merge duplicate entries', { papers: applyDuplicateMerge(papers, pair) });
+      setDuplicatePairs(prev => prev ? prev.filter(p => p.key !== pair.key) : null);
+  };
+
+  const handleMergeAllDuplicates = () => {
+      if (!duplicatePairs) return;
+      commitEdit(`Merge all duplicates (${duplicatePairs.length})`, { papers: duplicatePairs.reduce(applyDuplicateMerge, papers) });
+      setDuplicatePairs([]);
+  };
+
+  const handleMarkDistinct = (pair: DuplicatePair) => {
+      setDistinctPairKeys(prev => [...prev, pair.key]);
+      setDuplicatePairs(prev => prev ? prev.filter(p => p.key !== pair.key) : null);
+  };
+
+  const handleClearAll = () => { setPapers([]); setDuplicatePairs(null); setDistinctPairKeys([]); setBatchCount(0); setInputText(''); setImportedRecords(null); setCoverageReport(null); setValidationReports([]); coverageRef.current = null; activeRun.current = null; setError(null); setNotice(null); setConsolidationSuggestions(null); setIsConsolidationComplete(false); setFilteredPapers(null); setIsOptimized(false); setIsTermsNormalized(false); setRejectedSuggestions([]); setLockedItems([]); setIsDriverGrouped(false); setIsResponseGrouped(false); setEditHistory(EMPTY_EDIT_HISTORY); setTaxonomySnapshots([]); setSelectedPaperIds([]); setPlacements({}); setAcceptedSuggestions([]); setConsolidationRound(0); setRunCheckpoint(null); setSelectedSuggestionIds([]); };
+  
+  // NEW: Accept Suggestion Handler
+  const handleAcceptSuggestion = (suggestionId: string) => {
+      const suggestion = consolidationSuggestions?.find(s => s.id === suggestionId);
+      if (!suggestion || staleSuggestionReasons[suggestionId]) return;
 
-      setPapers(newPapers);
+      const applied = applyConsolidationSuggestion(papers, consolidationSuggestions, suggestion);
+      commitEdit(`Accept ${getSuggestionSignature(suggestion)}`, {
+          papers: applied.papers,
+          suggestions: applied.pending,
+          acceptedSuggestions: logAcceptedSuggestion(acceptedSuggestions, suggestion)
+      });
       setIsOptimized(true); // Structure is optimized, but not terms
-      
-      // Remove accepted suggestion from list
-      setConsolidationSuggestions(prev => prev ? prev.filter(s => s.id !== suggestionId) : null);
   };
 
   // NEW: Reject Suggestion Handler
@@ -2049,6 +6297,45 @@ const App = () => {
       setConsolidationSuggestions(prev => prev ? prev.filter(s => s.id !== suggestionId) : null);
   };
 
+  const toggleSuggestionSelection = (suggestionId: string) => {
+      setSelectedSuggestionIds(prev => prev.includes(suggestionId) ? prev.filter(id => id !== suggestionId) : [...prev, suggestionId]);
+  };
+
+  // Accepts the selected suggestions as one undoable edit; ones made stale by an earlier one in the set stay in the list
+  const handleAcceptSelected = () => {
+      if (!consolidationSuggestions) return;
+      const result = applySuggestionSet(papers, consolidationSuggestions, selectedSuggestionIds, lockedItems);
+      setSelectedSuggestionIds([]);
+      if (result.applied.length === 0) { setError(`Nothing accepted: ${result.skipped.length === 1 ? 'the selected suggestion is' : 'all selected suggestions are'} stale.`); return; }
+      commitEdit(`Accept ${result.applied.length} suggestions`, { papers: result.papers, suggestions: result.pending, acceptedSuggestions: result.applied.reduce(logAcceptedSuggestion, acceptedSuggestions) });
+      setIsOptimized(true);
+      if (result.skipped.length > 0) setNotice(`Accepted ${result.applied.length} suggestions. Skipped ${result.skipped.length} that an earlier one in the set made stale.`);
+  };
+
+  const handleRejectSelected = () => {
+      const rejected = (consolidationSuggestions || []).filter(s => selectedSuggestionIds.includes(s.id));
+      setRejectedSuggestions(prev => [...prev, ...rejected.map(getSuggestionSignature).filter(sig => sig && !prev.includes(sig))]);
+      setConsolidationSuggestions(prev => prev ? prev.filter(s => !selectedSuggestionIds.includes(s.id)) : null);
+      setSelectedSuggestionIds([]);
+  };
+
+  // Stale suggestions are dropped without being rejected; a later round may propose them again in a form that fits
+  const handleDismissStale = () => {
+      setConsolidationSuggestions(prev => prev ? prev.filter(s => !staleSuggestionReasons[s.id]) : null);
+      setSelectedSuggestionIds(prev => prev.filter(id => !staleSuggestionReasons[id]));
+  };
+
+  // Locks every existing section along the flagged cycles and rejects the flip-flopping suggestions
+  const handleLockFlipFlops = (suggestionIds?: string[]) => {
+      const flagged = (consolidationSuggestions || []).filter(s => suggestionFlipFlops[s.id] && (!suggestionIds || suggestionIds.includes(s.id)));
+      if (flagged.length === 0) return;
+      const keys = Array.from(new Set(flagged.flatMap(s => suggestionFlipFlops[s.id].items))).filter(key => lockKeyExists(key, papers) && !lockedItems.includes(key));
+      const remaining = (consolidationSuggestions || []).filter(s => !flagged.includes(s));
+      commitEdit(`Lock ${keys.length} flip-flopping ${keys.length === 1 ? 'section' : 'sections'}`, { lockedItems: [...lockedItems, ...keys], suggestions: remaining.length > 0 ? remaining : null });
+      setRejectedSuggestions(prev => [...prev, ...flagged.map(getSuggestionSignature).filter(sig => sig && !prev.includes(sig))]);
+      if (remaining.length === 0) setNotice(`✅ The taxonomy has converged. Locked ${keys.length} ${keys.length === 1 ? 'section' : 'sections'} that kept changing back and forth.`);
+  };
+
   // NEW: Handle Reverse Suggestion Logic
   const handleReverseSuggestion = async (suggestionId: string) => {
       const suggestion = consolidationSuggestions?.find(s => s.id === suggestionId);
@@ -2060,7 +6347,7 @@ const App = () => {
           if (suggestion.suggested_category_merge) {
               // CASE 1: Category Merge Reverse
               const { source_category, target_category } = suggestion.suggested_category_merge;
-              const result = await reverseSuggestionWithGemini(source_category, target_category, apiKey, activeModelId, () => {});
+              const result = await reverseSuggestionWithGemini(source_category, target_category, apiKey, activeModel, () => {});
               
               if (result && result.reason) {
                   // Flip the suggestion in place
@@ -2084,7 +6371,7 @@ const App = () => {
               const { current_category, target_category } = suggestion.suggested_move;
               
               // We ask the AI to justify merging the Target into the Current (the reverse of moving the sub-theme out)
-              const result = await reverseSuggestionWithGemini(target_category, current_category, apiKey, activeModelId, () => {});
+              const result = await reverseSuggestionWithGemini(target_category, current_category, apiKey, activeModel, () => {});
 
               if (result && result.reason) {
                    setConsolidationSuggestions(prev => prev?.map(s => {
@@ -2130,7 +6417,7 @@ const App = () => {
 
           if (themePapers.length === 0) return;
 
-          const verification = await verifyMoveWithGemini(theme, current_category, target_category, themePapers, apiKey, activeModelId, () => {});
+          const verification = await verifyMoveWithGemini(theme, current_category, target_category, themePapers, apiKey, activeModel, () => {});
           
           if (verification.isValid) {
                // Mark as verified
@@ -2151,9 +6438,12 @@ const App = () => {
       if (papers.length === 0 || !apiKey) return; 
       setIsConsolidating(true); 
       setConsolidationSuggestions(null);
+      setSelectedSuggestionIds([]);
       // Reset complete flag to hide the "Refine" message while processing
       setIsConsolidationComplete(false); 
       setRetryStatus("Consolidating Taxonomy...");
+      const round = consolidationRound + 1;
+      setConsolidationRound(round);
       
       try {
         const taxonomy: Taxonomy = {};
@@ -2168,11 +6458,22 @@ const App = () => {
           // FIXED: Use a cleaner key for the prompt
           const sampleKey = `${p.category}: ${p.theme}`;
           if (!paperSamples[sampleKey]) paperSamples[sampleKey] = [];
-          if (paperSamples[sampleKey].length < 10) paperSamples[sampleKey].push(p.title);
+          if (paperSamples[sampleKey].length < 10) paperSamples[sampleKey].push(p.subSubTheme ? `[${p.subSubTheme}] ${p.title}` : p.title);
         });
 
+        // Large sub-themes may be split; locked ones and splits rejected before are not offered
+        const splitCandidates: SplitCandidates = {};
+        Object.entries(taxonomy).forEach(([cat, themes]) => themes.forEach(theme => {
+          const themePapers = papers.filter(p => p.category === cat && p.theme === theme);
+          const isLocked = lockedItems.includes(`cat:${cat}`) || lockedItems.includes(`theme:${cat}|||${theme}`);
+          const wasRejected = rejectedSuggestions.includes(getSuggestionSignature({ id: '', main_category: cat, suggested_split: { theme, new_themes: [], reason: '' } }));
+          if (themePapers.length >= SPLIT_MIN_PAPERS && !isLocked && !wasRejected) {
+            splitCandidates[`${cat}: ${theme}`] = themePapers.slice(0, SPLIT_MAX_LISTED).map(p => ({ id: p.id, title: p.title }));
+          }
+        }));
+
         // Use the new consolidation logic with rejected suggestions
-        const consolidation = await consolidateThemesWithGemini(taxonomy, paperSamples, apiKey, reviewTopic, activeModelId, rejectedSuggestions, lockedItems, (msg) => setRetryStatus(msg));
+        const consolidation = await consolidateThemesWithGemini(taxonomy, paperSamples, splitCandidates, apiKey, reviewTopic, activeModel, rejectedSuggestions, lockedItems, (msg) => setRetryStatus(msg), (report) => recordValidation(report));
         
         if (consolidation.suggestions && consolidation.suggestions.length > 0) {
            const suggestionsForUI: ConsolidationSuggestion[] = [];
@@ -2231,6 +6532,17 @@ const App = () => {
                  }
               }
 
+              // 5. Check SPLIT Validity (locks may have changed while the request ran)
+              if (suggestion.suggested_split) {
+                 const isLocked = lockedItems.includes(`cat:${suggestion.main_category}`) || lockedItems.includes(`theme:${suggestion.main_category}|||${suggestion.suggested_split.theme}`);
+                 const wasRejected = rejectedSuggestions.includes(getSuggestionSignature({ id: '', main_category: suggestion.main_category, suggested_split: suggestion.suggested_split }));
+                 if (!isLocked && !wasRejected) {
+                     isMeaningfulChange = true;
+                 } else {
+                    suggestion.suggested_split = null;
+                 }
+              }
+
               if (isMeaningfulChange) {
                   suggestionsForUI.push({
                       id: Math.random().toString(36).substr(2, 9),
@@ -2238,7 +6550,9 @@ const App = () => {
                       suggested_merge: suggestion.suggested_merge,
                       suggested_rename: suggestion.suggested_rename,
                       suggested_move: suggestion.suggested_move,
-                      suggested_category_merge: suggestion.suggested_category_merge
+                      suggested_category_merge: suggestion.suggested_category_merge,
+                      suggested_split: suggestion.suggested_split,
+                      round
                   });
               }
            });
@@ -2256,43 +6570,74 @@ const App = () => {
     } catch (e: any) { setError(e.message); } finally { setIsConsolidating(false); setRetryStatus(''); }
   };
   
-  const handleSynthesizeSection = async (cat: string, theme: string) => { 
+  const handleSynthesizeSection = async (cat: string, theme: string, cacheMode: CacheMode = 'use', subSubTheme?: string) => { 
       if (!apiKey) { setError("No API Key"); return; }
-      const targets = papers.filter(p => p.category === cat && p.theme === theme);
+      lastSynthesisTarget.current = { cat, theme, subSubTheme };
+      const targets = papers.filter(p => p.category === cat && p.theme === theme && (subSubTheme === undefined || p.subSubTheme === subSubTheme));
       if (!targets.length) return;
-      setSynthesisThemeKey(`${cat}-${theme}`); 
+      setSynthesisThemeKey(subSubTheme === undefined ? `${cat}-${theme}` : `${cat}-${theme}-${subSubTheme}`); 
       setSynthesisModalOpen(true); 
       setIsSynthesizing(true);
+      synthesisAbort.current?.abort(); // Only the latest request may fill the modal
+      const controller = new AbortController();
+      synthesisAbort.current = controller;
       try { 
-        const data = targets.map(p => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation })); 
-        const res = await synthesizeSectionWithGemini(theme, data, apiKey, reviewTopic, activeModelId, (m)=>setRetryStatus(m)); 
+        const data = targets.map(p => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation, group: subSubTheme === undefined ? p.subSubTheme : undefined })); 
+        const res = await synthesizeSectionWithGemini(subSubTheme ?? theme, data, apiKey, reviewTopic, activeModel, (m)=>setRetryStatus(m), cacheMode, controller.signal); 
         setSynthesisResult(res); 
       } catch (e: any) { 
-        setSynthesisResult({ summary: "Error", contradictionAnalysis: e.message }); 
-      } finally { setIsSynthesizing(false); }
+        if (!(e instanceof CancelledError)) setSynthesisResult({ summary: "Error", contradictionAnalysis: e.message }); 
+      } finally { if (synthesisAbort.current === controller) { setIsSynthesizing(false); setRetryStatus(''); } }
   };
 
-  const handleSynthesizeMainCategory = async (cat: string) => {
+  const handleSynthesizeMainCategory = async (cat: string, cacheMode: CacheMode = 'use') => {
       if (!apiKey) { setError("No API Key"); return; }
+      lastSynthesisTarget.current = { cat };
       const targets = papers.filter(p => p.category === cat);
       if (!targets.length) return;
       setSynthesisThemeKey(`${cat}`); // Just the category name
       setSynthesisModalOpen(true);
       setIsSynthesizing(true);
+      synthesisAbort.current?.abort(); // Only the latest request may fill the modal
+      const controller = new AbortController();
+      synthesisAbort.current = controller;
       try { 
         const data = targets.map(p => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation })); 
-        const res = await synthesizeSectionWithGemini(cat, data, apiKey, reviewTopic, activeModelId, (m)=>setRetryStatus(m)); 
+        const res = await synthesizeSectionWithGemini(cat, data, apiKey, reviewTopic, activeModel, (m)=>setRetryStatus(m), cacheMode, controller.signal); 
         setSynthesisResult(res); 
       } catch (e: any) { 
-        setSynthesisResult({ summary: "Error", contradictionAnalysis: e.message }); 
-      } finally { setIsSynthesizing(false); }
+        if (!(e instanceof CancelledError)) setSynthesisResult({ summary: "Error", contradictionAnalysis: e.message }); 
+      } finally { if (synthesisAbort.current === controller) { setIsSynthesizing(false); setRetryStatus(''); } }
+  };
+
+  const handleRegenerateSynthesis = () => {
+      const target = lastSynthesisTarget.current;
+      if (!target) return;
+      if (target.theme !== undefined) handleSynthesizeSection(target.cat, target.theme, 'refresh', target.subSubTheme);
+      else handleSynthesizeMainCategory(target.cat, 'refresh');
+  };
+
+  const getSubThemeSynthesisEstimate = () => {
+      const sections = new Map<string, Paper[]>();
+      papers.forEach(p => {
+        const key = `${p.category} / ${p.theme}`;
+        sections.set(key, [...(sections.get(key) || []), p]);
+      });
+      return estimateSynthesisRun('Synthesize Sub-Themes', Array.from(sections, ([label, sectionPapers]) => ({ label, papers: sectionPapers })), activeModel, dailyUsage);
+  };
+
+  const getMainSynthesisEstimate = () => {
+      const cats = Array.from(new Set(papers.map(p => p.category))).sort();
+      return estimateSynthesisRun('Synthesize Main Categories', cats.map(cat => ({ label: cat, papers: papers.filter(p => p.category === cat) })), activeModel, dailyUsage);
   };
 
   const handleOverallSynthesisAndExport = async () => { 
       if (!apiKey || papers.length === 0) return; 
       setIsBulkSynthesizing(true); 
-      setError(null); 
+      setError(null); setNotice(null); 
       setRetryStatus('');
+      const controller = new AbortController();
+      bulkAbort.current = controller;
       try {
         const grouped: Record<string, Record<string, Paper[]>> = {}; 
         papers.forEach(p => { 
@@ -2301,56 +6646,82 @@ const App = () => {
           grouped[p.category][p.theme].push(p); 
         });
         
-        const finalSections: any[] = [];
-        for (const cat of Object.keys(grouped).sort()) { 
-          for (const theme of Object.keys(grouped[cat]).sort()) {
-            const pData = grouped[cat][theme].map((p: any) => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation }));
-            setRetryStatus(`Bulk: ${theme}...`);
-            const result = await synthesizeSectionWithGemini(theme, pData, apiKey, reviewTopic, activeModelId, (msg) => setRetryStatus(`Bulk: ${msg}`));
-            finalSections.push({ category: cat, theme, result: { ...result, modelUsed: activeModelId } });
-          } 
-        }
+        // Sections run as many at a time as the model allows; the scheduler paces each request against the rate limit
+        const sections = Object.keys(grouped).sort().flatMap(cat => Object.keys(grouped[cat]).sort().map(theme => ({ cat, theme })));
+        const settled = await runQueued(sections, activeModel.maxConcurrency, async ({ cat, theme }) => {
+            const pData = grouped[cat][theme].map((p: any) => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation, group: p.subSubTheme }));
+            try {
+              const result = await synthesizeSectionWithGemini(theme, pData, apiKey, reviewTopic, activeModel, (msg) => setRetryStatus(`Bulk: ${msg}`), 'use', controller.signal);
+              setRetryStatus(`Bulk: ${theme} done`);
+              return { category: cat, theme, result: { ...result, modelUsed: activeModelId } };
+            } catch (err) {
+              if (err instanceof QuotaExceededError || err instanceof ApiKeyError) controller.abort(); // The remaining sections would fail the same way
+              throw err;
+            }
+        });
+        // Sections stopped or failed part-way are left out so the finished ones are still shown
+        const finalSections: any[] = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        const failure = bulkFailureMessage(settled, 'sub-themes');
+        if (failure) setError(failure);
+        else if (controller.signal.aborted) setNotice(`🛑 Stopped. ${finalSections.length} of ${sections.length} sub-themes were synthesized.`);
         
         // --- CHANGED: Store in state and open modal instead of immediate download ---
-        setBulkResults(finalSections);
-        setBulkType('sub');
-        setBulkModalOpen(true);
-      } catch (err: any) { setError(err.message); } finally { setIsBulkSynthesizing(false); setRetryStatus(''); }
+        if (finalSections.length > 0) {
+          setBulkResults(finalSections);
+          setBulkType('sub');
+          setBulkModalOpen(true);
+        }
+      } catch (err: any) {
+        setError(err.message);
+      } finally { setIsBulkSynthesizing(false); setRetryStatus(''); }
   };
 
   // NEW: Bulk Synthesis for Main Categories (Aggregating Sub-Themes)
   const handleBulkMainSynthesis = async () => {
       if (!apiKey || papers.length === 0) return; 
       setIsBulkSynthesizing(true); 
-      setError(null); 
+      setError(null); setNotice(null); 
       setRetryStatus('');
+      const controller = new AbortController();
+      bulkAbort.current = controller;
       try {
         const uniqueCats = Array.from(new Set(papers.map(p => p.category))).sort();
-        const finalSections: any[] = [];
-
-        for (const cat of uniqueCats) {
+        const settled = await runQueued(uniqueCats, activeModel.maxConcurrency, async cat => {
             // Get all papers for this MAIN category, regardless of sub-theme
             const catPapers = papers.filter(p => p.category === cat);
             const pData = catPapers.map((p: any) => ({ keyFinding: p.keyFinding, impactKeywords: p.impactKeywords, shortCitation: p.shortCitation }));
             
-            setRetryStatus(`Bulk Main: ${cat}...`);
             // We reuse synthesizeSectionWithGemini but pass the Main Category name as the "theme" context
-            const result = await synthesizeSectionWithGemini(cat, pData, apiKey, reviewTopic, activeModelId, (msg) => setRetryStatus(`Bulk Main: ${msg}`));
-            finalSections.push({ category: cat, result: { ...result, modelUsed: activeModelId } });
-        }
+            try {
+              const result = await synthesizeSectionWithGemini(cat, pData, apiKey, reviewTopic, activeModel, (msg) => setRetryStatus(`Bulk Main: ${msg}`), 'use', controller.signal);
+              setRetryStatus(`Bulk Main: ${cat} done`);
+              return { category: cat, result: { ...result, modelUsed: activeModelId } };
+            } catch (err) {
+              if (err instanceof QuotaExceededError || err instanceof ApiKeyError) controller.abort();
+              throw err;
+            }
+        });
+        const finalSections: any[] = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        const failure = bulkFailureMessage(settled, 'main categories');
+        if (failure) setError(failure);
+        else if (controller.signal.aborted) setNotice(`🛑 Stopped. ${finalSections.length} of ${uniqueCats.length} main categories were synthesized.`);
 
         // --- CHANGED: Store in state and open modal instead of immediate download ---
-        setBulkResults(finalSections);
-        setBulkType('main');
-        setBulkModalOpen(true);
+        if (finalSections.length > 0) {
+          setBulkResults(finalSections);
+          setBulkType('main');
+          setBulkModalOpen(true);
+        }
 
-      } catch (err: any) { setError(err.message); } finally { setIsBulkSynthesizing(false); setRetryStatus(''); }
+      } catch (err: any) {
+        setError(err.message);
+      } finally { setIsBulkSynthesizing(false); setRetryStatus(''); }
   };
   
   const exportToCSV = () => { 
       if (papers.length === 0) return;
-      const headers = ["ID", "Short Citation", "Main Category", "Sub-Theme", "Driver", "Response", "Driver Group", "Response Group", "Effect", "Location", "Species", "Key Finding", "Title", "Year", "Journal", "Abstract"];
-      const csvContent = [headers.join(","), ...papers.map(p => [`"${p.id}"`, `"${p.shortCitation}"`, `"${p.category}"`, `"${p.theme}"`, `"${p.driver}"`, `"${p.response}"`, `"${p.driverGroup}"`, `"${p.responseGroup}"`, `"${p.effectDirection}"`, `"${p.location}"`, `"${p.species}"`, `"${p.keyFinding}"`, `"${p.title}"`, `"${p.year}"`, `"${p.journal}"`, `"${p.abstractSnippet}"`].join(","))].join("\n");
+      const headers = ["ID", "Short Citation", "Main Category", "Sub-Theme", "Sub-Sub-Theme", "Driver", "Response", "Driver Group", "Response Group", "Effect", "Location", "Species", "Key Finding", "Title", "Year", "Journal", "Abstract"];
+      const csvContent = [headers.join(","), ...papers.map(p => [`"${p.id}"`, `"${p.shortCitation}"`, `"${p.category}"`, `"${p.theme}"`, `"${p.subSubTheme || ''}"`, `"${p.driver}"`, `"${p.response}"`, `"${p.driverGroup}"`, `"${p.responseGroup}"`, `"${p.effectDirection}"`, `"${p.location}"`, `"${p.species}"`, `"${p.keyFinding}"`, `"${p.title}"`, `"${p.year}"`, `"${p.journal}"`, `"${p.abstractSnippet}"`].join(","))].join("\n");
       const blob = new Blob([csvContent], { type: 'text/csv' }); 
       const link = document.createElement("a"); 
       link.href = URL.createObjectURL(blob); 
@@ -2361,15 +6732,12 @@ const App = () => {
   
   const exportStateJSON = () => { 
     if (papers.length === 0) return; 
-    const dataToSave = {
-        papers,
-        reviewTopic,
-        isTermsNormalized // Save this state!
-    };
+    const projectName = projectIndex.projects.find(p => p.id === activeProjectId)?.name || 'My Review';
+    const dataToSave = buildProjectFile(projectName, sessionContent);
     const blob = new Blob([JSON.stringify(dataToSave, null, 2)], { type: 'application/json' }); 
     const link = document.createElement("a"); 
     link.href = URL.createObjectURL(blob); 
-    link.download = "state.json"; 
+    link.download = `${projectName.replace(/[^\w-]+/g, '_')}.json`; 
     document.body.appendChild(link); 
     link.click(); 
     setTimeout(() => document.body.removeChild(link), 100);
@@ -2379,40 +6747,169 @@ const App = () => {
       const file = e.target.files?.[0]; 
       if (!file) return; 
       const reader = new FileReader();
+      e.target.value = ''; // Allow re-importing the same file
       reader.onload = (evt) => { 
         try { 
-          const json = JSON.parse(evt.target?.result as string); 
-          if (json.papers) { 
-            setPapers(json.papers); 
-            setReviewTopic(json.reviewTopic||''); 
-            const newExpanded: any = {}; 
-            json.papers.forEach((p: Paper) => newExpanded[p.category] = true); 
-            setExpandedCategories(newExpanded); 
-            
-            // Restore normalization state
-            setIsTermsNormalized(json.isTermsNormalized || false);
-            if (json.isTermsNormalized) {
-                 // If previously normalized, default groupings to ON
-                 setIsDriverGrouped(true);
-                 setIsResponseGrouped(true);
-            }
-            // If data is loaded, assume it's not preliminary structure unless it is empty
-            setIsOptimized(true);
-
-            setError(`Loaded ${json.papers.length} papers.`); 
-          } 
-        } catch { setError("Invalid JSON"); } 
+          setPendingProjectImport(parseProjectFile(evt.target?.result as string, file.name));
+        } catch (err) { setError(`Could not import ${file.name}: ${(err as Error).message}`); } 
       };
       reader.readAsText(file);
   };
 
+  const handleLoadProjectImport = async (mode: 'replace' | 'new') => {
+      const imported = pendingProjectImport;
+      if (!imported || isWorkspaceBusy) return;
+      setPendingProjectImport(null);
+      // Both paths take the file's custom models in applySessionContent before checking the selected model
+      if (mode === 'replace') {
+        applySessionContent(imported.content);
+        setNotice(`Loaded ${imported.content.papers.length} papers.`);
+        return;
+      }
+      const meta = { ...newProjectMeta(`project-${Date.now()}`, imported.projectName), paperCount: imported.content.papers.length, reviewTopic: imported.content.reviewTopic };
+      await writeSavedSession(meta.id, imported.content);
+      setProjectIndex(prev => ({ ...prev, projects: [...prev.projects, meta] }));
+      handleOpenProject(meta.id, meta.name);
+  };
+
+  const handleStartMerge = () => {
+      if (!pendingProjectImport || isWorkspaceBusy) return;
+      setPendingMerge(planProjectMerge(papers, pendingProjectImport));
+      setPendingProjectImport(null);
+  };
+
+  const handleApplyMerge = (choices: Record<string, 'local' | 'incoming'>) => {
+      const merge = pendingMerge;
+      if (!merge) return;
+      const incoming = merge.incoming.content;
+      const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+      const merged = applyProjectMerge(papers, merge, choices);
+      commitEdit(`Merge project "${merge.incoming.projectName}"`, { papers: merged, lockedItems: union(lockedItems, incoming.lockedItems), suggestions: null });
+      setRejectedSuggestions(prev => union(prev, incoming.rejectedSuggestions));
+      setDistinctPairKeys(prev => union(prev, incoming.distinctPairKeys));
+      setTaxonomySnapshots(prev => [...prev, ...incoming.taxonomySnapshots.filter(snap => !prev.some(s => s.id === snap.id))]);
+      registerImportedModels(merge.incoming.content.customModels);
+      const duplicates = findDuplicatePairs(merged, union(distinctPairKeys, incoming.distinctPairKeys));
+      setDuplicatePairs(duplicates.length > 0 ? duplicates : null);
+      const taken = Object.values(choices).filter(c => c === 'incoming').length;
+      setNotice(`✅ Merged "${merge.incoming.projectName}": ${merge.added.length} papers added, ${merge.matched.length} matched, ${taken} of ${merge.conflicts.length} conflicts resolved with their value.`);
+      setPendingMerge(null);
+  };
+
   const uniqueCategories = Array.from(new Set(papers.map(p => p.category))).sort();
+  const currentSubTaxonomy = buildSubTaxonomy(papers);
+  const codebookProposals = codebook?.mode === 'seeded' ? findCodebookProposals(papers, codebook) : [];
+  const staleSuggestionReasons: Record<string, string> = {};
+  (consolidationSuggestions || []).forEach(s => {
+    const reason = s.id === 'ok' ? null : findStaleReason(s, papers, lockedItems);
+    if (reason) staleSuggestionReasons[s.id] = reason;
+  });
+  // Checked against the log as it is now, so accepting or undoing a change updates the flags
+  const suggestionFlipFlops: Record<string, FlipFlop> = {};
+  (consolidationSuggestions || []).forEach(s => {
+    const flipFlop = s.id === 'ok' ? null : detectFlipFlop(s, acceptedSuggestions);
+    if (flipFlop) suggestionFlipFlops[s.id] = flipFlop;
+  });
+  // Pickers and "Suggest best fit" also offer codebook sections that no paper uses yet
+  const currentTaxonomy: Taxonomy = codebook ? codebookTaxonomy(codebook) : {};
+  papers.forEach(p => {
+    if (!currentTaxonomy[p.category]) currentTaxonomy[p.category] = [];
+    if (!currentTaxonomy[p.category].includes(p.theme)) currentTaxonomy[p.category].push(p.theme);
+  });
 
   const renderListView = () => {
     
     // Check if we should show the hint (only if NO suggestions are pending)
     const showConsolidationHint = papers.length > 0 && (!consolidationSuggestions || consolidationSuggestions.length === 0) && !isConsolidating;
 
+    // One paper card; the same card is used directly under a sub-theme and inside its sub-sub-themes
+    const renderPaperCard = (paper: Paper) => {
+      const isSelected = selectedPaperIds.includes(paper.id);
+      const placement = placements[paper.id];
+      const placementMoves = placement && (placement.main_category !== paper.category || placement.sub_theme !== paper.theme);
+      return (
+        <div key={paper.id} draggable={!isExtractionRunning} onDragStart={(e) => handlePaperDragStart(e, paper)} onDragEnd={() => setDraggedItem(null)}
+             className={`p-3 rounded border text-xs ${isExtractionRunning ? '' : 'cursor-grab'} ${isSelected ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-100'}`}
+             style={{ opacity: draggedItem?.type === 'paper' && draggedItem.paperIds?.includes(paper.id) ? 0.5 : 1 }}>
+          <div className="flex items-start gap-2 mb-1">
+            <input type="checkbox" checked={isSelected} onChange={() => togglePaperSelection(paper.id)} className="mt-0.5 rounded text-blue-600" title="Select to move several papers at once" />
+            <button onClick={() => setOpenPaperId(openPaperId === paper.id ? null : paper.id)} className="font-bold text-slate-800 text-left hover:text-blue-700 flex-1">{paper.title}</button>
+          </div>
+          <div className="flex gap-2 mb-1 flex-wrap">
+            <span className="bg-blue-50 text-blue-700 px-1 rounded border border-blue-100 text-[10px]">D: {paper.driver}</span>
+            <span className="bg-purple-50 text-purple-700 px-1 rounded border border-purple-100 text-[10px]">R: {paper.response}</span>
+            <span className="bg-slate-100 text-slate-600 px-1 rounded border border-slate-200 text-[10px] flex items-center gap-1"><Globe className="h-2 w-2"/> {paper.location}</span>
+          </div>
+          <p className="text-slate-600 mb-1">{paper.abstractSnippet}</p>
+          {placement && (
+            <div className={`mt-1 p-2 rounded border flex items-center gap-2 ${placementMoves ? 'bg-purple-50 border-purple-100 text-purple-800' : 'bg-green-50 border-green-100 text-green-800'}`}>
+              <Sparkles className="h-3 w-3 shrink-0" />
+              <span className="flex-1">{placementMoves ? <>Best fit: <b>{placement.main_category} › {placement.sub_theme}</b></> : 'Already in the best-fitting sub-theme.'} <i className="opacity-75">{placement.reason}</i></span>
+              {placementMoves && <button onClick={() => handleApplyPlacements([paper.id])} disabled={isExtractionRunning} className="px-2 py-0.5 bg-purple-600 text-white rounded font-bold hover:bg-purple-700 disabled:opacity-50">Move</button>}
+              <button onClick={() => setPlacements(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== paper.id)))} className="text-slate-400 hover:text-slate-600"><X className="h-3 w-3" /></button>
+            </div>
+          )}
+          {openPaperId === paper.id && (
+            <div className="mt-2 pt-2 border-t border-slate-200 space-y-1 text-slate-600">
+              <p><b>Citation:</b> {paper.shortCitation || `${paper.authors} (${paper.year})`}{paper.journal && `, ${paper.journal}`}{paper.doi && ` · doi:${paper.doi}`}</p>
+              <p><b>Key finding:</b> {paper.keyFinding} <span className="text-slate-400">({paper.effectDirection})</span></p>
+              {paper.species && paper.species !== 'Unspecified' && <p><b>Species:</b> {paper.species}</p>}
+              <p><b>Section:</b> {paper.category} › {paper.theme}{paper.subSubTheme && ` › ${paper.subSubTheme}`}</p>
+              <div className="flex items-center gap-2 pt-1">
+                <SectionPicker taxonomy={currentTaxonomy} subTaxonomy={currentSubTaxonomy} onPick={(category, theme, sub) => movePapers([paper.id], category, theme, sub)} disabled={isExtractionRunning} />
+                <button onClick={() => handleSuggestPlacement([paper.id])} disabled={!apiKey || isPlacingPapers || isExtractionRunning} className="px-2 py-1 bg-purple-100 text-purple-700 rounded font-bold hover:bg-purple-200 disabled:opacity-50 flex items-center gap-1" title={!apiKey ? "API Key required." : isExtractionRunning ? "Wait for the extraction run to finish." : "Ask the AI for the best-fitting existing sub-theme"}>{isPlacingPapers ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />} Suggest best fit</button>
+              </div>
+            </div>
+          )}
+        </div>
+      );
+    };
+
+    // A collapsible sub-sub-theme group inside an expanded sub-theme
+    const renderSubSubTheme = (cat: string, theme: string, sub: string, subPapers: Paper[]) => {
+      const key = `${cat}-${theme}-${sub}`;
+      const targetId = `sub:${cat}|||${theme}|||${sub}`;
+      return (
+        <div key={sub} className="rounded border border-slate-100"
+             draggable
+             onDragStart={(e) => { e.stopPropagation(); handleDragStart(e, { type: 'sub', name: sub, parentCat: cat, parentTheme: theme }); }}
+             onDragOver={(e) => handleDragOver(e, targetId)}
+             onDrop={(e) => handleDrop(e, { type: 'sub', name: sub, parentCat: cat, parentTheme: theme })}
+             style={{ opacity: draggedItem?.type === 'sub' && draggedItem.name === sub && draggedItem.parentTheme === theme && draggedItem.parentCat === cat ? 0.5 : 1, border: dragOverTarget === targetId ? '2px solid #3b82f6' : '' }}
+             onDragLeave={handleDragLeave}
+        >
+          <div className="flex justify-between items-center px-2 py-1 bg-slate-50/60 hover:bg-slate-50">
+            <div onClick={() => setExpandedThemes(p => ({...p, [key]: !p[key]}))} className="flex items-center gap-2 cursor-pointer flex-1">
+              <GripVertical className="h-3 w-3 text-slate-300 cursor-grab" />
+              <ChevronRight className={`h-3 w-3 text-slate-400 transition-transform ${expandedThemes[key] ? 'rotate-90' : ''}`} />
+              {editingItem && editingItem.id === targetId ? (
+                <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
+                  <input
+                    autoFocus
+                    className="text-xs font-medium text-slate-700 border border-blue-300 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                    value={editingItem.value}
+                    onChange={(e) => setEditingItem({...editingItem, value: e.target.value})}
+                    onKeyDown={(e) => { if(e.key === 'Enter') saveEditing(); }}
+                    onBlur={saveEditing}
+                  />
+                  <button onClick={saveEditing} className="p-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200"><Check className="h-3 w-3"/></button>
+                </div>
+              ) : (
+                <span className="text-xs font-medium text-slate-600 group flex items-center gap-2">
+                  {sub}
+                  <button onClick={(e) => { e.stopPropagation(); startEditing('sub', sub, cat, theme); }} className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-blue-500 transition-opacity p-1"><Edit2 className="h-3 w-3"/></button>
+                </span>
+              )}
+              <span className="text-[10px] bg-slate-200 px-1.5 rounded-full">{subPapers.length}</span>
+            </div>
+            <button onClick={() => handleDissolveSubSubThemes({ cat, theme, sub })} className="text-slate-400 hover:bg-slate-200 p-1 rounded" title="Dissolve into the sub-theme"><X className="h-3 w-3" /></button>
+            <button onClick={() => handleSynthesizeSection(cat, theme, 'use', sub)} className="text-yellow-600 hover:bg-yellow-100 p-1 rounded" title="Synthesize Sub-Sub-Theme"><Zap className="h-3 w-3" /></button>
+          </div>
+          {expandedThemes[key] && <div className="p-2 space-y-2">{subPapers.map(renderPaperCard)}</div>}
+        </div>
+      );
+    };
+
     let consolidationHintMessage = "";
     let consolidationHintTitle = "";
     let consolidationHintIcon = <Layers className='h-5 w-5' />;
@@ -2430,13 +6927,40 @@ const App = () => {
     
     return (
       <>
-        {retryStatus && isBulkSynthesizing && (
+        {isBulkSynthesizing && (
             <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 p-3 rounded border border-amber-100 font-medium mb-4">
               <Loader2 className="h-4 w-4 animate-spin" />
-              {retryStatus}
+              {retryStatus || "Bulk synthesis running..."}
+              <button onClick={handleStopBulkSynthesis} className="ml-auto flex items-center gap-1 px-2 py-1 text-xs font-bold text-red-600 bg-white border border-red-200 rounded hover:bg-red-50"><X className="h-3 w-3" /> Stop</button>
             </div>
         )}
 
+        {coverageReport && (
+            <CoverageReportPanel
+              report={coverageReport}
+              isProcessing={isProcessing}
+              onRerunMissing={handleRerunMissing}
+              onRemovePaper={handleRemoveUnmatchedPaper}
+              onKeepPaper={handleKeepUnmatchedPaper}
+              onClose={() => setCoverageReport(null)}
+            />
+        )}
+
+        {validationReports.length > 0 && (
+            <ValidationSummaryPanel reports={validationReports} onClose={() => setValidationReports([])} />
+        )}
+
+        {duplicatePairs && (
+            <DuplicateReviewPanel
+              pairs={duplicatePairs}
+              papers={papers}
+              onMerge={handleMergeDuplicate}
+              onMarkDistinct={handleMarkDistinct}
+              onMergeAll={handleMergeAllDuplicates}
+              onClose={() => setDuplicatePairs(null)}
+            />
+        )}
+
         {/* Theme Consolidation Explanation and Suggestions Area */}
         {showConsolidationHint && (
             <div className="p-4 rounded-lg shadow-md border bg-blue-50 border-blue-200 mb-4">
@@ -2463,14 +6987,59 @@ const App = () => {
 
         {consolidationSuggestions && consolidationSuggestions.length > 0 && (
           <div className={`p-4 rounded-lg shadow-md border mb-4 ${consolidationSuggestions[0].main_category === 'Success' ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
-            <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-slate-800"><Layers className='h-4 w-4' /> Structuring Suggestions</h3>
+            <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-slate-800"><Layers className='h-4 w-4' /> Structuring Suggestions {consolidationSuggestions[0].round !== undefined && <span className="text-xs font-normal text-slate-500">· Round {consolidationSuggestions[0].round}</span>}</h3>
+            {(() => {
+                const flipFlops = consolidationSuggestions.filter(s => suggestionFlipFlops[s.id]).length;
+                if (flipFlops === 0) return null;
+                const converged = flipFlops === consolidationSuggestions.length;
+                return (
+                  <div className={`mb-3 p-2 rounded border text-xs flex items-center gap-2 ${converged ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                    <RotateCcw className="h-4 w-4 shrink-0" />
+                    <span className="flex-1">{converged
+                      ? <>The taxonomy has converged: every suggestion in this round would undo a change you accepted earlier.</>
+                      : <>{flipFlops} of {consolidationSuggestions.length} suggestions would undo changes you accepted earlier.</>}</span>
+                    <button onClick={() => handleLockFlipFlops()} className="px-2 py-1 bg-white border border-current rounded font-bold hover:bg-slate-50 flex items-center gap-1 shrink-0"><Lock className="h-3 w-3" /> Lock involved sections{converged ? ' & finish' : ''}</button>
+                  </div>
+                );
+            })()}
+            {consolidationSuggestions[0].id !== 'ok' && (() => {
+                const selectable = consolidationSuggestions.filter(s => !staleSuggestionReasons[s.id]).map(s => s.id);
+                const selected = selectedSuggestionIds.filter(id => consolidationSuggestions.some(s => s.id === id));
+                const staleCount = Object.keys(staleSuggestionReasons).length;
+                return (
+                  <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                    <label className="flex items-center gap-1 text-slate-600 cursor-pointer">
+                      <input type="checkbox" checked={selectable.length > 0 && selectable.every(id => selected.includes(id))} onChange={(e) => setSelectedSuggestionIds(e.target.checked ? selectable : [])} className="rounded text-green-600" />
+                      Select all
+                    </label>
+                    <button onClick={() => setShowSuggestionPreview(true)} disabled={selected.length === 0} className="px-2 py-1 bg-white border border-slate-300 text-slate-700 rounded font-bold hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"><Search className="h-3 w-3" /> Preview outline</button>
+                    <button onClick={handleAcceptSelected} disabled={selected.length === 0} className="px-2 py-1 bg-green-100 text-green-700 rounded font-bold hover:bg-green-200 disabled:opacity-50 flex items-center gap-1"><Check className="h-3 w-3" /> Accept selected ({selected.length})</button>
+                    <button onClick={handleRejectSelected} disabled={selected.length === 0} className="px-2 py-1 bg-red-100 text-red-700 rounded font-bold hover:bg-red-200 disabled:opacity-50 flex items-center gap-1"><X className="h-3 w-3" /> Reject selected</button>
+                    {staleCount > 0 && <button onClick={handleDismissStale} className="ml-auto px-2 py-1 text-slate-500 rounded hover:bg-slate-100" title="Remove stale suggestions without rejecting them">Dismiss {staleCount} stale</button>}
+                  </div>
+                );
+            })()}
             <div className="text-sm text-slate-700 font-medium space-y-4">
                 {consolidationSuggestions[0].id === 'ok' ? (
                     <p className="text-green-700">No significant structural changes needed.</p>
                 ) : (
                     consolidationSuggestions.map((s) => (
-                        <div key={s.id} className="bg-white p-3 rounded border border-slate-200 shadow-sm flex flex-col gap-2">
+                        <div key={s.id} className={`bg-white p-3 rounded border shadow-sm flex flex-col gap-2 ${suggestionFlipFlops[s.id] ? 'border-red-300' : 'border-slate-200'} ${staleSuggestionReasons[s.id] ? 'opacity-60' : ''}`}>
+                            {staleSuggestionReasons[s.id] && (
+                                <p className="text-xs bg-slate-100 text-slate-600 rounded p-2 flex items-center gap-1"><AlertCircle className="h-3 w-3 shrink-0" /> Stale: {staleSuggestionReasons[s.id]}.</p>
+                            )}
+                            {suggestionFlipFlops[s.id] && (
+                                <div className="text-xs bg-red-50 border border-red-100 text-red-700 rounded p-2 flex items-start gap-2">
+                                    <RotateCcw className="h-3 w-3 mt-0.5 shrink-0" />
+                                    <div className="flex-1">
+                                        <p className="font-bold">{suggestionFlipFlops[s.id].kind === 'reversal' ? 'Undoes an earlier change' : 'Closes a cycle of earlier changes'}: {suggestionFlipFlops[s.id].items.map(lockKeyLabel).join(' → ')} → {lockKeyLabel(suggestionFlipFlops[s.id].items[0])}</p>
+                                        <ul className="mt-0.5 text-red-600">{suggestionFlipFlops[s.id].earlier.map((e, i) => <li key={i}>{e.round > 0 ? `Round ${e.round}` : 'Audit'}: {e.signature}</li>)}</ul>
+                                    </div>
+                                    <button onClick={() => handleLockFlipFlops([s.id])} className="px-2 py-0.5 bg-white border border-red-200 rounded font-bold hover:bg-red-100 flex items-center gap-1 shrink-0" title="Lock the sections involved and reject this suggestion"><Lock className="h-3 w-3" /> Lock & reject</button>
+                                </div>
+                            )}
                             <div className="flex justify-between items-start">
+                                <input type="checkbox" checked={selectedSuggestionIds.includes(s.id)} onChange={() => toggleSuggestionSelection(s.id)} disabled={!!staleSuggestionReasons[s.id]} className="mt-1 mr-2 rounded text-green-600" title="Select for batch accept/reject" />
                                 <div className="flex-1">
                                     {s.suggested_merge && (
                                         <>
@@ -2495,6 +7064,39 @@ const App = () => {
                                             <p className="text-xs text-slate-500 mt-1 italic">"{s.suggested_category_merge.reason}"</p>
                                         </>
                                     )}
+                                    {s.suggested_audit_fix && (() => {
+                                        const fix = s.suggested_audit_fix;
+                                        const affected = papers.filter(p => p.category === fix.original_category && p.theme === fix.original_theme).length;
+                                        return (
+                                          <>
+                                            <p className="font-bold text-orange-700 flex items-center gap-1"><ShieldCheck className="h-3 w-3"/> AUDIT FIX <span className="bg-orange-100 text-orange-700 text-[10px] px-1.5 py-0.5 rounded ml-2">{affected} {affected === 1 ? 'paper' : 'papers'}</span></p>
+                                            <p className="text-xs text-slate-500">{fix.original_category} › {fix.original_theme}</p>
+                                            <p className="text-slate-800"><ArrowRight className="h-3 w-3 inline mr-1 text-slate-400"/> <strong>{fix.new_category} › {fix.new_theme}</strong></p>
+                                            <p className="text-xs text-slate-500 mt-1 italic">"{fix.reason}"</p>
+                                          </>
+                                        );
+                                    })()}
+                                    {s.suggested_split && (() => {
+                                        const split = s.suggested_split;
+                                        const splitIds = new Set(split.new_themes.flatMap(g => g.paper_ids));
+                                        const staying = papers.filter(p => p.category === s.main_category && p.theme === split.theme && !splitIds.has(p.id)).length;
+                                        return (
+                                          <>
+                                            <p className="font-bold text-teal-700 flex items-center gap-1"><Scissors className="h-3 w-3"/> SPLIT SUB-SECTION</p>
+                                            <p className="text-xs text-slate-500 mb-1">In {s.main_category}: <strong className="text-slate-800">{split.theme}</strong> into {split.new_themes.length}</p>
+                                            <div className="space-y-1">
+                                              {split.new_themes.map(g => (
+                                                <details key={g.name} className="text-xs border border-slate-100 rounded p-1">
+                                                  <summary className="cursor-pointer text-slate-800"><ArrowRight className="h-3 w-3 inline mr-1 text-slate-400"/><strong>{g.name}</strong> <span className="text-slate-500">({g.paper_ids.length} {g.paper_ids.length === 1 ? 'paper' : 'papers'})</span></summary>
+                                                  <ul className="pl-4 mt-1 list-disc text-slate-500">{g.paper_ids.map(id => <li key={id}>{papers.find(p => p.id === id)?.title || id}</li>)}</ul>
+                                                </details>
+                                              ))}
+                                            </div>
+                                            {staying > 0 && <p className="text-xs text-slate-500 mt-1">{staying} {staying === 1 ? 'paper stays' : 'papers stay'} in {split.theme}.</p>}
+                                            <p className="text-xs text-slate-500 mt-1 italic">"{split.reason}"</p>
+                                          </>
+                                        );
+                                    })()}
                                     {s.suggested_rename && (
                                         <>
                                             <p className="font-bold text-emerald-700 flex items-center gap-1"><RefreshCw className="h-3 w-3"/> RENAME SECTION</p>
@@ -2528,7 +7130,7 @@ const App = () => {
                                         </button>
                                     )}
 
-                                    <button onClick={() => handleAcceptSuggestion(s.id)} className="p-2 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors" title="Accept Suggestion"><Check className="h-4 w-4"/></button>
+                                    <button onClick={() => handleAcceptSuggestion(s.id)} disabled={!!staleSuggestionReasons[s.id]} className="p-2 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors disabled:opacity-50" title={staleSuggestionReasons[s.id] ? `Stale: ${staleSuggestionReasons[s.id]}` : "Accept Suggestion"}><Check className="h-4 w-4"/></button>
                                     <button onClick={() => handleRejectSuggestion(s.id)} className="p-2 bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors" title="Reject (Don't ask again)"><X className="h-4 w-4"/></button>
                                 </div>
                             </div>
@@ -2538,6 +7140,30 @@ const App = () => {
             </div>
           </div>
         )}
+        {codebookProposals.length > 0 && (
+          <div className="mb-3 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-xs">
+            <p className="font-bold text-emerald-800 flex items-center gap-1 mb-2"><BookCheck className="h-4 w-4" /> Proposed additions to the codebook ({codebookProposals.length})</p>
+            <ul className="space-y-1">
+              {codebookProposals.map(proposal => (
+                <li key={`${proposal.category}|||${proposal.theme}`} className="flex items-center gap-2 bg-white border border-emerald-100 rounded p-2">
+                  <span className="flex-1"><b>{proposal.category} › {proposal.theme}</b> <span className="text-slate-500">({proposal.paperIds.length} {proposal.paperIds.length === 1 ? 'paper' : 'papers'}: {papers.filter(p => proposal.paperIds.includes(p.id)).slice(0, 2).map(p => p.title).join('; ')}{proposal.paperIds.length > 2 ? '…' : ''})</span></span>
+                  <button onClick={() => handleApproveProposal(proposal)} className="px-2 py-0.5 bg-green-100 text-green-700 rounded font-bold hover:bg-green-200 flex items-center gap-1"><Check className="h-3 w-3" /> Approve</button>
+                  <button onClick={() => handleRejectProposal(proposal)} className="px-2 py-0.5 bg-red-100 text-red-700 rounded font-bold hover:bg-red-200 flex items-center gap-1" title={`Move its papers to "${CODEBOOK_OTHER}"`}><X className="h-3 w-3" /> Reject</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {selectedPaperIds.length > 0 && (
+          <div className="sticky top-0 z-10 mb-3 p-2 bg-blue-50 border border-blue-200 rounded-lg shadow-sm flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-bold text-blue-800">{selectedPaperIds.length} {selectedPaperIds.length === 1 ? 'paper' : 'papers'} selected</span>
+            <span className="text-blue-600">{isExtractionRunning ? 'Papers can be moved again once the extraction run finishes.' : 'Drag one of them onto a sub-theme, or'}</span>
+            <SectionPicker taxonomy={currentTaxonomy} subTaxonomy={currentSubTaxonomy} onPick={(category, theme, sub) => movePapers(selectedPaperIds, category, theme, sub)} disabled={isExtractionRunning} />
+            <button onClick={() => handleSuggestPlacement(selectedPaperIds)} disabled={!apiKey || isPlacingPapers || isExtractionRunning} className="px-2 py-1 bg-purple-100 text-purple-700 rounded font-bold hover:bg-purple-200 disabled:opacity-50 flex items-center gap-1" title={!apiKey ? "API Key required." : isExtractionRunning ? "Wait for the extraction run to finish." : "Ask the AI for the best-fitting existing sub-theme"}>{isPlacingPapers ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />} Suggest best fit</button>
+            {selectedPaperIds.some(id => placements[id]) && <button onClick={() => handleApplyPlacements(selectedPaperIds)} disabled={isExtractionRunning} className="px-2 py-1 bg-green-100 text-green-700 rounded font-bold hover:bg-green-200 disabled:opacity-50 flex items-center gap-1"><Check className="h-3 w-3" /> Apply AI suggestions</button>}
+            <button onClick={() => setSelectedPaperIds([])} className="ml-auto text-blue-500 hover:text-blue-800">Clear selection</button>
+          </div>
+        )}
         {uniqueCategories.map(cat => {
             const catPapers = papers.filter(p => p.category === cat);
             const themes = Array.from(new Set(catPapers.map(p => p.theme))).sort();
@@ -2588,6 +7214,7 @@ const App = () => {
                 </div>
                 {expandedCategories[cat] && themes.map(theme => {
                     const themePapers = catPapers.filter(p => p.theme === theme);
+                    const subSubThemes = (currentSubTaxonomy[`${cat} ||| ${theme}`] || []).slice().sort();
                     const key = `${cat}-${theme}`;
                     const isThemeLocked = lockedItems.includes(`theme:${cat}|||${theme}`);
 
@@ -2632,17 +7259,8 @@ const App = () => {
                         </div>
                         {expandedThemes[key] && (
                           <div className="pl-12 pr-4 py-2 space-y-2">
-                              {themePapers.map(paper => (
-                                <div key={paper.id} className="p-3 bg-slate-50 rounded border border-slate-100 text-xs">
-                                  <div className="font-bold text-slate-800 mb-1">{paper.title}</div>
-                                  <div className="flex gap-2 mb-1 flex-wrap">
-                                    <span className="bg-blue-50 text-blue-700 px-1 rounded border border-blue-100 text-[10px]">D: {paper.driver}</span>
-                                    <span className="bg-purple-50 text-purple-700 px-1 rounded border border-purple-100 text-[10px]">R: {paper.response}</span>
-                                    <span className="bg-slate-100 text-slate-600 px-1 rounded border border-slate-200 text-[10px] flex items-center gap-1"><Globe className="h-2 w-2"/> {paper.location}</span>
-                                  </div>
-                                  <p className="text-slate-600 mb-1">{paper.abstractSnippet}</p>
-                                </div>
-                              ))}
+                              {themePapers.filter(p => !p.subSubTheme).map(renderPaperCard)}
+                              {subSubThemes.map(sub => renderSubSubTheme(cat, theme, sub, themePapers.filter(p => p.subSubTheme === sub)))}
                           </div>
                         )}
                       </div>
@@ -2657,15 +7275,47 @@ const App = () => {
 
   return (
     <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      {showSuggestionPreview && consolidationSuggestions && (
+        <SuggestionSetPreviewModal papers={papers} preview={applySuggestionSet(papers, consolidationSuggestions, selectedSuggestionIds, lockedItems)} onApply={() => { handleAcceptSelected(); setShowSuggestionPreview(false); }} onClose={() => setShowSuggestionPreview(false)} />
+      )}
+      {showCodebook && <CodebookModal isOpen onClose={() => setShowCodebook(false)} codebook={codebook} onSave={(next) => commitEdit(next ? 'Update codebook' : 'Remove codebook', { codebook: next })} />}
+      <TaxonomySnapshotsModal isOpen={showSnapshots} onClose={() => setShowSnapshots(false)} snapshots={taxonomySnapshots} papers={papers} onSave={handleSaveSnapshot} onRestore={handleRestoreSnapshot} onDelete={(id) => setTaxonomySnapshots(prev => prev.filter(s => s.id !== id))} />
+      <ProjectManagerModal
+        isOpen={showProjectManager}
+        onClose={() => setShowProjectManager(false)}
+        index={projectIndex}
+        isBusy={isWorkspaceBusy}
+        onOpen={(id) => { handleOpenProject(id); setShowProjectManager(false); }}
+        onCreate={(name) => { handleCreateProject(name); setShowProjectManager(false); }}
+        onRename={(id, name) => updateProjectMeta(id, { name })}
+        onDuplicate={handleDuplicateProject}
+        onSetArchived={(id, archived) => updateProjectMeta(id, { archived })}
+        onDelete={handleDeleteProject}
+      />
+      <ProjectImportModal imported={pendingProjectImport} isBusy={isWorkspaceBusy} onReplace={() => handleLoadProjectImport('replace')} onImportAsNew={() => handleLoadProjectImport('new')} onMerge={handleStartMerge} onCancel={() => setPendingProjectImport(null)} />
+      <ProjectMergeModal key={pendingMerge?.id} merge={pendingMerge} onApply={handleApplyMerge} onCancel={() => setPendingMerge(null)} />
+      <RestoreSessionModal session={sessionStatus === 'prompt' ? savedSession : null} onRestore={handleRestoreSession} onDiscard={handleDiscardSession} />
       <QuotaModal isOpen={quotaErrorOpen} onClose={() => setQuotaErrorOpen(false)} exportFn={exportStateJSON} />
+      <ImportPreviewModal preview={pendingImport} onConfirm={() => { setImportedRecords(pendingImport); setNotice(`Imported ${pendingImport?.records.length} records from ${pendingImport?.fileName}.`); setPendingImport(null); }} onCancel={() => setPendingImport(null)} />
       <ManualFixModal isOpen={!!manualFixState} text={manualFixState?.text || ''} onSave={handleManualFixSave} onCancel={() => { setManualFixState(null); setIsProcessing(false); }} />
-      <SynthesisModal isOpen={synthesisModalOpen} onClose={() => setSynthesisModalOpen(false)} themeKey={synthesisThemeKey} isSynthesizing={isSynthesizing} retryStatus={retryStatus} result={synthesisResult} />
+      <SynthesisModal isOpen={synthesisModalOpen} onClose={handleCloseSynthesis} themeKey={synthesisThemeKey} isSynthesizing={isSynthesizing} retryStatus={retryStatus} result={synthesisResult} onRegenerate={handleRegenerateSynthesis} />
+      <RunEstimateModal estimate={pendingRun?.estimate || null} onConfirm={() => { pendingRun?.start(); setPendingRun(null); }} onCancel={() => setPendingRun(null)} />
       {/* --- ADDED: Bulk Synthesis Modal --- */}
       <BulkSynthesisModal isOpen={bulkModalOpen} onClose={() => setBulkModalOpen(false)} results={bulkResults} type={bulkType} />
       
       <header className="bg-emerald-900 text-white p-4 shadow-md flex justify-between items-center z-10">
         <div className="flex items-center gap-3"><BookOpen className="h-6 w-6 text-emerald-300" /><div><h1 className="text-xl font-bold tracking-tight">EcoSynthesisAI</h1><p className="text-xs text-emerald-300 opacity-80">Systematic Review Tool</p></div></div>
-        <button onClick={() => setShowSettings(!showSettings)} className="p-2 hover:bg-emerald-800 rounded-full"><Settings className="h-5 w-5" /></button>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 bg-emerald-800 rounded px-2 py-1">
+            <FolderOpen className="h-4 w-4 text-emerald-300 shrink-0" />
+            <select value={activeProjectId} onChange={e => handleOpenProject(e.target.value)} disabled={isWorkspaceBusy || sessionStatus !== 'ready'} className="bg-transparent text-sm font-medium text-white max-w-[200px] outline-none disabled:opacity-60" title={isWorkspaceBusy ? "Projects cannot be switched while a run is in progress" : "Switch project"}>
+              {projectIndex.projects.filter(p => !p.archived || p.id === activeProjectId).map(p => <option key={p.id} value={p.id} className="text-slate-900">{p.name}</option>)}
+            </select>
+            <button onClick={() => setShowProjectManager(true)} className="p-1 hover:bg-emerald-700 rounded text-emerald-200 text-xs font-bold" title="Manage projects">Manage</button>
+          </div>
+          {lastAutosave && <span className="text-[10px] text-emerald-300 opacity-80 flex items-center gap-1" title="Your workspace is saved in this browser after every change"><Check className="h-3 w-3" /> Autosaved {new Date(lastAutosave).toLocaleTimeString()}</span>}
+          <button onClick={() => setShowSettings(!showSettings)} className="p-2 hover:bg-emerald-800 rounded-full"><Settings className="h-5 w-5" /></button>
+        </div>
       </header>
 
       <div className="flex flex-1 overflow-hidden flex-col md:flex-row">
@@ -2674,24 +7324,29 @@ const App = () => {
 
            {showSettings && (
             <div className="mb-4 p-4 bg-slate-100 rounded-lg border border-slate-200 animate-in fade-in slide-in-from-top-2 space-y-4">
-              <div><label className="block text-xs font-bold text-slate-500 uppercase">API Key</label><input type="password" value={apiKey} onChange={e=>setApiKey(e.target.value)} placeholder="Paste Google AI Studio Key..." className="w-full p-2 text-sm border rounded" /></div>
+              <div><label className="block text-xs font-bold text-slate-500 uppercase">API Key</label><input type="password" value={googleApiKey} onChange={e=>setGoogleApiKey(e.target.value)} placeholder="Paste Google AI Studio Key..." className="w-full p-2 text-sm border rounded" />{activeModel.backend !== 'gemini' && <p className="text-[10px] text-slate-400 mt-1">Only used for Gemini/Gemma. Custom models use the key saved with them.</p>}</div>
               <div><label className="block text-xs font-bold text-slate-500 uppercase">Topic</label><textarea value={reviewTopic} onChange={e=>setReviewTopic(e.target.value)} placeholder="e.g. Urbanization effects on birds" rows={2} className="w-full p-2 text-sm border rounded resize-none" /></div>
               
               <div>
                 <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">AI Model Selection</label>
                 <select value={selectedModel} onChange={(e) => { setSelectedModel(e.target.value); }} className="w-full p-2 text-sm border border-slate-300 rounded mb-2 bg-white">
-                  {MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  {allModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                 </select>
                 
                 {/* BLUE INFO BOX RESTORED */}
                 <div className="mt-2 bg-blue-50 p-2 rounded border border-blue-100">
                   <p className="text-xs text-blue-800 font-medium flex items-center gap-1">
-                    <Cpu className="h-3 w-3" /> {MODELS.find(m => m.id === selectedModel)?.name}
+                    <Cpu className="h-3 w-3" /> {activeModel.name}
+                    {activeModel.type === 'custom' && <button onClick={() => handleRemoveCustomModel(activeModel.id)} className="ml-auto text-blue-400 hover:text-red-600" title="Remove this custom model"><Trash2 className="h-3 w-3" /></button>}
                   </p>
                   <p className="text-[10px] text-blue-600 mt-1">
-                    {MODELS.find(m => m.id === selectedModel)?.desc}
+                    {activeModel.desc}
                   </p>
                 </div>
+
+                {showCustomModelForm
+                  ? <CustomModelForm onAdd={handleAddCustomModel} onCancel={() => setShowCustomModelForm(false)} />
+                  : <button onClick={() => setShowCustomModelForm(true)} className="mt-2 text-xs text-blue-600 hover:underline flex items-center gap-1"><Plus className="h-3 w-3" /> Add custom model (OpenAI-compatible / Ollama)</button>}
               </div>
               
               <div>
@@ -2699,6 +7354,41 @@ const App = () => {
                       <input type="checkbox" checked={!enableSpecies} onChange={() => setEnableSpecies(!enableSpecies)} className="rounded text-emerald-600 focus:ring-emerald-500" />
                       <span className="text-xs font-medium text-slate-600">My field does not examine species</span>
                   </label>
+                  <label className="flex items-center gap-2 cursor-pointer mt-2" title="After extraction, list the audit's fixes under Structuring Suggestions instead of applying them">
+                      <input type="checkbox" checked={reviewAuditFixes} onChange={() => setReviewAuditFixes(!reviewAuditFixes)} className="rounded text-emerald-600 focus:ring-emerald-500" />
+                      <span className="text-xs font-medium text-slate-600">Review audit fixes before applying them</span>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer mt-2" title="Let extraction sort papers into sub-sub-themes inside a sub-theme when it has clear sub-groups">
+                      <input type="checkbox" checked={useThirdLevel} onChange={() => setUseThirdLevel(!useThirdLevel)} className="rounded text-emerald-600 focus:ring-emerald-500" />
+                      <span className="text-xs font-medium text-slate-600">Use a third taxonomy level (sub-sub-themes)</span>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer mt-2" title="Send every batch and the final audit to the AI again, even if a cached reply exists for the same prompt">
+                      <input type="checkbox" checked={bypassCacheForRun} onChange={() => setBypassCacheForRun(!bypassCacheForRun)} className="rounded text-emerald-600 focus:ring-emerald-500" />
+                      <span className="text-xs font-medium text-slate-600">Ignore cached replies for this run</span>
+                  </label>
+                  {papers.some(p => p.subSubTheme) && (
+                      <button onClick={() => handleDissolveSubSubThemes()} className="mt-1 ml-6 text-xs text-blue-600 hover:underline">Collapse to two levels</button>
+                  )}
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Codebook</label>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-slate-600">{codebook ? `${codebook.entries.length} sub-themes · ${codebook.mode === 'strict' ? 'Strict' : 'Seeded'}` : 'None: the taxonomy emerges from the papers'}</span>
+                  <button onClick={() => setShowCodebook(true)} disabled={isProcessing} className="px-2 py-1 text-xs bg-slate-200 text-slate-700 rounded hover:bg-slate-300 disabled:opacity-50 flex items-center gap-1"><BookCheck className="h-3 w-3" />{codebook ? 'Edit' : 'Add'}</button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Response Cache</label>
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={useResponseCache} onChange={() => setUseResponseCache(!useResponseCache)} className="rounded text-emerald-600 focus:ring-emerald-500" />
+                    <span className="text-xs font-medium text-slate-600">Reuse identical AI responses</span>
+                  </label>
+                  <button onClick={handleClearCache} disabled={!cacheStats?.count} className="px-2 py-1 text-xs bg-slate-200 text-slate-700 rounded hover:bg-slate-300 disabled:opacity-50"><Trash2 className="h-3 w-3 inline mr-1" />Clear</button>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-1">{cacheStats ? `${cacheStats.count} cached ${cacheStats.count === 1 ? 'response' : 'responses'} (${(cacheStats.bytes / 1024).toFixed(0)} KB) stored in this browser.` : 'Checking cache...'}</p>
               </div>
 
               <div className='flex gap-2 pt-2 border-t border-slate-200'>
@@ -2710,10 +7400,61 @@ const App = () => {
            )}
            
            <div className="flex items-center justify-between mb-2"><h2 className="text-lg font-semibold flex items-center gap-2"><Plus className="h-5 w-5 text-emerald-600" /> Input Data</h2>{isProcessing && <span className="text-xs font-medium text-emerald-600 animate-pulse">Batch {currentBatchIndex}/{totalBatches}</span>}</div>
-           <textarea className="flex-1 w-full p-4 border rounded-lg resize-none text-sm" placeholder="Paste raw paper text here..." value={inputText} onChange={e=>setInputText(e.target.value)} disabled={isProcessing}/>
+           <div className="flex gap-2 mb-2">
+             <button onClick={() => recordsInputRef.current?.click()} disabled={isProcessing} className="flex-1 flex justify-center items-center py-1.5 border border-slate-300 text-slate-600 rounded text-xs font-bold hover:bg-slate-100 disabled:opacity-50" title="Import a RIS, BibTeX, Web of Science (Tab-delimited) or Scopus CSV export. Metadata is read directly from the file instead of being guessed by the AI."><FileText className="h-3 w-3 inline mr-1" /> Import Reference File</button>
+             <input ref={recordsInputRef} type="file" accept=".ris,.bib,.txt,.csv" onChange={handleImportRecords} className="hidden" />
+           </div>
+           {importedRecords ? (
+             <div className="flex-1 w-full p-4 border border-blue-200 bg-blue-50 rounded-lg text-sm flex flex-col gap-2 overflow-y-auto">
+               <div className="flex justify-between items-start">
+                 <p className="font-bold text-blue-800 flex items-center gap-2"><FileText className="h-4 w-4" /> {importedRecords.records.length} records ({IMPORT_FORMAT_LABELS[importedRecords.format]})</p>
+                 <button onClick={() => setImportedRecords(null)} disabled={isProcessing} className="text-blue-400 hover:text-blue-700 disabled:opacity-50" title="Discard imported records"><X className="h-4 w-4" /></button>
+               </div>
+               <p className="text-xs text-blue-600">{importedRecords.fileName}</p>
+               <p className="text-xs text-blue-700">Titles, authors, years and journals come from the file. Only titles and abstracts are sent to the AI for classification.</p>
+             </div>
+           ) : (
+             <textarea className="flex-1 w-full p-4 border rounded-lg resize-none text-sm" placeholder="Paste raw paper text here..." value={inputText} onChange={e=>setInputText(e.target.value)} disabled={isProcessing}/>
+           )}
+           {batchPlan && !isProcessing && (
+             <div className="mt-2 text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded p-2">
+               <div className="flex justify-between items-center">
+                 <span><strong>{batchPlan.recordCount}</strong> records detected → <strong>{batchPlan.batches.length}</strong> batch{batchPlan.batches.length === 1 ? '' : 'es'} ({batchPlan.batches.map(b => b.records.length).join(' · ')} records)</span>
+                 <button onClick={() => setShowBatchPlan(v => !v)} className="text-blue-500 hover:underline ml-2 shrink-0">{showBatchPlan ? 'Hide' : 'Check'} records</button>
+               </div>
+               {showBatchPlan && (
+                 <div className="mt-2 max-h-48 overflow-y-auto space-y-2">
+                   {batchPlan.batches.map((batch, bIdx) => (
+                     <div key={bIdx}>
+                       <p className="font-bold text-slate-500 uppercase text-[10px]">Batch {bIdx + 1} · {batch.records.length} records · ~{batch.estimatedTokens.toLocaleString()} tokens</p>
+                       <ol className="list-decimal pl-5 text-[11px] text-slate-600">
+                         {batch.records.map(r => <li key={r.id} className="truncate">{r.label}</li>)}
+                       </ol>
+                     </div>
+                   ))}
+                 </div>
+               )}
+             </div>
+           )}
            <div className="mt-4 flex flex-col gap-2">
              {error && <div className="text-red-600 text-xs bg-red-50 p-2 rounded border border-red-100">{String(error)}</div>}
-             <button onClick={isProcessing ? handleStopProcessing : () => handleProcessAll()} disabled={!inputText.trim() || !apiKey} className={`py-3 rounded-lg font-bold text-white shadow-md flex items-center justify-center gap-2 ${isProcessing ? 'bg-red-500' : 'bg-emerald-600'}`}>
+             {notice && <div className="text-emerald-700 text-xs bg-emerald-50 p-2 rounded border border-emerald-100">{notice}</div>}
+             {runCheckpoint && !isProcessing && !manualFixState && (
+               <div className="text-xs text-amber-800 bg-amber-50 p-2 rounded border border-amber-200 flex items-center gap-2">
+                 <AlertCircle className="h-3 w-3 shrink-0" />
+                 <span className="flex-1">Extraction was interrupted: {runCheckpoint.nextBatch < runCheckpoint.batches.length ? `${runCheckpoint.nextBatch} of ${runCheckpoint.batches.length} batches done.` : 'the final taxonomy audit did not run.'}</span>
+                 <button onClick={handleResumeRun} disabled={!apiKey} className="px-2 py-1 bg-amber-500 text-white rounded font-bold hover:bg-amber-600 disabled:opacity-50 flex items-center gap-1"><FastForward className="h-3 w-3" /> Resume</button>
+                 <button onClick={() => setRunCheckpoint(null)} className="text-amber-500 hover:text-amber-800" title="Forget the interrupted run"><X className="h-3 w-3" /></button>
+               </div>
+             )}
+             {!isProcessing && (
+               <p className={`text-[11px] flex items-center gap-1 ${extractionEstimate && !extractionEstimate.fitsDailyLimit ? 'text-amber-700 font-medium' : 'text-slate-500'}`}>
+                 <Info className="h-3 w-3 shrink-0" />
+                 {activeModel.rpd ? `${dailyUsage} of ~${activeModel.rpd.toLocaleString()} daily requests used` : `${dailyUsage} requests sent today`} ({activeModel.name}).
+                 {extractionEstimate && <> This run needs ~{extractionEstimate.calls.length}. <button onClick={() => setPendingRun({ estimate: extractionEstimate, start: () => handleProcessAll() })} className="text-blue-500 hover:underline">Estimate</button></>}
+               </p>
+             )}
+             <button onClick={isProcessing ? handleStopProcessing : handleStartExtraction} disabled={(!inputText.trim() && !importedRecords) || !apiKey} className={`py-3 rounded-lg font-bold text-white shadow-md flex items-center justify-center gap-2 ${isProcessing ? 'bg-red-500' : 'bg-emerald-600'}`}>
                 {isProcessing ? <><Loader2 className="h-4 w-4 animate-spin"/> {retryStatus.includes("Stopping") ? "Stopping..." : retryStatus || "Processing..."}</> : (papers.length > 0 ? <><FastForward className="h-4 w-4" /> Continue Extraction</> : <><Play className="h-4 w-4" /> Start Extraction</>)}
              </button>
            </div>
@@ -2733,9 +7474,18 @@ const App = () => {
              </div>
              
              <div className='flex items-center gap-2'>
+                {/* Undo / Redo with the edit log */}
+                <div className="relative flex items-center border rounded">
+                  <button onClick={handleUndo} disabled={editHistory.undo.length === 0 || isWorkspaceBusy} title={editHistory.undo.length ? `Undo: ${editHistory.undo[editHistory.undo.length - 1].label} (Ctrl/⌘+Z)` : 'Nothing to undo'} className="p-1.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"><Undo2 className="h-3 w-3" /></button>
+                  <button onClick={handleRedo} disabled={editHistory.redo.length === 0 || isWorkspaceBusy} title={editHistory.redo.length ? `Redo: ${editHistory.redo[editHistory.redo.length - 1].label} (Ctrl/⌘+Shift+Z)` : 'Nothing to redo'} className="p-1.5 text-slate-600 hover:bg-slate-100 disabled:opacity-30"><Redo2 className="h-3 w-3" /></button>
+                  <button onClick={() => setShowEditHistory(!showEditHistory)} title="Show edit history" className={`p-1.5 border-l hover:bg-slate-100 ${showEditHistory ? 'text-emerald-700 bg-emerald-50' : 'text-slate-600'}`}><History className="h-3 w-3" /></button>
+                  {showEditHistory && <EditHistoryLog history={editHistory} onClose={() => setShowEditHistory(false)} />}
+                </div>
+                <button onClick={() => setShowSnapshots(true)} title="Save, compare and restore versions of the taxonomy" className="flex gap-1 items-center px-1.5 py-1.5 border rounded text-[10px] font-bold uppercase tracking-wide text-slate-600 hover:bg-slate-50"><Camera className="h-3 w-3" /> Snapshots{taxonomySnapshots.length > 0 && ` (${taxonomySnapshots.length})`}</button>
+
                 {/* --- UPDATED: Renamed Buttons and New Modal Logic --- */}
-                <button onClick={handleOverallSynthesisAndExport} disabled={!papers.length || isBulkSynthesizing || !apiKey} className={`flex gap-1 px-1.5 py-1.5 border rounded text-[10px] font-bold uppercase tracking-wide ${papers.length ? 'hover:bg-yellow-50 text-yellow-700 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>{isBulkSynthesizing ? <Loader2 className="h-3 w-3 animate-spin"/> : <Zap className="h-3 w-3 fill-yellow-700"/>} Synthesize Sub-Themes</button>
-                <button onClick={handleBulkMainSynthesis} disabled={!papers.length || isBulkSynthesizing || !apiKey} className={`flex gap-1 px-1.5 py-1.5 border rounded text-[10px] font-bold uppercase tracking-wide ${papers.length ? 'hover:bg-orange-50 text-orange-700 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>{isBulkSynthesizing ? <Loader2 className="h-3 w-3 animate-spin"/> : <FileText className="h-3 w-3 fill-orange-700"/>} Synthesize Main Categories</button>
+                <button onClick={() => confirmRun(getSubThemeSynthesisEstimate(), handleOverallSynthesisAndExport)} disabled={!papers.length || isBulkSynthesizing || !apiKey} className={`flex gap-1 px-1.5 py-1.5 border rounded text-[10px] font-bold uppercase tracking-wide ${papers.length ? 'hover:bg-yellow-50 text-yellow-700 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>{isBulkSynthesizing ? <Loader2 className="h-3 w-3 animate-spin"/> : <Zap className="h-3 w-3 fill-yellow-700"/>} Synthesize Sub-Themes</button>
+                <button onClick={() => confirmRun(getMainSynthesisEstimate(), handleBulkMainSynthesis)} disabled={!papers.length || isBulkSynthesizing || !apiKey} className={`flex gap-1 px-1.5 py-1.5 border rounded text-[10px] font-bold uppercase tracking-wide ${papers.length ? 'hover:bg-orange-50 text-orange-700 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>{isBulkSynthesizing ? <Loader2 className="h-3 w-3 animate-spin"/> : <FileText className="h-3 w-3 fill-orange-700"/>} Synthesize Main Categories</button>
                 
                 {/* Theme Consolidation Button */}
                 <button 
@@ -2762,6 +7512,19 @@ const App = () => {
                       : 'Suggest Merges'}
                 </button>
 
+                <button 
+                  onClick={() => { setViewMode('folder'); handleFindDuplicates(); }}
+                  disabled={papers.length === 0}
+                  title="Find the same paper extracted more than once (by DOI, title, or first author + year)."
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold transition-colors border
+                    ${papers.length === 0
+                      ? 'text-slate-400 border-slate-100 cursor-not-allowed'
+                      : 'text-amber-700 border-amber-200 bg-amber-50 hover:bg-amber-100'}`}
+                >
+                  <Copy className="h-3 w-3" />
+                  Find Duplicates
+                </button>
+
                 <button 
                   onClick={handleClearAll}
                   className="flex items-center gap-1 px-2 py-1.5 text-xs font-bold text-red-600 hover:bg-red-50 rounded border border-transparent hover:border-red-100 transition-colors"
@@ -2805,6 +7568,8 @@ const App = () => {
                           handleOptimizeTerms={handleOptimizeTerms}
                           isConsolidating={isConsolidating}
                           apiKey={apiKey}
+                          customOrder={sankeyOrder}
+                          setCustomOrder={setSankeyOrder}
                         />
                     </div>
                     {filteredPapers && (
@@ -2857,7 +7622,7 @@ const App = () => {
                   <GeoSpeciesChart papers={papers} />
                </div>
             ) : viewMode === 'chat' ? (
-                <div className="h-full max-w-3xl mx-auto"><ChatPanel papers={papers} apiKey={apiKey} modelId={activeModelId} /></div>
+                <div className="h-full max-w-3xl mx-auto"><ChatPanel papers={papers} apiKey={apiKey} model={activeModel} history={chatHistory} setHistory={setChatHistory} /></div>
             ) : (
                 renderListView()
             )}